@@ -0,0 +1,35 @@
+// Shared by the server tests. Each test file mocks @/lib/db with its own in-memory database,
+// and these helpers work on whichever one the importing file set up.
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+
+// Money only moves once the email address is verified
+export function markEmailVerified<T extends { id: number }>(user: T) {
+  const emailVerifiedAt = new Date().toISOString();
+  db.update(users).set({ emailVerifiedAt }).where(eq(users.id, user.id)).run();
+  return { ...user, emailVerifiedAt };
+}
+
+// Empties every table, so a test starts from a blank database. Foreign keys are off while it
+// runs, so tables added by later migrations are cleared without anyone listing them in order.
+// Triggers that forbid deletes (statements are never deleted) are set aside meanwhile.
+export function resetDatabase() {
+  const sqlite = (db as any).session.client;
+  const tables: { name: string }[] = sqlite
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'")
+    .all();
+  const deleteGuards: { name: string; sql: string }[] = sqlite
+    .prepare("SELECT name, sql FROM sqlite_master WHERE type = 'trigger' AND sql LIKE '%BEFORE DELETE%'")
+    .all();
+  const foreignKeys = sqlite.pragma("foreign_keys", { simple: true });
+
+  sqlite.pragma("foreign_keys = OFF");
+  try {
+    sqlite.exec(deleteGuards.map((trigger) => `DROP TRIGGER ${trigger.name};`).join(" "));
+    sqlite.exec(tables.map((table) => `DELETE FROM ${table.name};`).join(" "));
+  } finally {
+    sqlite.exec(deleteGuards.map((trigger) => `${trigger.sql};`).join(" "));
+    sqlite.pragma(`foreign_keys = ${foreignKeys ? "ON" : "OFF"}`);
+  }
+}
@@ -0,0 +1,47 @@
+import Database from "better-sqlite3";
+import { Money } from "@/lib/money";
+import { migrations, runMigrations } from "@/lib/db/migrations";
+
+describe("Money", () => {
+  test("TC-MNY-701: Dollar input converts to exact cents", () => {
+    expect(Money.fromDollars(1.05)).toBe(105);
+    expect(Money.fromDollars(0.1 + 0.2)).toBe(30);
+    expect(Money.toDollars(2100)).toBe(21);
+    expect(Money.isWholeCents(1.05)).toBe(true);
+    expect(Money.isWholeCents(1.005)).toBe(false);
+  });
+
+  test("TC-MNY-702: Arithmetic and formatting stay in cents", () => {
+    expect(Money.sum(Array(20).fill(105))).toBe(2100);
+    expect(Money.subtract(1000, 1001)).toBe(-1);
+    expect(Money.format(123456)).toBe("$1,234.56");
+    expect(() => Money.add(1.5, 1)).toThrow(RangeError);
+  });
+
+  test("TC-MNY-703: Migration converts REAL balances and amounts losslessly", () => {
+    const sqlite = new Database(":memory:");
+    const centsMigration = migrations.find((migration) => migration.name === "store money as integer cents")!;
+
+    // Build the schema as it was before the cents migration and seed float data
+    for (const migration of migrations.filter((m) => m.version < centsMigration.version)) {
+      migration.up(sqlite);
+    }
+    sqlite.pragma(`user_version = ${centsMigration.version - 1}`);
+    sqlite.exec(`
+      INSERT INTO users (id, email, password, first_name, last_name, phone_number, date_of_birth, ssn, address, city, state, zip_code)
+      VALUES (1, 'a@example.com', 'x', 'A', 'B', '1234567890', '1990-01-01', 'x', '1 St', 'City', 'CA', '12345');
+      INSERT INTO accounts (id, user_id, account_number, account_type, balance, status)
+      VALUES (1, 1, '0000000001', 'checking', 21.0, 'active'), (2, 1, '0000000002', 'savings', 1234567.89, 'active');
+      INSERT INTO transactions (account_id, type, amount, status) VALUES (1, 'deposit', 1.05, 'completed'), (2, 'deposit', 0.29, 'completed');
+    `);
+
+    runMigrations(sqlite);
+
+    expect(sqlite.prepare("SELECT id, balance_cents FROM accounts ORDER BY id").all()).toEqual([
+      { id: 1, balance_cents: 2100 },
+      { id: 2, balance_cents: 123456789 },
+    ]);
+    expect(sqlite.prepare("SELECT amount_cents FROM transactions ORDER BY id").pluck().all()).toEqual([105, 29]);
+    expect(sqlite.prepare("SELECT name FROM pragma_table_info('accounts')").pluck().all()).not.toContain("balance");
+  });
+});
@@ -0,0 +1,59 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { hasValidRoutingChecksum, hasValidRoutingPrefix, routingNumberError } from "@/lib/routing";
+import { loadRoutingDirectory, lookupRoutingNumber } from "@/server/services/routingDirectory";
+
+describe("Routing Numbers", () => {
+  test("TC-RTN-2101: ABA prefixes and the 3-7-1 checksum are enforced", () => {
+    expect(hasValidRoutingChecksum("021000021")).toBe(true);
+    expect(hasValidRoutingChecksum("021000022")).toBe(false);
+    // Transposed digits break the checksum
+    expect(hasValidRoutingChecksum("012000021")).toBe(false);
+
+    expect(hasValidRoutingPrefix("121000248")).toBe(true);
+    expect(hasValidRoutingPrefix("256074974")).toBe(true);
+    expect(hasValidRoutingPrefix("130000006")).toBe(false);
+    expect(hasValidRoutingPrefix("500000003")).toBe(false);
+
+    expect(routingNumberError("021000021")).toBeNull();
+    expect(routingNumberError("02100002")).toMatch(/9-digit/);
+    expect(routingNumberError("130000006")).toMatch(/not a US bank routing number/);
+    expect(routingNumberError("021000022")).toMatch(/Invalid routing number/);
+  });
+
+  test("TC-RTN-2102: The bundled directory names banks and picks up an updated file", () => {
+    expect(lookupRoutingNumber("021000021")).toMatchObject({ name: "JPMorgan Chase Bank", state: "NY" });
+    // Passes the checksum but is not a participating bank
+    expect(lookupRoutingNumber("011000028")).toBeNull();
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "routing-"));
+    const file = path.join(dir, "directory.json");
+    const write = (banks: { routingNumber: string; name: string }[], mtime: Date) => {
+      fs.writeFileSync(
+        file,
+        JSON.stringify({ updatedAt: "2026-10-01", banks: banks.map((bank) => ({ city: "Boston", state: "MA", ...bank })) })
+      );
+      fs.utimesSync(file, mtime, mtime);
+    };
+
+    try {
+      write([{ routingNumber: "011000015", name: "Federal Reserve Bank of Boston" }], new Date("2026-10-01"));
+      expect(lookupRoutingNumber("011000028", file)).toBeNull();
+
+      write(
+        [
+          { routingNumber: "011000015", name: "Federal Reserve Bank of Boston" },
+          { routingNumber: "011000028", name: "State Street Bank" },
+        ],
+        new Date("2026-10-02")
+      );
+      expect(lookupRoutingNumber("011000028", file)?.name).toBe("State Street Bank");
+
+      write([{ routingNumber: "011000029", name: "Typo Bank" }], new Date("2026-10-03"));
+      expect(() => loadRoutingDirectory(file)).toThrow(/invalid entry for "011000029"/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
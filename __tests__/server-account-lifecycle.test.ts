@@ -0,0 +1,278 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { accounts, scheduledTransfers, transactions, users } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { MAX_ACCOUNTS_PER_TYPE, markDormantAccounts, transitionAccountStatus } from "@/server/services/accounts";
+import { accrueInterest } from "@/server/services/interest";
+import { completeDueWithdrawals } from "@/server/services/withdrawals";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Account Lifecycle Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+  let staff: ReturnType<typeof createCaller>;
+  let checkingId: number;
+  let savingsId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const sqlite = () => (db as any).session.client;
+
+  const signup = (email: string) =>
+    createCaller().auth.signup({
+      email,
+      password: "Password1!",
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+
+  const fund = (accountId: number, amount: number) =>
+    caller.account.fundAccount({
+      accountId,
+      amount,
+      fundingSource: { type: "card", accountNumber: "4111111111111111" },
+    });
+
+  const getAccount = (accountId: number) => db.select().from(accounts).where(eq(accounts.id, accountId)).get()!;
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const { user } = await signup("lifecycle@example.com");
+    caller = createCaller(markEmailVerified(user));
+    checkingId = (await caller.account.createAccount({ accountType: "checking" })).id;
+    savingsId = (await caller.account.createAccount({ accountType: "savings" })).id;
+
+    const { user: staffUser } = await signup("staff@example.com");
+    await db.update(users).set({ role: "staff" }).where(eq(users.id, staffUser.id));
+    staff = createCaller(db.select().from(users).where(eq(users.id, staffUser.id)).get());
+  });
+
+  test("TC-LIF-2201: Opening and closing an empty account are recorded and a closed account can be replaced", async () => {
+    expect(getAccount(checkingId).status).toBe("active");
+
+    const result = await caller.account.closeAccount({ accountId: checkingId });
+    expect(result.account.status).toBe("closed");
+    expect(result.payoutCents).toBe(0);
+
+    const history = await caller.account.getStatusHistory({ accountId: checkingId });
+    expect(history.map((change) => [change.fromStatus, change.toStatus, change.reasonCode])).toEqual([
+      ["pending", "active", "opened"],
+      ["active", "closed", "customer_request"],
+    ]);
+
+    await expect(fund(checkingId, 10)).rejects.toThrow(/Account is closed/);
+    await expect(caller.account.closeAccount({ accountId: checkingId })).rejects.toThrow(/already closed/);
+
+    const replacement = await caller.account.createAccount({ accountType: "checking" });
+    expect(replacement.status).toBe("active");
+  });
+
+  test("TC-LIF-2202: Closing with a balance needs a payout account and pays accrued interest first", async () => {
+    await fund(savingsId, 10000);
+    const schedule = await caller.schedule.create({
+      kind: "transfer",
+      fromAccountId: savingsId,
+      toAccountId: checkingId,
+      amount: 50,
+      frequency: "monthly",
+      startAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    });
+
+    // Three days of interest accrued but not yet credited
+    sqlite().exec(`UPDATE accounts SET created_at = datetime('now', '-3 days') WHERE id = ${savingsId}`);
+    sqlite().exec(`UPDATE journal_entries SET created_at = datetime('now', '-3 days')`);
+    expect(accrueInterest()).toBe(3);
+
+    await expect(caller.account.closeAccount({ accountId: savingsId })).rejects.toThrow(
+      /Choose an account to receive the remaining balance/
+    );
+    expect(getAccount(savingsId).status).toBe("active");
+
+    const result = await caller.account.closeAccount({ accountId: savingsId, payoutAccountId: checkingId });
+    const interest = db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.accountId, savingsId), eq(transactions.type, "interest")))
+      .get()!;
+    expect(interest.description).toBe("Interest to account closure");
+    expect(interest.amountCents).toBeGreaterThan(0);
+
+    expect(result.payoutCents).toBe(1_000_000 + interest.amountCents);
+    expect(result.payoutTransaction?.type).toBe("transfer_out");
+    expect(getAccount(savingsId)).toMatchObject({ status: "closed", balanceCents: 0 });
+    expect(getAccount(checkingId).balanceCents).toBe(1_000_000 + interest.amountCents);
+
+    const cancelled = db.select().from(scheduledTransfers).where(eq(scheduledTransfers.id, schedule.id)).get()!;
+    expect(cancelled.status).toBe("cancelled");
+
+    // Nothing more accrues once closed
+    expect(accrueInterest(new Date(Date.now() + 3 * 24 * 60 * 60 * 1000))).toBe(0);
+  });
+
+  test("TC-LIF-2203: Staff freezes stop money movement until the account is unfrozen", async () => {
+    await fund(checkingId, 500);
+    await caller.account.withdraw({
+      accountId: checkingId,
+      amount: 100,
+      destination: { accountNumber: "12345678", routingNumber: "021000021" },
+    });
+
+    await expect(caller.staff.freezeAccount({ accountId: checkingId, reason: "suspected_fraud" })).rejects.toThrow(
+      /FORBIDDEN/
+    );
+
+    const frozen = await staff.staff.freezeAccount({
+      accountId: checkingId,
+      reason: "suspected_fraud",
+      note: "Card testing pattern",
+    });
+    expect(frozen).toMatchObject({ status: "frozen", statusReason: "suspected_fraud" });
+
+    await expect(fund(checkingId, 10)).rejects.toThrow(/Account is frozen/);
+    await expect(
+      caller.account.transfer({ fromAccountId: checkingId, toAccountId: savingsId, amount: 10 })
+    ).rejects.toThrow(/Account is frozen/);
+    await expect(
+      caller.account.withdraw({
+        accountId: checkingId,
+        amount: 10,
+        destination: { accountNumber: "12345678", routingNumber: "021000021" },
+      })
+    ).rejects.toThrow(/Account is frozen/);
+    await expect(caller.account.closeAccount({ accountId: checkingId })).rejects.toThrow(/Account is frozen/);
+
+    // The withdrawal made before the freeze is held
+    const later = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    completeDueWithdrawals(later);
+    const withdrawal = db.select().from(transactions).where(eq(transactions.type, "withdrawal")).get()!;
+    expect(withdrawal.status).toBe("pending");
+
+    await expect(staff.staff.unfreezeAccount({ accountId: savingsId })).rejects.toThrow(/not frozen/);
+    const unfrozen = await staff.staff.unfreezeAccount({ accountId: checkingId, note: "Customer verified" });
+    expect(unfrozen).toMatchObject({ status: "active", statusReason: "review_cleared" });
+
+    completeDueWithdrawals(later);
+    expect(db.select().from(transactions).where(eq(transactions.id, withdrawal.id)).get()!.status).toBe("completed");
+
+    const changes = await staff.staff.listStatusChanges({ accountId: checkingId });
+    expect(changes.slice(1).map((change) => [change.toStatus, change.note])).toEqual([
+      ["frozen", "Card testing pattern"],
+      ["active", "Customer verified"],
+    ]);
+  });
+
+  test("TC-LIF-2204: Transitions and reason codes outside the state machine are rejected", async () => {
+    expect(() =>
+      db.transaction((tx) => transitionAccountStatus(tx, { accountId: checkingId, to: "pending", reason: "opened" }))
+    ).toThrow(/An? active account cannot become pending/);
+    expect(() =>
+      db.transaction((tx) => transitionAccountStatus(tx, { accountId: checkingId, to: "frozen", reason: "opened" }))
+    ).toThrow(/"opened" is not a reason for a frozen account/);
+
+    await caller.account.closeAccount({ accountId: checkingId });
+    await expect(staff.staff.freezeAccount({ accountId: checkingId, reason: "legal_order" })).rejects.toThrow(
+      /closed account cannot become frozen/
+    );
+
+    // The database refuses statuses the application doesn't know about
+    expect(() => sqlite().exec(`UPDATE accounts SET status = 'suspended' WHERE id = ${savingsId}`)).toThrow(
+      /invalid account status/
+    );
+  });
+
+  test("TC-LIF-2205: Idle accounts go dormant and come back when the customer reactivates them", async () => {
+    await fund(checkingId, 100);
+    sqlite().exec(`UPDATE accounts SET created_at = datetime('now', '-400 days'), status_changed_at = NULL`);
+    sqlite().exec(`UPDATE transactions SET created_at = datetime('now', '-380 days')`);
+    // Interest alone doesn't count as customer activity
+    sqlite().exec(
+      `INSERT INTO transactions (account_id, type, amount_cents, description, status) VALUES (${savingsId}, 'interest', 1, 'Interest', 'completed')`
+    );
+
+    const now = new Date();
+    expect(markDormantAccounts(now).map((account) => account.id).sort()).toEqual([checkingId, savingsId].sort());
+    expect(markDormantAccounts(now)).toHaveLength(0);
+    expect(getAccount(checkingId)).toMatchObject({ status: "dormant", statusReason: "inactivity" });
+
+    await expect(fund(checkingId, 10)).rejects.toThrow(/Account is dormant/);
+    await expect(caller.account.reactivateAccount({ accountId: checkingId })).resolves.toMatchObject({
+      status: "active",
+      statusReason: "customer_reactivated",
+    });
+    await expect(caller.account.reactivateAccount({ accountId: checkingId })).rejects.toThrow(/Only dormant/);
+
+    // A freshly reactivated account isn't swept again
+    expect(markDormantAccounts(now)).toHaveLength(0);
+    await expect(fund(checkingId, 10)).resolves.toBeDefined();
+  });
+
+  test("TC-LIF-2206: Several accounts of a type can be opened up to the cap, each with its own nickname", async () => {
+    const emergency = await caller.account.createAccount({ accountType: "savings", nickname: " Emergency fund " });
+    expect(emergency.nickname).toBe("Emergency fund");
+
+    await expect(caller.account.createAccount({ accountType: "savings", nickname: "emergency FUND" })).rejects.toThrow(
+      /already have an account called "emergency FUND"/
+    );
+    const vacation = await caller.account.createAccount({ accountType: "savings", nickname: "Vacation" });
+
+    for (let i = 3; i < MAX_ACCOUNTS_PER_TYPE; i++) {
+      await caller.account.createAccount({ accountType: "savings" });
+    }
+    await expect(caller.account.createAccount({ accountType: "savings" })).rejects.toThrow(
+      `You can have at most ${MAX_ACCOUNTS_PER_TYPE} open savings accounts`
+    );
+    // The cap is per type, and closed accounts free up a slot
+    await expect(caller.account.createAccount({ accountType: "checking" })).resolves.toBeDefined();
+    await caller.account.closeAccount({ accountId: vacation.id });
+    await expect(caller.account.createAccount({ accountType: "savings", nickname: "Vacation" })).resolves.toMatchObject({
+      nickname: "Vacation",
+    });
+
+    await expect(caller.account.renameAccount({ accountId: savingsId, nickname: "Vacation" })).rejects.toThrow(
+      /already have an account called/
+    );
+    await expect(caller.account.renameAccount({ accountId: emergency.id, nickname: "Rainy day" })).resolves.toMatchObject({
+      nickname: "Rainy day",
+    });
+    await expect(caller.account.renameAccount({ accountId: emergency.id, nickname: "  " })).resolves.toMatchObject({
+      nickname: null,
+    });
+    await expect(caller.account.renameAccount({ accountId: vacation.id, nickname: "Old" })).rejects.toThrow(
+      /Account is closed/
+    );
+
+    // Nobody else can rename the account
+    const { user: other } = await signup("other@example.com");
+    await expect(
+      createCaller(other).account.renameAccount({ accountId: emergency.id, nickname: "Mine" })
+    ).rejects.toThrow(/Account not found/);
+  });
+});
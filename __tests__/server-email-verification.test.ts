@@ -0,0 +1,145 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { users } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { setMailTransport } from "@/server/services/mail";
+import { createOutboxTransport, readOutbox } from "@/server/services/mail/outbox";
+import { resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Email Verification Tests", () => {
+  let outboxDir: string;
+  let userId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const sqlite = () => (db as any).session.client;
+  const email = "verify@example.com";
+
+  // What a signed-in request would see: the user as currently stored
+  const currentCaller = () => createCaller(db.select().from(users).where(eq(users.id, userId)).get());
+
+  const verificationTokens = () =>
+    readOutbox(outboxDir, email)
+      .filter((message) => message.subject.startsWith("Verify"))
+      .map((message) => message.text.match(/verify-email\?token=([\w-]+)/)![1]);
+
+  // Pretends every verification email so far went out this long ago
+  const backdateEmails = (ms: number) =>
+    sqlite()
+      .prepare("UPDATE email_verification_tokens SET sent_at = ?")
+      .run(new Date(Date.now() - ms).toISOString());
+
+  beforeEach(async () => {
+    outboxDir = fs.mkdtempSync(path.join(os.tmpdir(), "outbox-"));
+    setMailTransport(createOutboxTransport(outboxDir));
+    resetDatabase();
+
+    const { user } = await createCaller().auth.signup({
+      email,
+      password: "Password1!",
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    userId = user.id;
+  });
+
+  afterEach(() => {
+    fs.rmSync(outboxDir, { recursive: true, force: true });
+  });
+
+  test("TC-EMV-2501: Money can't move until the emailed link is opened", async () => {
+    expect(verificationTokens()).toHaveLength(1);
+    await expect(currentCaller().auth.getEmailVerification()).resolves.toMatchObject({ email, verified: false });
+
+    // Opening accounts is fine; moving money is not
+    const caller = currentCaller();
+    const checking = await caller.account.createAccount({ accountType: "checking" });
+    const savings = await caller.account.createAccount({ accountType: "savings" });
+    const card = { type: "card" as const, accountNumber: "4111111111111111" };
+
+    await expect(caller.account.fundAccount({ accountId: checking.id, amount: 50, fundingSource: card })).rejects.toThrow(
+      /Verify your email address/
+    );
+    await expect(
+      caller.account.transfer({ fromAccountId: checking.id, toAccountId: savings.id, amount: 10 })
+    ).rejects.toThrow(/Verify your email address/);
+    await expect(
+      caller.account.withdraw({
+        accountId: checking.id,
+        amount: 10,
+        destination: { accountNumber: "123456789", routingNumber: "021000021" },
+      })
+    ).rejects.toThrow(/Verify your email address/);
+
+    await expect(createCaller().auth.verifyEmail({ token: "made-up" })).rejects.toThrow(/invalid or has expired/);
+    await createCaller().auth.verifyEmail({ token: verificationTokens()[0] });
+    await expect(createCaller().auth.verifyEmail({ token: verificationTokens()[0] })).rejects.toThrow(
+      /invalid or has expired/
+    );
+
+    await expect(currentCaller().auth.getEmailVerification()).resolves.toMatchObject({ verified: true });
+    await expect(
+      currentCaller().account.fundAccount({ accountId: checking.id, amount: 50, fundingSource: card })
+    ).resolves.toHaveProperty("newBalanceCents", 5000);
+  });
+
+  test("TC-EMV-2502: Resending is throttled, and expired links are refused", async () => {
+    await expect(currentCaller().auth.resendVerificationEmail()).rejects.toThrow(/Please wait \d+ seconds/);
+
+    backdateEmails(2 * 60 * 1000);
+    await currentCaller().auth.resendVerificationEmail();
+    expect(verificationTokens()).toHaveLength(2);
+
+    // Five emails a day at most, counting the one sent at signup
+    for (let i = 0; i < 3; i++) {
+      backdateEmails(2 * 60 * 1000);
+      await currentCaller().auth.resendVerificationEmail();
+    }
+    backdateEmails(2 * 60 * 1000);
+    await expect(currentCaller().auth.resendVerificationEmail()).rejects.toThrow(/Too many verification emails/);
+
+    backdateEmails(25 * 60 * 60 * 1000);
+    sqlite().exec("UPDATE email_verification_tokens SET expires_at = '2000-01-01T00:00:00.000Z'");
+    await expect(createCaller().auth.verifyEmail({ token: verificationTokens()[4] })).rejects.toThrow(
+      /invalid or has expired/
+    );
+
+    // A day later a new link can be sent, and any unexpired link works
+    await currentCaller().auth.resendVerificationEmail();
+    const tokens = verificationTokens();
+    await createCaller().auth.verifyEmail({ token: tokens[tokens.length - 1] });
+
+    await expect(currentCaller().auth.resendVerificationEmail()).rejects.toThrow(/already verified/);
+  });
+});
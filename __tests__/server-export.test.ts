@@ -0,0 +1,124 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { transactions } from "@/lib/db/schema";
+import { resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Transaction Export Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+  let accountId: number;
+  let depositId: number;
+  let paymentId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const insertTransaction = (values: Partial<typeof transactions.$inferInsert>) =>
+    db
+      .insert(transactions)
+      .values({ accountId, type: "deposit", amountCents: 1000, status: "completed", ...values })
+      .returning()
+      .get();
+
+  const exportFile = async (format: "csv" | "ofx" | "qif", range: { fromDate?: string; toDate?: string } = {}) => {
+    const file = await caller.account.exportTransactions({ accountId, format, ...range });
+    return { ...file, content: Buffer.from(file.contentBase64, "base64").toString("utf8") };
+  };
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const result = await createCaller().auth.signup({
+      email: "export@example.com",
+      password: "Password1!",
+      firstName: "Export",
+      lastName: "User",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    caller = createCaller(result.user);
+    accountId = (await caller.account.createAccount({ accountType: "checking" })).id;
+
+    depositId = insertTransaction({ createdAt: "2028-03-01 09:00:00", amountCents: 150000, description: "Payroll" }).id;
+    paymentId = insertTransaction({
+      createdAt: "2028-03-02 10:30:00",
+      type: "payment_sent",
+      amountCents: 2550,
+      description: '=HYPERLINK("x"), rent',
+    }).id;
+    insertTransaction({ createdAt: "2028-03-03 08:00:00", amountCents: 999, status: "pending", description: "Pending" });
+    insertTransaction({ createdAt: "2028-04-01 08:00:00", type: "interest", amountCents: 12, description: "Interest" });
+  });
+
+  test("TC-EXP-1601: CSV signs amounts by type and neutralizes formulas", async () => {
+    const file = await exportFile("csv", { fromDate: "2028-03-01", toDate: "2028-03-31" });
+
+    expect(file.mimeType).toBe("text/csv");
+    expect(file.filename).toMatch(/-2028-03-01-to-2028-03-31\.csv$/);
+    expect(file.content.trim().split("\r\n")).toEqual([
+      "Transaction ID,Date,Type,Description,Amount,Status",
+      `${depositId},2028-03-01,Deposit,Payroll,1500.00,completed`,
+      `${paymentId},2028-03-02,Payment Sent,"'=HYPERLINK(""x""), rent",-25.50,completed`,
+    ]);
+  });
+
+  test("TC-EXP-1602: OFX and QIF use transaction ids as stable identifiers", async () => {
+    const ofx = await exportFile("ofx", { fromDate: "2028-03-01", toDate: "2028-03-31" });
+    expect(ofx.content).toContain('<?OFX OFXHEADER="200" VERSION="220"');
+    expect(ofx.content).toContain("<DTSTART>20280301000000</DTSTART>");
+    expect(ofx.content).toContain("<DTEND>20280331235959</DTEND>");
+    expect(ofx.content).toMatch(
+      new RegExp(`<TRNTYPE>PAYMENT</TRNTYPE>\\s*<DTPOSTED>20280302103000</DTPOSTED>\\s*<TRNAMT>-25.50</TRNAMT>\\s*<FITID>${paymentId}</FITID>`)
+    );
+    expect(ofx.content.match(/<STMTTRN>/g)).toHaveLength(2);
+
+    const qif = await exportFile("qif", { fromDate: "2028-03-01", toDate: "2028-03-31" });
+    expect(qif.content.split("\n").slice(0, 7)).toEqual([
+      "!Type:Bank",
+      "D03/01/2028",
+      "T1500.00",
+      `N${depositId}`,
+      "PPayroll",
+      "MDeposit",
+      "^",
+    ]);
+  });
+
+  test("TC-EXP-1603: Exports only posted transactions within the range", async () => {
+    const all = await exportFile("csv");
+    const lines = all.content.trim().split("\r\n").slice(1);
+    expect(lines.map((line) => line.split(",")[0])).toEqual([String(depositId), String(paymentId), expect.any(String)]);
+    expect(all.content).not.toContain("Pending");
+
+    await expect(
+      caller.account.exportTransactions({ accountId, format: "csv", fromDate: "2028-04-01", toDate: "2028-03-01" })
+    ).rejects.toThrow(/on or before/);
+    await expect(caller.account.exportTransactions({ accountId: accountId + 1000, format: "csv" })).rejects.toThrow(
+      /Account not found/
+    );
+  });
+});
@@ -0,0 +1,219 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { accounts, fraudDecisions, fundingSources, transactions } from "@/lib/db/schema";
+import { Money } from "@/lib/money";
+import { eq } from "drizzle-orm";
+import { resolveFraudReview } from "@/server/services/fraud";
+import { ACH_CLEARING_DELAY_MS, getSettlementProcessor, settleDueDeposits } from "@/server/services/settlement";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Fraud Screening Tests", () => {
+  const SHARED_CARD = "4012888888881881";
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  // Signs up a customer with one checking account
+  const newCustomer = async (email: string) => {
+    const result = await createCaller().auth.signup({
+      email,
+      password: "Password1!",
+      firstName: "Fraud",
+      lastName: "Test",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    const caller = createCaller(markEmailVerified(result.user));
+    const account = await caller.account.createAccount({ accountType: "checking" });
+    return { caller, accountId: account.id };
+  };
+
+  const fundByCard = (customer: { caller: ReturnType<typeof createCaller>; accountId: number }, cardNumber: string) =>
+    customer.caller.account.fundAccount({
+      accountId: customer.accountId,
+      amount: 50,
+      fundingSource: { type: "card", accountNumber: cardNumber },
+    });
+
+  // Links the bank account and confirms the micro-deposits the simulator sent
+  const linkVerifiedBank = async (customer: { caller: ReturnType<typeof createCaller> }) => {
+    const { id } = await customer.caller.fundingSource.add({
+      type: "bank",
+      accountNumber: "987654321",
+      routingNumber: "021000021",
+    });
+    const sent = db.select().from(fundingSources).where(eq(fundingSources.id, id)).get()!;
+    await customer.caller.fundingSource.verify({
+      fundingSourceId: id,
+      amounts: [Money.toDollars(sent.microDeposit1Cents!), Money.toDollars(sent.microDeposit2Cents!)],
+    });
+    return id;
+  };
+
+  const fundByBank = (customer: { caller: ReturnType<typeof createCaller>; accountId: number }, fundingSourceId: number) =>
+    customer.caller.account.fundAccount({ accountId: customer.accountId, amount: 5000, fundingSourceId });
+
+  const balanceOf = (accountId: number) =>
+    db.select().from(accounts).where(eq(accounts.id, accountId)).get()!.balanceCents;
+
+  const decisionFor = (transactionId: number) =>
+    db.select().from(fraudDecisions).where(eq(fraudDecisions.transactionId, transactionId)).get()!;
+
+  beforeEach(() => {
+    resetDatabase();
+  });
+
+  test("TC-FRD-1901: A card shared across customers is held for review and captured on approval", async () => {
+    await fundByCard(await newCustomer("first@example.com"), SHARED_CARD);
+    await fundByCard(await newCustomer("second@example.com"), SHARED_CARD);
+
+    const third = await newCustomer("third@example.com");
+    const { transaction } = await fundByCard(third, SHARED_CARD);
+
+    expect(transaction.status).toBe("pending");
+    expect(balanceOf(third.accountId)).toBe(0);
+
+    const decision = decisionFor(transaction.id);
+    expect(decision).toMatchObject({ decision: "review", score: 60, fundingToken: null });
+    expect(decision.fundingFingerprint).not.toContain(SHARED_CARD);
+    expect(JSON.parse(decision.rules)).toEqual([
+      { rule: "shared_funding_source", score: 60, detail: "Funding source already used by 2 other customers" },
+    ]);
+
+    await expect(resolveFraudReview(decision.id, "approved", "")).rejects.toThrow(/who made it/);
+    const reviewed = await resolveFraudReview(decision.id, "approved", "Risk Analyst");
+
+    expect(reviewed).toMatchObject({ reviewOutcome: "approved", reviewedBy: "Risk Analyst" });
+    expect(db.select().from(transactions).where(eq(transactions.id, transaction.id)).get()?.status).toBe("settled");
+    expect(balanceOf(third.accountId)).toBe(5000);
+    await expect(resolveFraudReview(decision.id, "approved", "Risk Analyst")).rejects.toThrow(/not awaiting review/);
+  });
+
+  test("TC-FRD-1902: A burst on a shared card is blocked and the block is recorded", async () => {
+    await fundByCard(await newCustomer("first@example.com"), SHARED_CARD);
+    await fundByCard(await newCustomer("second@example.com"), SHARED_CARD);
+
+    const third = await newCustomer("third@example.com");
+    for (let i = 0; i < 3; i++) {
+      await fundByCard(third, SHARED_CARD);
+    }
+
+    await expect(fundByCard(third, SHARED_CARD)).rejects.toThrow(/could not be accepted/);
+
+    const blocked = db.select().from(fraudDecisions).where(eq(fraudDecisions.decision, "block")).all();
+    expect(blocked).toHaveLength(1);
+    expect(blocked[0]).toMatchObject({ score: 100, transactionId: null });
+    expect(JSON.parse(blocked[0].rules).map((fired: { rule: string }) => fired.rule)).toEqual([
+      "shared_funding_source",
+      "deposit_burst",
+    ]);
+
+    // A clean card right after a block still carries the recent block and the burst
+    await expect(fundByCard(third, "4111111111111111")).rejects.toThrow(/could not be accepted/);
+  });
+
+  test("TC-FRD-1903: Held bank deposits are submitted only after approval", async () => {
+    const customer = await newCustomer("bank@example.com");
+    const bankId = await linkVerifiedBank(customer);
+
+    // Large deposits into a new account score 30 each; the fourth in a burst reaches review
+    for (let i = 0; i < 3; i++) {
+      await fundByBank(customer, bankId);
+    }
+    const held = (await fundByBank(customer, bankId)).transaction;
+    const rejected = (await fundByBank(customer, bankId)).transaction;
+
+    expect(held).toMatchObject({ status: "pending", processorReference: null, settleAfter: null });
+    const decision = decisionFor(held.id);
+    expect(decision).toMatchObject({ decision: "review", score: 70 });
+    expect(decision.fundingToken).toMatch(/^sim-tok-bank-settle-/);
+
+    await resolveFraudReview(decisionFor(rejected.id).id, "rejected", "Risk Analyst");
+    expect(db.select().from(transactions).where(eq(transactions.id, rejected.id)).get()?.status).toBe("failed");
+
+    const now = new Date();
+    const approved = await resolveFraudReview(decision.id, "approved", "Risk Analyst", now);
+    expect(approved.fundingToken).toBeNull();
+
+    await settleDueDeposits(new Date(now.getTime() + ACH_CLEARING_DELAY_MS));
+    const settled = db.select().from(transactions).where(eq(transactions.id, held.id)).get()!;
+    expect(settled.status).toBe("settled");
+    expect(settled.processorReference).toMatch(/^sim-ach-settle-/);
+  });
+
+  test("TC-FRD-1904: FRAUD_CONFIG overrides only the rule fields it names and rejects bad values", () => {
+    const loadConfig = (raw: string) => {
+      process.env.FRAUD_CONFIG = raw;
+      try {
+        let config: unknown;
+        jest.isolateModules(() => {
+          config = require("@/server/services/fraud").FRAUD_CONFIG;
+        });
+        return config;
+      } finally {
+        delete process.env.FRAUD_CONFIG;
+      }
+    };
+
+    expect(loadConfig('{"reviewScore":40,"depositBurst":{"maxAttempts":5}}')).toMatchObject({
+      reviewScore: 40,
+      blockScore: 80,
+      depositBurst: { score: 40, maxAttempts: 5, windowMinutes: 10 },
+    });
+    expect(() => loadConfig('{"depositBurst":{"count":3}}')).toThrow(/FRAUD_CONFIG is invalid: depositBurst/);
+    expect(() => loadConfig('{"recentBlock":{"windowHours":"24"}}')).toThrow(/recentBlock.windowHours/);
+    expect(() => loadConfig("{reviewScore: 40}")).toThrow(/FRAUD_CONFIG is not valid JSON/);
+  });
+
+  test("TC-FRD-1905: Two reviewers approving at once capture the card only once", async () => {
+    await fundByCard(await newCustomer("first@example.com"), SHARED_CARD);
+    await fundByCard(await newCustomer("second@example.com"), SHARED_CARD);
+    const third = await newCustomer("third@example.com");
+    const { transaction } = await fundByCard(third, SHARED_CARD);
+    const decision = decisionFor(transaction.id);
+
+    // A processor that can't be reached leaves the deposit waiting for review
+    const capture = jest.spyOn(getSettlementProcessor(), "captureCard");
+    capture.mockRejectedValueOnce(new Error("processor unavailable"));
+    await expect(resolveFraudReview(decision.id, "approved", "Risk Analyst")).rejects.toThrow(/processor unavailable/);
+    expect(decisionFor(transaction.id)).toMatchObject({ reviewOutcome: null, reviewedBy: null });
+
+    const results = await Promise.allSettled([
+      resolveFraudReview(decision.id, "approved", "Risk Analyst"),
+      resolveFraudReview(decision.id, "approved", "Second Analyst"),
+    ]);
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+    expect(results.find((result) => result.status === "rejected")).toMatchObject({
+      reason: { message: expect.stringMatching(/not awaiting review/) },
+    });
+    expect(capture).toHaveBeenCalledTimes(2);
+    capture.mockRestore();
+    expect(balanceOf(third.accountId)).toBe(5000);
+  });
+});
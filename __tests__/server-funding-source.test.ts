@@ -0,0 +1,268 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { accounts, fraudDecisions, fundingSources } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { Money } from "@/lib/money";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { setMailTransport } from "@/server/services/mail";
+import { createOutboxTransport, readOutbox } from "@/server/services/mail/outbox";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Saved Funding Source Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+  let accountId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const signup = async (email: string) => {
+    const result = await createCaller().auth.signup({
+      email,
+      password: "Password1!",
+      firstName: "Funding",
+      lastName: "User",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    return createCaller(markEmailVerified(result.user));
+  };
+
+  const balanceOf = (id: number) => db.select().from(accounts).where(eq(accounts.id, id)).get()!.balanceCents;
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    caller = await signup("sources@example.com");
+    accountId = (await caller.account.createAccount({ accountType: "checking" })).id;
+  });
+
+  test("TC-FND-2001: Saved sources keep a token and last four digits, never the number", async () => {
+    const card = await caller.fundingSource.add({ type: "card", cardNumber: "4111111111111111" });
+    const bank = await caller.fundingSource.add({
+      type: "bank",
+      accountNumber: "987654321",
+      routingNumber: "021000021",
+      nickname: "Payroll account",
+    });
+
+    expect(card).toMatchObject({ type: "card", last4: "1111", brand: "visa", nickname: "Visa ****1111" });
+    expect(card.token).toBeUndefined();
+    expect(bank).toMatchObject({ type: "bank", last4: "4321", routingNumber: "021000021", nickname: "Payroll account" });
+    expect(card.verificationStatus).toBe("verified");
+
+    const rows = db.select().from(fundingSources).all();
+    expect(rows).toHaveLength(2);
+    const stored = JSON.stringify(rows);
+    expect(stored).not.toContain("4111111111111111");
+    expect(stored).not.toContain("987654321");
+    expect(rows.find((row) => row.type === "card")?.token).toMatch(/^sim-tok-card-ok-/);
+
+    await expect(caller.fundingSource.add({ type: "card", cardNumber: "4111111111111111" })).rejects.toThrow(
+      /already saved as "Visa \*\*\*\*1111"/
+    );
+    await expect(caller.fundingSource.add({ type: "card", cardNumber: "4111111111111112" })).rejects.toThrow(
+      /Invalid card number/
+    );
+    await expect(
+      caller.fundingSource.add({ type: "bank", accountNumber: "987654321", routingNumber: "0210" })
+    ).rejects.toThrow(/9-digit routing number/);
+  });
+
+  test("TC-FND-2002: Rename, list and delete only touch the owner's sources", async () => {
+    const card = await caller.fundingSource.add({ type: "card", cardNumber: "5555555555554444" });
+    const renamed = await caller.fundingSource.rename({ fundingSourceId: card.id, nickname: "  Groceries card " });
+    expect(renamed.nickname).toBe("Groceries card");
+
+    const listed = await caller.fundingSource.list();
+    expect(listed).toEqual([expect.objectContaining({ id: card.id, brand: "mastercard", nickname: "Groceries card" })]);
+    expect(listed[0].token).toBeUndefined();
+    expect(listed[0].fingerprint).toBeUndefined();
+
+    const other = await signup("other@example.com");
+    expect(await other.fundingSource.list()).toEqual([]);
+    await expect(other.fundingSource.rename({ fundingSourceId: card.id, nickname: "Mine now" })).rejects.toThrow(
+      /Funding source not found/
+    );
+    await expect(other.fundingSource.delete({ fundingSourceId: card.id })).rejects.toThrow(/Funding source not found/);
+
+    await caller.fundingSource.delete({ fundingSourceId: card.id });
+    expect(await caller.fundingSource.list()).toEqual([]);
+  });
+
+  test("TC-FND-2003: Deposits can be funded from a saved source", async () => {
+    const card = await caller.fundingSource.add({ type: "card", cardNumber: "4111111111111111" });
+    const { transaction } = await caller.account.fundAccount({ accountId, amount: 25, fundingSourceId: card.id });
+    expect(transaction).toMatchObject({ status: "settled", fundingSourceType: "card" });
+    expect(balanceOf(accountId)).toBe(2500);
+
+    // Fraud screening sees a saved card as the same card typed in by hand
+    await caller.account.fundAccount({
+      accountId,
+      amount: 25,
+      fundingSource: { type: "card", accountNumber: "4111111111111111" },
+    });
+    const fingerprints = new Set(db.select().from(fraudDecisions).all().map((decision) => decision.fundingFingerprint));
+    expect(fingerprints.size).toBe(1);
+
+    const declined = await caller.fundingSource.add({ type: "card", cardNumber: "4000000000000002" });
+    await expect(caller.account.fundAccount({ accountId, amount: 25, fundingSourceId: declined.id })).rejects.toThrow(
+      /Card was declined/
+    );
+
+    await expect(
+      caller.account.fundAccount({
+        accountId,
+        amount: 25,
+        fundingSourceId: card.id,
+        fundingSource: { type: "card", accountNumber: "4111111111111111" },
+      })
+    ).rejects.toThrow(/either funding details or a saved funding source/);
+    await expect(caller.account.fundAccount({ accountId, amount: 25 })).rejects.toThrow();
+
+    const other = await signup("other@example.com");
+    const otherAccountId = (await other.account.createAccount({ accountType: "checking" })).id;
+    await expect(
+      other.account.fundAccount({ accountId: otherAccountId, amount: 25, fundingSourceId: card.id })
+    ).rejects.toThrow(/Funding source not found/);
+  });
+
+  test("TC-FND-2004: Bank accounts fund deposits only after both micro-deposits are confirmed", async () => {
+    const expected = (id: number) => {
+      const sent = db.select().from(fundingSources).where(eq(fundingSources.id, id)).get()!;
+      return [sent.microDeposit1Cents!, sent.microDeposit2Cents!];
+    };
+    const fundFrom = (fundingSourceId: number) => caller.account.fundAccount({ accountId, amount: 40, fundingSourceId });
+
+    await expect(
+      caller.account.fundAccount({
+        accountId,
+        amount: 40,
+        fundingSource: { type: "bank", accountNumber: "987654321", routingNumber: "021000021" },
+      })
+    ).rejects.toThrow(/Link and verify your bank account/);
+
+    const bank = await caller.fundingSource.add({ type: "bank", accountNumber: "987654321", routingNumber: "021000021" });
+    expect(bank).toMatchObject({ verificationStatus: "pending", verificationAttemptsRemaining: 3 });
+    expect(bank.microDeposit1Cents).toBeUndefined();
+    const [first, second] = expected(bank.id);
+    expect(first).toBeGreaterThanOrEqual(1);
+    expect(second).toBeLessThanOrEqual(99);
+    await expect(fundFrom(bank.id)).rejects.toThrow(/Confirm the two micro-deposits/);
+
+    // Either order is accepted; a wrong guess uses up an attempt
+    const wrong = first === 99 ? 0.98 : Money.toDollars(first + 1);
+    await expect(
+      caller.fundingSource.verify({ fundingSourceId: bank.id, amounts: [wrong, Money.toDollars(second)] })
+    ).rejects.toThrow(/2 attempts remaining/);
+    const verified = await caller.fundingSource.verify({
+      fundingSourceId: bank.id,
+      amounts: [Money.toDollars(second), Money.toDollars(first)],
+    });
+    expect(verified).toMatchObject({ verificationStatus: "verified", verificationAttemptsRemaining: 1 });
+    expect((await fundFrom(bank.id)).transaction.status).toBe("pending");
+
+    // Three wrong guesses fail the link for good
+    const other = await caller.fundingSource.add({ type: "bank", accountNumber: "123450003", routingNumber: "021000021" });
+    const [a, b] = expected(other.id);
+    const miss: [number, number] = [Money.toDollars(a === 1 ? 2 : a - 1), Money.toDollars(b)];
+    await expect(caller.fundingSource.verify({ fundingSourceId: other.id, amounts: miss })).rejects.toThrow(/2 attempts/);
+    await expect(caller.fundingSource.verify({ fundingSourceId: other.id, amounts: miss })).rejects.toThrow(/1 attempt remaining/);
+    await expect(caller.fundingSource.verify({ fundingSourceId: other.id, amounts: miss })).rejects.toThrow(
+      /could not be verified/
+    );
+    await expect(
+      caller.fundingSource.verify({ fundingSourceId: other.id, amounts: [Money.toDollars(a), Money.toDollars(b)] })
+    ).rejects.toThrow(/not awaiting verification/);
+    await expect(fundFrom(other.id)).rejects.toThrow(/could not be verified/);
+    expect((await caller.fundingSource.list()).find((source) => source.id === other.id)).toMatchObject({
+      verificationStatus: "failed",
+      verificationAttemptsRemaining: 0,
+    });
+  });
+
+  test("TC-FND-2005: Bank links need a checksum-valid routing number from the directory", async () => {
+    await expect(
+      caller.fundingSource.add({ type: "bank", accountNumber: "987654321", routingNumber: "021000022" })
+    ).rejects.toThrow(/Invalid routing number/);
+    await expect(
+      caller.fundingSource.add({ type: "bank", accountNumber: "987654321", routingNumber: "011000028" })
+    ).rejects.toThrow(/don't recognize this routing number/);
+
+    const bank = await caller.fundingSource.add({ type: "bank", accountNumber: "987654321", routingNumber: "121000248" });
+    expect(bank.nickname).toBe("Wells Fargo Bank ****4321");
+
+    expect(await caller.fundingSource.lookupRoutingNumber({ routingNumber: "021000021" })).toEqual({
+      valid: true,
+      error: null,
+      bank: { name: "JPMorgan Chase Bank", city: "New York", state: "NY" },
+    });
+    expect(await caller.fundingSource.lookupRoutingNumber({ routingNumber: "0210" })).toMatchObject({ valid: false });
+    await expect(
+      caller.schedule.create({
+        kind: "deposit",
+        toAccountId: accountId,
+        amount: 10,
+        frequency: "once",
+        startAt: new Date(Date.now() + 60_000).toISOString(),
+        fundingSourceId: bank.id,
+      })
+    ).rejects.toThrow(/Confirm the two micro-deposits/);
+  });
+
+  test("TC-FND-2006: The customer links a bank from the micro-deposits the processor mails them", async () => {
+    const outboxDir = fs.mkdtempSync(path.join(os.tmpdir(), "outbox-"));
+    setMailTransport(createOutboxTransport(outboxDir));
+
+    const bank = await caller.fundingSource.add({ type: "bank", accountNumber: "987654321", routingNumber: "021000021" });
+
+    const [notice] = readOutbox(outboxDir, "sources@example.com");
+    expect(notice.subject).toBe("Micro-deposits sent to your bank account");
+    expect(notice.text).toMatch(/to your bank account ending 4321/);
+    const amounts = [...notice.text.matchAll(/\$(0\.\d\d)/g)].map((match) => Number(match[1]));
+    expect(amounts).toHaveLength(2);
+
+    await caller.fundingSource.verify({ fundingSourceId: bank.id, amounts: [amounts[0], amounts[1]] });
+    const { transaction } = await caller.account.fundAccount({ accountId, amount: 40, fundingSourceId: bank.id });
+    expect(transaction).toMatchObject({ status: "pending", fundingSourceType: "bank" });
+  });
+
+  test("TC-FND-2007: The same account number at two banks is two different bank accounts", async () => {
+    const chase = await caller.fundingSource.add({ type: "bank", accountNumber: "987654321", routingNumber: "021000021" });
+    const wells = await caller.fundingSource.add({ type: "bank", accountNumber: "987654321", routingNumber: "121000248" });
+
+    const [first, second] = [chase, wells].map(
+      (source) => db.select().from(fundingSources).where(eq(fundingSources.id, source.id)).get()!.fingerprint
+    );
+    expect(first).not.toBe(second);
+    await expect(
+      caller.fundingSource.add({ type: "bank", accountNumber: "987654321", routingNumber: "121000248" })
+    ).rejects.toThrow(/already saved as "Wells Fargo Bank \*\*\*\*4321"/);
+  });
+});
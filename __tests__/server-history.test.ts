@@ -0,0 +1,117 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { transactions } from "@/lib/db/schema";
+import { resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Transaction History Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+  let accountId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  // History rows only; the ledger is not involved in reading history
+  const insertTransaction = (values: Partial<typeof transactions.$inferInsert>) =>
+    db
+      .insert(transactions)
+      .values({ accountId, type: "deposit", amountCents: 1000, status: "completed", ...values })
+      .returning()
+      .get();
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const result = await createCaller().auth.signup({
+      email: "history@example.com",
+      password: "Password1!",
+      firstName: "History",
+      lastName: "User",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    caller = createCaller(result.user);
+    accountId = (await caller.account.createAccount({ accountType: "checking" })).id;
+  });
+
+  test("TC-HIS-1501: Filters by date range, type, status, amount and description", async () => {
+    insertTransaction({ createdAt: "2028-03-01 09:00:00", amountCents: 5000, description: "Payroll 100%" });
+    insertTransaction({ createdAt: "2028-03-15 23:59:59", type: "withdrawal", amountCents: 2500, description: "ATM" });
+    insertTransaction({ createdAt: "2028-03-16 00:00:00", amountCents: 1999, status: "pending", description: "Payroll" });
+    insertTransaction({ createdAt: "2028-02-28 12:00:00", amountCents: 7500, description: "Refund" });
+
+    const march = await caller.account.getTransactions({ accountId, fromDate: "2028-03-01", toDate: "2028-03-15" });
+    expect(march.items.map((t) => t.description)).toEqual(["ATM", "Payroll 100%"]);
+
+    const deposits = await caller.account.getTransactions({ accountId, types: ["deposit"], statuses: ["completed"] });
+    expect(deposits.items.map((t) => t.description)).toEqual(["Payroll 100%", "Refund"]);
+
+    const midSized = await caller.account.getTransactions({ accountId, minAmount: 19.99, maxAmount: 50 });
+    expect(midSized.items.map((t) => t.amountCents)).toEqual([1999, 2500, 5000]);
+
+    // LIKE wildcards in the search text are matched literally
+    const search = await caller.account.getTransactions({ accountId, search: "100%" });
+    expect(search.items.map((t) => t.description)).toEqual(["Payroll 100%"]);
+  });
+
+  test("TC-HIS-1502: Cursor pages neither skip nor repeat rows with identical timestamps", async () => {
+    for (let i = 0; i < 7; i++) {
+      insertTransaction({ createdAt: "2028-03-01 09:00:00", description: `Deposit ${i}` });
+    }
+    insertTransaction({ createdAt: "2028-03-02 09:00:00", description: "Latest" });
+
+    const seen: number[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: Awaited<ReturnType<typeof caller.account.getTransactions>> = await caller.account.getTransactions({
+        accountId,
+        limit: 3,
+        cursor,
+      });
+      expect(page.items.length).toBeLessThanOrEqual(3);
+      seen.push(...page.items.map((t) => t.id));
+      cursor = page.nextCursor;
+
+      // A row added after the first page must not shift later pages
+      insertTransaction({ createdAt: "2028-03-03 09:00:00", description: "Arrived later" });
+    } while (cursor);
+
+    expect(seen).toHaveLength(8);
+    expect(new Set(seen).size).toBe(8);
+    expect(seen.slice(1)).toEqual([...seen.slice(1)].sort((a, b) => b - a));
+  });
+
+  test("TC-HIS-1503: Rejects malformed cursors and filters", async () => {
+    await expect(caller.account.getTransactions({ accountId, cursor: "not-a-cursor" })).rejects.toThrow(
+      /Invalid cursor/
+    );
+    await expect(caller.account.getTransactions({ accountId, fromDate: "03/01/2028" })).rejects.toThrow(
+      /YYYY-MM-DD/
+    );
+    await expect(caller.account.getTransactions({ accountId, minAmount: 1.005 })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,182 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { accounts, idempotencyKeys, transactions } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { getSettlementProcessor } from "@/server/services/settlement";
+import { reserveIdempotencyKey } from "@/server/services/idempotency";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Idempotency Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+  let accountId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const card = { type: "card" as const, accountNumber: "4111111111111111" };
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const { user } = await createCaller().auth.signup({
+      email: "retry@example.com",
+      password: "Password1!",
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    caller = createCaller(markEmailVerified(user));
+    accountId = (await caller.account.createAccount({ accountType: "checking" })).id;
+  });
+
+  test("TC-IDM-901: Replaying a deposit returns the original result without posting twice", async () => {
+    const request = { accountId, amount: 25, fundingSource: card, idempotencyKey: "key-fund-0001" };
+
+    const first = await caller.account.fundAccount(request);
+    const replay = await caller.account.fundAccount(request);
+
+    expect(replay).toEqual(first);
+    const rows = await db.select().from(transactions).where(eq(transactions.accountId, accountId));
+    expect(rows).toHaveLength(1);
+    const account = await db.select().from(accounts).where(eq(accounts.id, accountId)).get();
+    expect(account!.balanceCents).toBe(2500);
+  });
+
+  test("TC-IDM-902: Reusing a key with a different payload is rejected", async () => {
+    await caller.account.fundAccount({ accountId, amount: 25, fundingSource: card, idempotencyKey: "key-fund-0002" });
+
+    await expect(
+      caller.account.fundAccount({ accountId, amount: 26, fundingSource: card, idempotencyKey: "key-fund-0002" })
+    ).rejects.toThrow(/already used for a different request/);
+
+    const savings = await caller.account.createAccount({ accountType: "savings" });
+    await expect(
+      caller.account.transfer({ fromAccountId: accountId, toAccountId: savings.id, amount: 1, idempotencyKey: "key-fund-0002" })
+    ).rejects.toThrow(/already used for a different request/);
+  });
+
+  test("TC-IDM-903: A failed request does not consume its key", async () => {
+    const savings = await caller.account.createAccount({ accountType: "savings" });
+    const request = { fromAccountId: accountId, toAccountId: savings.id, amount: 10, idempotencyKey: "key-xfer-0003" };
+
+    await expect(caller.account.transfer(request)).rejects.toThrow(/Insufficient funds/);
+
+    await caller.account.fundAccount({ accountId, amount: 10, fundingSource: card });
+    const result = await caller.account.transfer(request);
+    expect(result.fromBalanceCents).toBe(0);
+  });
+
+  test("TC-IDM-904: Concurrent deposits with the same key charge the card once", async () => {
+    const authorize = jest.spyOn(getSettlementProcessor(), "authorizeCard");
+    const request = { accountId, amount: 25, fundingSource: card, idempotencyKey: "key-fund-0004" };
+
+    const [first, second] = await Promise.allSettled([
+      caller.account.fundAccount(request),
+      caller.account.fundAccount(request),
+    ]);
+
+    expect(first.status).toBe("fulfilled");
+    expect(second).toMatchObject({ status: "rejected", reason: { message: expect.stringMatching(/still being processed/) } });
+    expect(authorize).toHaveBeenCalledTimes(1);
+    authorize.mockRestore();
+
+    // Once the first has finished, the key replays its result
+    await expect(caller.account.fundAccount(request)).resolves.toEqual((first as PromiseFulfilledResult<unknown>).value);
+    const account = await db.select().from(accounts).where(eq(accounts.id, accountId)).get();
+    expect(account!.balanceCents).toBe(2500);
+  });
+
+  test("TC-IDM-905: A declined deposit frees its key for a retry", async () => {
+    const declined = { type: "card" as const, accountNumber: "4000000000000002" };
+
+    await expect(
+      caller.account.fundAccount({ accountId, amount: 25, fundingSource: declined, idempotencyKey: "key-fund-0005" })
+    ).rejects.toThrow(/declined/);
+    await expect(
+      caller.account.fundAccount({ accountId, amount: 25, fundingSource: declined, idempotencyKey: "key-fund-0005" })
+    ).rejects.toThrow(/declined/);
+  });
+
+  test("TC-IDM-906: A deposit the processor took is recorded even if the account froze meanwhile", async () => {
+    const capture = jest.spyOn(getSettlementProcessor(), "captureCard").mockImplementationOnce(async (authorizationId) => {
+      db.update(accounts).set({ status: "frozen" }).where(eq(accounts.id, accountId)).run();
+      return { captured: true, reference: authorizationId.replace("sim-auth-", "sim-cap-") };
+    });
+    const request = { accountId, amount: 25, fundingSource: card, idempotencyKey: "key-fund-0006" };
+
+    const result = await caller.account.fundAccount(request);
+    capture.mockRestore();
+
+    expect(result).toMatchObject({ transaction: { status: "settled" }, newBalanceCents: 2500 });
+    await expect(caller.account.fundAccount(request)).resolves.toEqual(result);
+  });
+
+  test("TC-IDM-907: A deposit that can't be recorded after capture closes its key instead of charging again", async () => {
+    const { user: other } = await createCaller().auth.signup({
+      email: "other@example.com",
+      password: "Password1!",
+      firstName: "Jane",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    // The account changes hands while the card is being captured, so it can no longer be found
+    const capture = jest.spyOn(getSettlementProcessor(), "captureCard").mockImplementationOnce(async (authorizationId) => {
+      db.update(accounts).set({ userId: other.id }).where(eq(accounts.id, accountId)).run();
+      return { captured: true, reference: authorizationId.replace("sim-auth-", "sim-cap-") };
+    });
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    const request = { accountId, amount: 25, fundingSource: card, idempotencyKey: "key-fund-0007" };
+
+    await expect(caller.account.fundAccount(request)).rejects.toThrow(/Account not found/);
+    capture.mockRestore();
+    consoleError.mockRestore();
+
+    const authorize = jest.spyOn(getSettlementProcessor(), "authorizeCard");
+    await expect(caller.account.fundAccount(request)).rejects.toThrow(/could not record it/);
+    expect(authorize).not.toHaveBeenCalled();
+    authorize.mockRestore();
+  });
+
+  test("TC-IDM-908: A reservation left by a crashed request expires", async () => {
+    const request = { accountId, amount: 25, fundingSource: card, idempotencyKey: "key-fund-0008" };
+    const userId = db.select().from(accounts).where(eq(accounts.id, accountId)).get()!.userId;
+    // As if a request had reserved the key and then the server died
+    reserveIdempotencyKey(db, { userId, key: request.idempotencyKey, scope: "account.fundAccount", payload: request });
+    await expect(caller.account.fundAccount(request)).rejects.toThrow(/still being processed/);
+
+    db.update(idempotencyKeys).set({ createdAt: new Date(Date.now() - 10 * 60 * 1000).toISOString() }).run();
+    await expect(caller.account.fundAccount(request)).resolves.toMatchObject({ newBalanceCents: 2500 });
+  });
+});
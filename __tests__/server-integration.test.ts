@@ -4,67 +4,19 @@ import { db } from "@/lib/db";
 import { users, accounts, transactions, sessions } from "@/lib/db/schema";
 import { eq, desc } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
 
 // Mock the database to use an in-memory SQLite instance
 jest.mock("@/lib/db", () => {
   const Database = require("better-sqlite3");
   const { drizzle } = require("drizzle-orm/better-sqlite3");
-  // We need to import schema dynamically inside the factory to avoid circular deps or module resolution issues
-  // But jest.mock is hoisted, so ensure paths are correct. 
-  // We can't use @/ aliases inside jest.mock factory easily without config, but try require.
-  // Actually, let's use a simpler approach: mock the module completely returning a fresh DB for each test file execution?
-  // No, better to initialize once and use excessive truncation.
-  
-  const sqlite = new Database(":memory:");
-  
-  // Initialize Schema (Copied from lib/db/index.ts)
-  sqlite.exec(`
-    CREATE TABLE IF NOT EXISTS users (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      email TEXT UNIQUE NOT NULL,
-      password TEXT NOT NULL,
-      first_name TEXT NOT NULL,
-      last_name TEXT NOT NULL,
-      phone_number TEXT NOT NULL,
-      date_of_birth TEXT NOT NULL,
-      ssn TEXT NOT NULL,
-      address TEXT NOT NULL,
-      city TEXT NOT NULL,
-      state TEXT NOT NULL,
-      zip_code TEXT NOT NULL,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    );
+  const { runMigrations } = require("@/lib/db/migrations");
 
-    CREATE TABLE IF NOT EXISTS accounts (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL REFERENCES users(id),
-      account_number TEXT UNIQUE NOT NULL,
-      account_type TEXT NOT NULL,
-      balance REAL DEFAULT 0 NOT NULL,
-      status TEXT DEFAULT 'pending',
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    );
+  const sqlite = new Database(":memory:");
 
-    CREATE TABLE IF NOT EXISTS transactions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      account_id INTEGER NOT NULL REFERENCES accounts(id),
-      type TEXT NOT NULL,
-      amount REAL NOT NULL,
-      description TEXT,
-      status TEXT DEFAULT 'pending' NOT NULL,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      processed_at TEXT
-    );
+  // Initialize Schema (same migrations lib/db/index.ts runs on boot)
+  runMigrations(sqlite);
 
-    CREATE TABLE IF NOT EXISTS sessions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL REFERENCES users(id),
-      token TEXT UNIQUE NOT NULL,
-      expires_at TEXT NOT NULL,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
-  
   const db = drizzle(sqlite);
   return {
     db,
@@ -76,8 +28,7 @@ jest.mock("@/lib/db", () => {
 describe("Server Integration Tests", () => {
   // Clear DB before each test
   beforeEach(() => {
-    const sqlite = (db as any).session.client; // fallback access to underlying better-sqlite3
-    sqlite.exec("DELETE FROM transactions; DELETE FROM sessions; DELETE FROM accounts; DELETE FROM users;");
+    resetDatabase();
   });
 
   const createCaller = (user: any = null) => {
@@ -236,7 +187,7 @@ describe("Server Integration Tests", () => {
             state: "CA",
             zipCode: "12345",
           } as any);
-          createdUser = user;
+          createdUser = markEmailVerified(user);
       });
 
       test("TC-VAL-205: Zero Funding", async () => {
@@ -277,10 +228,10 @@ describe("Server Integration Tests", () => {
               });
           }
 
-          // Check balance - should be exactly 21.00
+          // Check balance - should be exactly $21.00 (2100 cents)
           // Re-fetch account
           const [updatedAccount] = await caller.account.getAccounts();
-          expect(updatedAccount.balance).toBe(21.00);
+          expect(updatedAccount.balanceCents).toBe(2100);
       });
 
       test("TC-VAL-206: Card Validation (Luhn)", async () => {
@@ -307,7 +258,7 @@ describe("Server Integration Tests", () => {
                 amount: 50,
                 fundingSource: { type: "card", accountNumber: "4111111111111111" }
             });
-            expect(res1.transaction!.amount).toBe(50);
+            expect(res1.transaction!.amountCents).toBe(5000);
 
             // Fund 2
             const res2 = await caller.account.fundAccount({
@@ -317,7 +268,7 @@ describe("Server Integration Tests", () => {
             });
             
             // Should return the NEW transaction (20), not the old one (50)
-            expect(res2.transaction!.amount).toBe(20);
+            expect(res2.transaction!.amountCents).toBe(2000);
             expect(res2.transaction!.id).not.toBe(res1.transaction!.id);
       });
   });
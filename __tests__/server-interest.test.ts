@@ -0,0 +1,149 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { accounts, interestAccruals, transactions } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  accrueInterest,
+  creditMonthlyInterest,
+  dailyInterestMicroCents,
+  getApyBps,
+} from "@/server/services/interest";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Interest Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+  let savingsId: number;
+  let checkingId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const sqlite = () => (db as any).session.client;
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const { user } = await createCaller().auth.signup({
+      email: "interest@example.com",
+      password: "Password1!",
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    caller = createCaller(markEmailVerified(user));
+    checkingId = (await caller.account.createAccount({ accountType: "checking" })).id;
+    savingsId = (await caller.account.createAccount({ accountType: "savings" })).id;
+
+    for (const accountId of [checkingId, savingsId]) {
+      await caller.account.fundAccount({
+        accountId,
+        amount: 10000,
+        fundingSource: { type: "card", accountNumber: "4111111111111111" },
+      });
+    }
+  });
+
+  test("TC-INT-1301: APY tiers and leap-year daily rates", () => {
+    expect(getApyBps(0)).toBe(150);
+    expect(getApyBps(999_999)).toBe(150);
+    expect(getApyBps(1_000_000)).toBe(300);
+    expect(getApyBps(50_000_000)).toBe(400);
+
+    const leapDay = dailyInterestMicroCents(1_000_000, 300, "2028-02-29");
+    const regularDay = dailyInterestMicroCents(1_000_000, 300, "2027-02-28");
+    expect(leapDay).toBe(Math.round(1_000_000 * (Math.pow(1.03, 1 / 366) - 1) * 1_000_000));
+    expect(regularDay).toBe(Math.round(1_000_000 * (Math.pow(1.03, 1 / 365) - 1) * 1_000_000));
+    expect(leapDay).toBeLessThan(regularDay);
+    expect(dailyInterestMicroCents(0, 300, "2028-02-29")).toBe(0);
+  });
+
+  test("TC-INT-1302: Accounts opened mid-month accrue from their opening day and are credited monthly", async () => {
+    // Backdate the savings account and its funding to Feb 20, 2028
+    sqlite().exec(`UPDATE accounts SET created_at = '2028-02-20 10:00:00' WHERE id = ${savingsId}`);
+    sqlite().exec(
+      `UPDATE journal_entries SET created_at = '2028-02-20 12:00:00' WHERE id IN (SELECT journal_entry_id FROM ledger_postings WHERE account_id = ${savingsId})`
+    );
+
+    const now = new Date("2028-03-05T06:00:00.000Z");
+    expect(accrueInterest(now)).toBe(14); // Feb 20-29 and Mar 1-4
+    expect(accrueInterest(now)).toBe(0);
+
+    expect(creditMonthlyInterest(now)).toBe(1);
+
+    const expectedCents = Math.round((10 * dailyInterestMicroCents(1_000_000, 300, "2028-02-20")) / 1_000_000);
+    const [interest] = await db.select().from(transactions).where(eq(transactions.type, "interest"));
+    expect(interest.accountId).toBe(savingsId);
+    expect(interest.amountCents).toBe(expectedCents);
+    expect(interest.description).toBe("Interest for February 2028");
+
+    const stored = await db.select().from(accounts).where(eq(accounts.id, savingsId)).get();
+    expect(stored!.balanceCents).toBe(1_000_000 + expectedCents);
+
+    const february = await db.select().from(interestAccruals).where(eq(interestAccruals.creditedAt, now.toISOString()));
+    expect(february).toHaveLength(10);
+    expect(creditMonthlyInterest(now)).toBe(0);
+  });
+
+  test("TC-INT-1303: Only savings accounts accrue and the dashboard shows interest to date", async () => {
+    accrueInterest(new Date(Date.now() + 3 * 24 * 60 * 60 * 1000));
+
+    const checkingAccruals = await db.select().from(interestAccruals).where(eq(interestAccruals.accountId, checkingId));
+    expect(checkingAccruals).toHaveLength(0);
+
+    const userAccounts = await caller.account.getAccounts();
+    const savings = userAccounts.find((account) => account.id === savingsId)!;
+    const checking = userAccounts.find((account) => account.id === checkingId)!;
+
+    expect(savings.apyBps).toBe(300);
+    expect(savings.accruedInterestCents).toBe(
+      Math.round((3 * dailyInterestMicroCents(1_000_000, 300, new Date().toISOString().slice(0, 10))) / 1_000_000)
+    );
+    expect(checking.apyBps).toBeNull();
+    expect(checking.accruedInterestCents).toBeNull();
+  });
+
+  test("TC-INT-1304: SAVINGS_APY_TIERS replaces the tiers and is validated", () => {
+    const loadTiers = (raw: string) => {
+      process.env.SAVINGS_APY_TIERS = raw;
+      try {
+        let tiers: unknown;
+        jest.isolateModules(() => {
+          tiers = require("@/server/services/interest").SAVINGS_APY_TIERS;
+        });
+        return tiers;
+      } finally {
+        delete process.env.SAVINGS_APY_TIERS;
+      }
+    };
+
+    expect(loadTiers('[{"minBalanceCents":0,"apyBps":200}]')).toEqual([{ minBalanceCents: 0, apyBps: 200 }]);
+    expect(() => loadTiers('[{"minBalance":0,"apyBps":200}]')).toThrow(/SAVINGS_APY_TIERS is invalid: 0/);
+    expect(() => loadTiers("[]")).toThrow(/SAVINGS_APY_TIERS is invalid/);
+  });
+});
@@ -0,0 +1,116 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { accounts, ledgerPostings, transactions } from "@/lib/db/schema";
+import { eq, sql } from "drizzle-orm";
+import { getLedgerBalance, postJournalEntry } from "@/server/services/ledger";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Ledger Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const { user } = await createCaller().auth.signup({
+      email: "ledger@example.com",
+      password: "Password1!",
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    caller = createCaller(markEmailVerified(user));
+  });
+
+  test("TC-LED-801: Every movement writes balanced postings that match cached balances", async () => {
+    const checking = await caller.account.createAccount({ accountType: "checking" });
+    const savings = await caller.account.createAccount({ accountType: "savings" });
+
+    await caller.account.fundAccount({
+      accountId: checking.id,
+      amount: 120,
+      fundingSource: { type: "card", accountNumber: "4111111111111111" },
+    });
+    await caller.account.transfer({ fromAccountId: checking.id, toAccountId: savings.id, amount: 20 });
+
+    const totals = await db
+      .select({
+        debits: sql<number>`sum(case when ${ledgerPostings.direction} = 'debit' then ${ledgerPostings.amountCents} else 0 end)`,
+        credits: sql<number>`sum(case when ${ledgerPostings.direction} = 'credit' then ${ledgerPostings.amountCents} else 0 end)`,
+      })
+      .from(ledgerPostings)
+      .get();
+    expect(totals!.debits).toBe(totals!.credits);
+
+    for (const account of await caller.account.getAccounts()) {
+      expect(getLedgerBalance(db, account.id)).toBe(account.balanceCents);
+    }
+    expect(getLedgerBalance(db, checking.id)).toBe(10000);
+    expect(getLedgerBalance(db, savings.id)).toBe(2000);
+  });
+
+  test("TC-LED-802: Unbalanced entries are rejected", () => {
+    expect(() =>
+      db.transaction((tx) =>
+        postJournalEntry(tx, {
+          description: "Broken",
+          postings: [
+            { internalAccount: "card_clearing", direction: "debit", amountCents: 100 },
+            { internalAccount: "ach_clearing", direction: "credit", amountCents: 99 },
+          ],
+        })
+      )
+    ).toThrow(/Unbalanced journal entry/);
+  });
+
+  test("TC-LED-803: A drifted cached balance blocks further movements and rolls back", async () => {
+    const checking = await caller.account.createAccount({ accountType: "checking" });
+    await caller.account.fundAccount({
+      accountId: checking.id,
+      amount: 50,
+      fundingSource: { type: "card", accountNumber: "4111111111111111" },
+    });
+
+    // Simulate the PERF-406 style drift where balance is overwritten out of band
+    await db.update(accounts).set({ balanceCents: 5001 }).where(eq(accounts.id, checking.id));
+
+    await expect(
+      caller.account.fundAccount({
+        accountId: checking.id,
+        amount: 10,
+        fundingSource: { type: "card", accountNumber: "4111111111111111" },
+      })
+    ).rejects.toThrow(/drifted from the ledger/);
+
+    const rows = await db.select().from(transactions).where(eq(transactions.accountId, checking.id));
+    expect(rows).toHaveLength(1);
+  });
+});
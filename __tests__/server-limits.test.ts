@@ -0,0 +1,173 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { fundingSources, transactions } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { Money } from "@/lib/money";
+import { assertWithinFundingLimits } from "@/server/services/limits";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Funding Limit Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+  let userId: number;
+  let accountId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const signup = async (email: string) => {
+    const result = await createCaller().auth.signup({
+      email,
+      password: "Password1!",
+      firstName: "Limit",
+      lastName: "User",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    return markEmailVerified(result.user);
+  };
+
+  const fundByCard = (amount: number, id = accountId, as = caller) =>
+    as.account.fundAccount({
+      accountId: id,
+      amount,
+      fundingSource: { type: "card", accountNumber: "4111111111111111" },
+    });
+
+  // "YYYY-MM-DD HH:MM:SS" some time ago, like CURRENT_TIMESTAMP
+  const hoursAgo = (hours: number) =>
+    new Date(Date.now() - hours * 60 * 60 * 1000).toISOString().slice(0, 19).replace("T", " ");
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const user = await signup("limits@example.com");
+    userId = user.id;
+    caller = createCaller(user);
+    accountId = (await caller.account.createAccount({ accountType: "checking" })).id;
+  });
+
+  test("TC-LIM-1801: Repeated card deposits stop at the daily limit with the remaining allowance", async () => {
+    await fundByCard(10000);
+    await fundByCard(6000);
+
+    await expect(fundByCard(5000)).rejects.toThrow(
+      "This deposit would exceed your daily card funding limit of $20,000.00. You can add up to $4,000.00 more by card in the current 24 hours."
+    );
+    await fundByCard(4000);
+    await expect(fundByCard(0.01)).rejects.toThrow(/up to \$0\.00 more/);
+
+    // Bank deposits and other customers have their own allowances
+    const bank = await caller.fundingSource.add({ type: "bank", accountNumber: "123456789", routingNumber: "021000021" });
+    const sent = db.select().from(fundingSources).where(eq(fundingSources.id, bank.id)).get()!;
+    await caller.fundingSource.verify({
+      fundingSourceId: bank.id,
+      amounts: [Money.toDollars(sent.microDeposit1Cents!), Money.toDollars(sent.microDeposit2Cents!)],
+    });
+    await caller.account.fundAccount({ accountId, amount: 10000, fundingSourceId: bank.id });
+    const other = createCaller(await signup("other@example.com"));
+    const otherAccountId = (await other.account.createAccount({ accountType: "checking" })).id;
+    await expect(fundByCard(10000, otherAccountId, other)).resolves.toBeDefined();
+  });
+
+  test("TC-LIM-1802: Usage counts deposits in each rolling window but not failed ones", async () => {
+    await fundByCard(2500);
+    db.insert(transactions)
+      .values([
+        { accountId, type: "deposit", amountCents: 300_000, status: "settled", fundingSourceType: "card", createdAt: hoursAgo(72) },
+        { accountId, type: "deposit", amountCents: 700_000, status: "settled", fundingSourceType: "card", createdAt: hoursAgo(24 * 20) },
+        { accountId, type: "deposit", amountCents: 900_000, status: "failed", fundingSourceType: "card", createdAt: hoursAgo(1) },
+        { accountId, type: "deposit", amountCents: 400_000, status: "returned", fundingSourceType: "bank", createdAt: hoursAgo(1) },
+      ])
+      .run();
+
+    const limits = await caller.account.getFundingLimits();
+
+    expect(limits.card).toEqual([
+      { window: "daily", limitCents: 2_000_000, usedCents: 250_000, remainingCents: 1_750_000 },
+      { window: "weekly", limitCents: 5_000_000, usedCents: 550_000, remainingCents: 4_450_000 },
+      { window: "monthly", limitCents: 10_000_000, usedCents: 1_250_000, remainingCents: 8_750_000 },
+    ]);
+    expect(limits.bank[0]).toMatchObject({ usedCents: 400_000, remainingCents: 4_600_000 });
+  });
+
+  test("TC-LIM-1803: The tightest exceeded window is reported", () => {
+    db.insert(transactions)
+      .values({ accountId, type: "deposit", amountCents: 90_000, status: "pending", fundingSourceType: "bank", createdAt: hoursAgo(48) })
+      .run();
+
+    const limits = {
+      card: { daily: 100_000, weekly: 100_000, monthly: 100_000 },
+      bank: { daily: 100_000, weekly: 100_000, monthly: 500_000 },
+    };
+
+    expect(() => assertWithinFundingLimits(db, userId, "bank", 20_000, new Date(), limits)).toThrow(
+      "This deposit would exceed your weekly bank account funding limit of $1,000.00. You can add up to $100.00 more by bank account in the current 7 days."
+    );
+    expect(() => assertWithinFundingLimits(db, userId, "bank", 10_000, new Date(), limits)).not.toThrow();
+  });
+
+  test("TC-LIM-1804: FUNDING_LIMITS can override a single window and is validated", () => {
+    const loadLimits = (raw: string) => {
+      process.env.FUNDING_LIMITS = raw;
+      try {
+        let limits: unknown;
+        jest.isolateModules(() => {
+          limits = require("@/server/services/limits").FUNDING_LIMITS;
+        });
+        return limits;
+      } finally {
+        delete process.env.FUNDING_LIMITS;
+      }
+    };
+
+    expect(loadLimits('{"card":{"daily":250000}}')).toEqual({
+      card: { daily: 250_000, weekly: 5_000_000, monthly: 10_000_000 },
+      bank: { daily: 5_000_000, weekly: 10_000_000, monthly: 25_000_000 },
+    });
+    expect(() => loadLimits('{"card":{"daily":-1}}')).toThrow(/FUNDING_LIMITS is invalid: card.daily/);
+    expect(() => loadLimits('{"cards":{"daily":100}}')).toThrow(/FUNDING_LIMITS is invalid/);
+  });
+
+  test("TC-LIM-1805: Concurrent deposits can't together exceed a limit", async () => {
+    const results = await Promise.allSettled([fundByCard(8000), fundByCard(8000), fundByCard(8000)]);
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(2);
+    expect(results.find((result) => result.status === "rejected")).toMatchObject({
+      reason: { message: expect.stringMatching(/daily card funding limit/) },
+    });
+    const limits = await caller.account.getFundingLimits();
+    expect(limits.card[0]).toMatchObject({ usedCents: 1_600_000, remainingCents: 400_000 });
+
+    // A declined card gives its share of the allowance back
+    await expect(
+      caller.account.fundAccount({ accountId, amount: 4000, fundingSource: { type: "card", accountNumber: "4000000000000002" } })
+    ).rejects.toThrow(/declined/);
+    await expect(fundByCard(4000)).resolves.toMatchObject({ transaction: { status: "settled" } });
+    expect(db.select().from(transactions).where(eq(transactions.accountId, accountId)).all()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,188 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { passwordResetTokens, sessions } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { setMailTransport } from "@/server/services/mail";
+import { createOutboxTransport, readOutbox } from "@/server/services/mail/outbox";
+import { resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Password Reset Tests", () => {
+  let outboxDir: string;
+  let userId: number;
+  let mailInFlight: Promise<void>[];
+
+  const createCaller = (user: any = null, ipAddress = "203.0.113.10", headers: Record<string, string> = {}) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { ...headers, cookie: "" }, socket: { remoteAddress: ipAddress } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  // Reset emails go out in the background; this waits until they have been written
+  const requestReset = async (address: string, ipAddress?: string) => {
+    const result = await createCaller(null, ipAddress).auth.requestPasswordReset({ email: address });
+    await Promise.allSettled(mailInFlight);
+    return result;
+  };
+
+  const sqlite = () => (db as any).session.client;
+  const email = "reset@example.com";
+
+  const resetEmails = (to?: string) =>
+    readOutbox(outboxDir, to).filter((message) => message.subject.startsWith("Reset"));
+
+  // Token from the link in the newest reset email sent to the address
+  const latestResetToken = (to = email) => {
+    const resets = resetEmails(to);
+    const match = resets[resets.length - 1]?.text.match(/reset-password\?token=([\w-]+)/);
+    return match?.[1];
+  };
+
+  beforeEach(async () => {
+    outboxDir = fs.mkdtempSync(path.join(os.tmpdir(), "outbox-"));
+    mailInFlight = [];
+    const outbox = createOutboxTransport(outboxDir);
+    setMailTransport({
+      send: (message) => {
+        const sent = outbox.send(message);
+        mailInFlight.push(sent);
+        return sent;
+      },
+    });
+    resetDatabase();
+
+    const { user } = await createCaller().auth.signup({
+      email,
+      password: "Password1!",
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    userId = user.id;
+  });
+
+  afterEach(() => {
+    fs.rmSync(outboxDir, { recursive: true, force: true });
+  });
+
+  test("TC-PWR-2401: Requesting a reset answers the same whether or not the email exists", async () => {
+    const known = await requestReset("Reset@Example.com");
+    const unknown = await requestReset("nobody@example.com");
+    expect(unknown).toEqual(known);
+
+    expect(resetEmails()).toHaveLength(1);
+    expect(readOutbox(outboxDir, "nobody@example.com")).toHaveLength(0);
+
+    // Only a hash of the emailed token is stored
+    const token = latestResetToken()!;
+    const stored = db.select().from(passwordResetTokens).where(eq(passwordResetTokens.userId, userId)).all();
+    expect(stored).toHaveLength(1);
+    expect(stored[0].tokenHash).not.toContain(token);
+
+    // A failing mail provider doesn't give the account away either
+    const send = jest.fn().mockRejectedValue(new Error("SMTP down"));
+    setMailTransport({ send });
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    await expect(createCaller().auth.requestPasswordReset({ email })).resolves.toEqual(known);
+    await Promise.allSettled(send.mock.results.map((result) => result.value));
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringMatching(/password reset email/), expect.any(Error));
+    errorSpy.mockRestore();
+  });
+
+  test("TC-PWR-2402: A reset link sets the new password once and signs every session out", async () => {
+    // Signed in on a second device, alongside the session from signup
+    await createCaller().auth.login({ email, password: "Password1!" });
+    expect(await db.select().from(sessions).where(eq(sessions.userId, userId))).toHaveLength(2);
+
+    await requestReset(email);
+    const token = latestResetToken()!;
+
+    await expect(createCaller().auth.resetPassword({ token, password: "weak" })).rejects.toThrow(/at least 8/);
+    await createCaller().auth.resetPassword({ token, password: "NewPassword2@" });
+
+    expect(await db.select().from(sessions).where(eq(sessions.userId, userId))).toHaveLength(0);
+    await expect(createCaller().auth.login({ email, password: "Password1!" })).rejects.toThrow(/Invalid credentials/);
+    await expect(createCaller().auth.login({ email, password: "NewPassword2@" })).resolves.toHaveProperty("token");
+    expect(readOutbox(outboxDir, email).map((message) => message.subject)).toContain(
+      "Your SecureBank password was changed"
+    );
+
+    await expect(createCaller().auth.resetPassword({ token, password: "Another3#pass" })).rejects.toThrow(
+      /invalid or has expired/
+    );
+  });
+
+  test("TC-PWR-2403: Expired, superseded and made-up tokens are refused", async () => {
+    await requestReset(email);
+    const first = latestResetToken()!;
+    await requestReset(email);
+    const second = latestResetToken()!;
+    expect(second).not.toBe(first);
+
+    await expect(createCaller().auth.resetPassword({ token: first, password: "NewPassword2@" })).rejects.toThrow(
+      /invalid or has expired/
+    );
+    await expect(createCaller().auth.resetPassword({ token: "made-up", password: "NewPassword2@" })).rejects.toThrow(
+      /invalid or has expired/
+    );
+
+    sqlite().exec("UPDATE password_reset_tokens SET expires_at = '2000-01-01T00:00:00.000Z'");
+    await expect(createCaller().auth.resetPassword({ token: second, password: "NewPassword2@" })).rejects.toThrow(
+      /invalid or has expired/
+    );
+    await expect(createCaller().auth.login({ email, password: "Password1!" })).resolves.toHaveProperty("token");
+  });
+
+  test("TC-PWR-2404: Reset requests are limited per email and per client, known or not", async () => {
+    for (let i = 0; i < 3; i++) {
+      await requestReset(email);
+      await requestReset("nobody@example.com");
+    }
+    // The same refusal for both, so the limit doesn't reveal which address has an account
+    await expect(requestReset(email)).rejects.toThrow(/Too many password reset requests/);
+    await expect(requestReset("nobody@example.com")).rejects.toThrow(/Too many password reset requests/);
+    expect(resetEmails()).toHaveLength(3);
+
+    // Another client gets its own allowance of addresses, but only up to its own limit
+    for (let i = 0; i < 10; i++) {
+      await requestReset(`guess${i}@example.com`, "198.51.100.7");
+    }
+    await expect(requestReset("guess10@example.com", "198.51.100.7")).rejects.toThrow(/Too many/);
+    // Claiming another address in X-Forwarded-For doesn't buy a new allowance
+    await expect(
+      createCaller(null, "198.51.100.7", { "x-forwarded-for": "192.0.2.44" }).auth.requestPasswordReset({
+        email: "guess11@example.com",
+      })
+    ).rejects.toThrow(/Too many/);
+
+    // Requests age out of the window
+    sqlite().exec("UPDATE password_reset_requests SET requested_at = '2000-01-01T00:00:00.000Z'");
+    await expect(requestReset(email)).resolves.toMatchObject({ success: true });
+    expect(resetEmails()).toHaveLength(4);
+  });
+});
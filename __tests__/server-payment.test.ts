@@ -0,0 +1,121 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { accounts, transactions } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Payment Tests", () => {
+  let sender: ReturnType<typeof createCaller>;
+  let recipient: ReturnType<typeof createCaller>;
+  let senderAccountId: number;
+  let recipientAccount: typeof accounts.$inferSelect;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const signup = async (email: string, firstName: string, lastName: string) => {
+    const result = await createCaller().auth.signup({
+      email,
+      password: "Password1!",
+      firstName,
+      lastName,
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    return createCaller(markEmailVerified(result.user));
+  };
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    sender = await signup("sender@example.com", "John", "Doe");
+    recipient = await signup("recipient@example.com", "Jane", "Smith");
+
+    senderAccountId = (await sender.account.createAccount({ accountType: "checking" })).id;
+    await sender.account.fundAccount({
+      accountId: senderAccountId,
+      amount: 100,
+      fundingSource: { type: "card", accountNumber: "4111111111111111" },
+    });
+
+    await recipient.account.createAccount({ accountType: "savings" });
+    recipientAccount = await recipient.account.createAccount({ accountType: "checking" });
+  });
+
+  test("TC-PAY-1101: Recipient lookup returns only a masked name", async () => {
+    const byEmail = await sender.account.findRecipient({ recipient: "Recipient@example.com" });
+    expect(byEmail).toEqual({
+      maskedName: "J*** S.",
+      maskedAccountNumber: `****${recipientAccount.accountNumber.slice(-4)}`,
+    });
+
+    const byNumber = await sender.account.findRecipient({ recipient: recipientAccount.accountNumber });
+    expect(byNumber.maskedName).toBe("J*** S.");
+
+    await expect(sender.account.findRecipient({ recipient: "nobody@example.com" })).rejects.toThrow(
+      /No SecureBank customer/
+    );
+  });
+
+  test("TC-PAY-1102: Payment posts to both customers with labeled transactions", async () => {
+    const result = await sender.account.sendPayment({
+      fromAccountId: senderAccountId,
+      recipient: "recipient@example.com",
+      amount: 30.5,
+    });
+
+    expect(result.newBalanceCents).toBe(6950);
+    expect(result.transaction.type).toBe("payment_sent");
+    expect(result.transaction.description).toBe("Payment to J*** S.");
+
+    const received = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.accountId, recipientAccount.id))
+      .get();
+    expect(received!.type).toBe("payment_received");
+    expect(received!.description).toBe("Payment from J*** D.");
+    expect(received!.linkedTransactionId).toBe(result.transaction.id);
+
+    const stored = await db.select().from(accounts).where(eq(accounts.id, recipientAccount.id)).get();
+    expect(stored!.balanceCents).toBe(3050);
+  });
+
+  test("TC-PAY-1103: Overdrafts and payments to yourself are rejected", async () => {
+    await expect(
+      sender.account.sendPayment({ fromAccountId: senderAccountId, recipient: "recipient@example.com", amount: 100.01 })
+    ).rejects.toThrow(/Insufficient funds/);
+
+    await expect(
+      sender.account.sendPayment({ fromAccountId: senderAccountId, recipient: "sender@example.com", amount: 5 })
+    ).rejects.toThrow(/Use Transfer/);
+
+    const stored = await db.select().from(accounts).where(eq(accounts.id, recipientAccount.id)).get();
+    expect(stored!.balanceCents).toBe(0);
+  });
+});
@@ -0,0 +1,117 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { accounts, balanceDiscrepancies, journalEntries } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { reconcileBalances, repairDiscrepancy } from "@/server/services/reconciliation";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Reconciliation Tests", () => {
+  let checkingId: number;
+  let savingsId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const sqlite = () => (db as any).session.client;
+  const balanceOf = (accountId: number) =>
+    db.select().from(accounts).where(eq(accounts.id, accountId)).get()!.balanceCents;
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const result = await createCaller().auth.signup({
+      email: "reconcile@example.com",
+      password: "Password1!",
+      firstName: "Recon",
+      lastName: "User",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    const caller = createCaller(markEmailVerified(result.user));
+
+    checkingId = (await caller.account.createAccount({ accountType: "checking" })).id;
+    savingsId = (await caller.account.createAccount({ accountType: "savings" })).id;
+    await caller.account.fundAccount({
+      accountId: checkingId,
+      amount: 100,
+      fundingSource: { type: "card", accountNumber: "4111111111111111" },
+    });
+    await caller.account.transfer({ fromAccountId: checkingId, toAccountId: savingsId, amount: 30 });
+  });
+
+  test("TC-REC-1701: Balances that match their transactions report no discrepancies", () => {
+    const result = reconcileBalances();
+
+    expect(result.accountsChecked).toBe(2);
+    expect(result.discrepancies).toEqual([]);
+  });
+
+  test("TC-REC-1702: A drifted cached balance is recorded once and repaired from the ledger", () => {
+    sqlite().prepare("UPDATE accounts SET balance_cents = balance_cents + 500 WHERE id = ?").run(checkingId);
+
+    reconcileBalances(new Date("2028-03-01T00:00:00.000Z"));
+    const { discrepancies } = reconcileBalances(new Date("2028-03-01T01:00:00.000Z"));
+
+    expect(discrepancies).toHaveLength(1);
+    expect(discrepancies[0]).toMatchObject({
+      accountId: checkingId,
+      balanceCents: 7500,
+      ledgerBalanceCents: 7000,
+      expectedBalanceCents: 7000,
+      differenceCents: 500,
+      detectedAt: "2028-03-01T00:00:00.000Z",
+      lastCheckedAt: "2028-03-01T01:00:00.000Z",
+    });
+
+    const repaired = repairDiscrepancy(discrepancies[0].id, "Jane Auditor");
+    expect(repaired).toMatchObject({ status: "repaired", approvedBy: "Jane Auditor", journalEntryId: null });
+    expect(balanceOf(checkingId)).toBe(7000);
+    expect(reconcileBalances().discrepancies).toEqual([]);
+    expect(db.select().from(balanceDiscrepancies).all()).toHaveLength(1);
+  });
+
+  test("TC-REC-1703: Repair posts an adjusting entry when the ledger disagrees with transactions", () => {
+    // A deposit recorded for more than was ever posted
+    sqlite()
+      .prepare("UPDATE transactions SET amount_cents = amount_cents + 250 WHERE account_id = ? AND type = 'deposit'")
+      .run(checkingId);
+
+    const [discrepancy] = reconcileBalances().discrepancies;
+    expect(discrepancy).toMatchObject({ balanceCents: 7000, expectedBalanceCents: 7250, differenceCents: -250 });
+
+    expect(() => repairDiscrepancy(discrepancy.id, " ")).toThrow(/approved/);
+
+    const repaired = repairDiscrepancy(discrepancy.id, "Jane Auditor");
+    const entry = db.select().from(journalEntries).where(eq(journalEntries.id, repaired.journalEntryId!)).get();
+    expect(entry?.description).toBe("Reconciliation adjustment approved by Jane Auditor");
+    expect(balanceOf(checkingId)).toBe(7250);
+
+    expect(reconcileBalances().discrepancies).toEqual([]);
+    expect(() => repairDiscrepancy(discrepancy.id, "Jane Auditor")).toThrow(/not open/);
+  });
+});
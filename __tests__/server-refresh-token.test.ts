@@ -0,0 +1,179 @@
+/**
+ * @jest-environment node
+ */
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { refreshTokens, sessions } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { createContext } from "@/server/trpc";
+import { POST } from "@/app/api/trpc/[trpc]/route";
+import { resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Refresh Token Tests", () => {
+  const sqlite = () => (db as any).session.client;
+
+  // Calls a procedure as a browser holding these cookies; returns the cookies it set
+  const callWithCookies = (cookies: Record<string, string> = {}, headers: Record<string, string> = {}) => {
+    const res = { setHeader: jest.fn(), set: jest.fn() };
+    const cookie = Object.entries(cookies)
+      .map(([name, value]) => `${name}=${value}`)
+      .join("; ");
+    const caller = appRouter.createCaller({ user: null, req: { headers: { ...headers, cookie } } as any, res: res as any });
+    const setCookies = () =>
+      Object.fromEntries(
+        res.setHeader.mock.calls
+          .flatMap(([, value]) => [value].flat() as string[])
+          .map((header) => header.split(";")[0].split("=") as [string, string])
+      );
+    return { caller, setCookies };
+  };
+
+  const userFor = async (accessToken: string) =>
+    (await createContext({ req: { headers: { cookie: `session=${accessToken}` } }, res: {} } as any)).user;
+
+  const signIn = async (email = "refresh@example.com", headers: Record<string, string> = {}) => {
+    const { caller, setCookies } = callWithCookies({}, headers);
+    await caller.auth.signup({
+      email,
+      password: "Password1!",
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    return setCookies();
+  };
+
+  beforeEach(() => {
+    resetDatabase();
+  });
+
+  test("TC-RTR-2601: Refreshing rotates both tokens, and replaying an old refresh token revokes the session", async () => {
+    const first = await signIn();
+    expect(first.session).toBeTruthy();
+    expect(first.refresh_token).toBeTruthy();
+    expect(await userFor(first.session)).toMatchObject({ email: "refresh@example.com" });
+
+    const refresh = callWithCookies({ refresh_token: first.refresh_token });
+    const { token } = await refresh.caller.auth.refreshSession();
+    const second = refresh.setCookies();
+    expect(second.session).toBe(token);
+    expect(second.refresh_token).not.toBe(first.refresh_token);
+
+    // Same session, new access token; the old one stops working
+    expect(db.select().from(sessions).all()).toHaveLength(1);
+    expect(await userFor(first.session)).toBeNull();
+    expect(await userFor(second.session)).toMatchObject({ email: "refresh@example.com" });
+
+    // Another tab on the same device racing with the same token moments later gets the access
+    // token the winner was issued, and keeps the refresh cookie the winner set
+    const racing = callWithCookies({ refresh_token: first.refresh_token });
+    await expect(racing.caller.auth.refreshSession()).resolves.toMatchObject({ token: second.session });
+    expect(racing.setCookies()).toEqual({ session: second.session });
+    expect(await userFor(second.session)).not.toBeNull();
+
+    // Later, the same replay means the token leaked: the whole session goes
+    sqlite().exec("UPDATE refresh_tokens SET rotated_at = '2000-01-01T00:00:00.000Z' WHERE rotated_at IS NOT NULL");
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const replay = callWithCookies({ refresh_token: first.refresh_token });
+    await expect(replay.caller.auth.refreshSession()).rejects.toThrow(/sign in again/);
+    warnSpy.mockRestore();
+    expect(replay.setCookies()).toEqual({ session: "", refresh_token: "" });
+
+    expect(db.select().from(sessions).all()).toHaveLength(0);
+    expect(db.select().from(refreshTokens).all()).toHaveLength(0);
+    expect(await userFor(second.session)).toBeNull();
+    await expect(
+      callWithCookies({ refresh_token: second.refresh_token }).caller.auth.refreshSession()
+    ).rejects.toThrow(/sign in again/);
+  });
+
+  test("TC-RTR-2602: Idle and expired sessions can't be used or refreshed", async () => {
+    const idle = await signIn();
+    sqlite().exec(`UPDATE sessions SET last_seen_at = '${new Date(Date.now() - 31 * 60 * 1000).toISOString()}'`);
+    expect(await userFor(idle.session)).toBeNull();
+    await expect(
+      callWithCookies({ refresh_token: idle.refresh_token }).caller.auth.refreshSession()
+    ).rejects.toThrow(/sign in again/);
+    expect(db.select().from(sessions).all()).toHaveLength(0);
+
+    // Activity doesn't stretch a session past its absolute lifetime
+    const old = await signIn("expired@example.com");
+    sqlite().exec(`UPDATE sessions SET expires_at = '${new Date(Date.now() - 1000).toISOString()}'`);
+    expect(await userFor(old.session)).toBeNull();
+    await expect(
+      callWithCookies({ refresh_token: old.refresh_token }).caller.auth.refreshSession()
+    ).rejects.toThrow(/sign in again/);
+
+    await expect(callWithCookies().caller.auth.refreshSession()).rejects.toThrow(/sign in again/);
+  });
+
+  test("TC-RTR-2603: Logging out ends the session even after the access token lapses", async () => {
+    const cookies = await signIn();
+    const { caller } = callWithCookies({ refresh_token: cookies.refresh_token });
+
+    await expect(caller.auth.logout()).resolves.toMatchObject({ success: true });
+    expect(db.select().from(sessions).all()).toHaveLength(0);
+  });
+
+  test("TC-RTR-2604: The refresh endpoint sets both cookies over HTTP", async () => {
+    const cookies = await signIn();
+    const response = await POST(
+      new Request("http://localhost/api/trpc/auth.refreshSession", {
+        method: "POST",
+        // As sent by lib/trpc/refreshLink
+        headers: { cookie: `refresh_token=${cookies.refresh_token}`, "content-type": "application/json" },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    const setCookie = response.headers.getSetCookie();
+    expect(setCookie).toHaveLength(2);
+    expect(setCookie.find((header) => header.startsWith("session="))).toMatch(/HttpOnly/);
+    expect(setCookie.find((header) => header.startsWith("refresh_token="))).toMatch(/Path=\/api\/trpc/);
+  });
+
+  test("TC-RTR-2605: Reusing a just-rotated token is theft unless it is a race on the same device", async () => {
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const browser = { "user-agent": "Mozilla/5.0 (Macintosh)" };
+
+    // Someone else presenting the token right after the owner refreshed
+    const stolen = await signIn("stolen@example.com", browser);
+    await callWithCookies({ refresh_token: stolen.refresh_token }, browser).caller.auth.refreshSession();
+    const thief = callWithCookies({ refresh_token: stolen.refresh_token }, { "user-agent": "curl/8.0" });
+    await expect(thief.caller.auth.refreshSession()).rejects.toThrow(/sign in again/);
+    expect(thief.setCookies()).toEqual({ session: "", refresh_token: "" });
+    expect(db.select().from(sessions).all()).toHaveLength(0);
+
+    // The same device, but after the successor was itself used: not a race any more
+    const chained = await signIn("chained@example.com", browser);
+    const owner = callWithCookies({ refresh_token: chained.refresh_token }, browser);
+    await owner.caller.auth.refreshSession();
+    await callWithCookies({ refresh_token: owner.setCookies().refresh_token }, browser).caller.auth.refreshSession();
+    await expect(
+      callWithCookies({ refresh_token: chained.refresh_token }, browser).caller.auth.refreshSession()
+    ).rejects.toThrow(/sign in again/);
+    expect(db.select().from(sessions).all()).toHaveLength(0);
+    warnSpy.mockRestore();
+  });
+});
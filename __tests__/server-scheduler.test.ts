@@ -0,0 +1,281 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { accounts, fundingSources, scheduledTransferRuns, scheduledTransfers, transactions, users } from "@/lib/db/schema";
+import { Money } from "@/lib/money";
+import { eq } from "drizzle-orm";
+import { occurrenceAt, runDueScheduledTransfers } from "@/server/services/schedules";
+import { createScheduler } from "@/server/services/scheduler";
+import { getSettlementProcessor } from "@/server/services/settlement";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Scheduled Transfer Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+  let checkingId: number;
+  let savingsId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const balanceOf = async (id: number) =>
+    (await db.select().from(accounts).where(eq(accounts.id, id)).get())!.balanceCents;
+
+  // Links the bank account and confirms the micro-deposits the simulator sent
+  const linkVerifiedBank = async () => {
+    const { id } = await caller.fundingSource.add({
+      type: "bank",
+      accountNumber: "000123456789",
+      routingNumber: "021000021",
+    });
+    const sent = db.select().from(fundingSources).where(eq(fundingSources.id, id)).get()!;
+    await caller.fundingSource.verify({
+      fundingSourceId: id,
+      amounts: [Money.toDollars(sent.microDeposit1Cents!), Money.toDollars(sent.microDeposit2Cents!)],
+    });
+    return id;
+  };
+
+  const runsOf = (scheduleId: number) =>
+    db.select().from(scheduledTransferRuns).where(eq(scheduledTransferRuns.scheduledTransferId, scheduleId)).all();
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const { user } = await createCaller().auth.signup({
+      email: "schedule@example.com",
+      password: "Password1!",
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    caller = createCaller(markEmailVerified(user));
+    checkingId = (await caller.account.createAccount({ accountType: "checking" })).id;
+    savingsId = (await caller.account.createAccount({ accountType: "savings" })).id;
+    await caller.account.fundAccount({
+      accountId: checkingId,
+      amount: 250,
+      fundingSource: { type: "card", accountNumber: "4111111111111111" },
+    });
+  });
+
+  test("TC-SCH-1201: Monthly occurrences keep the start day and clamp in short months", () => {
+    const start = new Date("2028-01-31T09:00:00.000Z");
+
+    expect(occurrenceAt(start, "monthly", 1)!.toISOString()).toBe("2028-02-29T09:00:00.000Z");
+    expect(occurrenceAt(start, "monthly", 2)!.toISOString()).toBe("2028-03-31T09:00:00.000Z");
+    expect(occurrenceAt(start, "monthly", 12)!.toISOString()).toBe("2029-01-31T09:00:00.000Z");
+    expect(occurrenceAt(start, "weekly", 2)!.toISOString()).toBe("2028-02-14T09:00:00.000Z");
+    expect(occurrenceAt(start, "once", 1)).toBeNull();
+  });
+
+  test("TC-SCH-1202: Missed runs catch up in order after downtime", async () => {
+    const startAt = new Date();
+    const schedule = await caller.schedule.create({
+      kind: "transfer",
+      fromAccountId: checkingId,
+      toAccountId: savingsId,
+      amount: 100,
+      frequency: "weekly",
+      startAt: startAt.toISOString(),
+    });
+
+    // Three weeks of downtime: four occurrences are due, but only two can be afforded
+    const processed = await runDueScheduledTransfers(new Date(startAt.getTime() + 21 * DAY_MS + 1000));
+
+    expect(processed).toBe(4);
+    const runs = runsOf(schedule.id);
+    expect(runs.map((run) => [run.occurrence, run.status])).toEqual([
+      [0, "succeeded"],
+      [1, "succeeded"],
+      [2, "failed"],
+      [3, "failed"],
+    ]);
+    expect(runs[2].error).toMatch(/Insufficient funds/);
+    expect(await balanceOf(savingsId)).toBe(20000);
+    expect(await balanceOf(checkingId)).toBe(5000);
+
+    const stored = await db.select().from(scheduledTransfers).where(eq(scheduledTransfers.id, schedule.id)).get();
+    expect(stored!.runCount).toBe(4);
+    expect(stored!.nextRunAt).toBe(new Date(startAt.getTime() + 28 * DAY_MS).toISOString());
+
+    // A second sweep at the same time has nothing left to do
+    expect(await runDueScheduledTransfers(new Date(startAt.getTime() + 21 * DAY_MS + 1000))).toBe(0);
+  });
+
+  test("TC-SCH-1203: Paused schedules do not run and skip missed runs on resume", async () => {
+    const startAt = new Date();
+    const schedule = await caller.schedule.create({
+      kind: "transfer",
+      fromAccountId: checkingId,
+      toAccountId: savingsId,
+      amount: 10,
+      frequency: "weekly",
+      startAt: startAt.toISOString(),
+    });
+
+    await caller.schedule.pause({ scheduleId: schedule.id });
+    expect(await runDueScheduledTransfers(new Date(startAt.getTime() + DAY_MS))).toBe(0);
+
+    const { nextRunAt } = await caller.schedule.resume({ scheduleId: schedule.id });
+    expect(new Date(nextRunAt!).getTime()).toBe(startAt.getTime() + 7 * DAY_MS);
+
+    await caller.schedule.cancel({ scheduleId: schedule.id });
+    expect(await runDueScheduledTransfers(new Date(startAt.getTime() + 30 * DAY_MS))).toBe(0);
+    expect(await balanceOf(savingsId)).toBe(0);
+  });
+
+  test("TC-SCH-1204: One-time deposits pull from a verified bank and complete", async () => {
+    const unverified = await caller.fundingSource.add({ type: "bank", accountNumber: "555566667777", routingNumber: "021000021" });
+    const deposit = {
+      kind: "deposit" as const,
+      toAccountId: savingsId,
+      amount: 75,
+      frequency: "once" as const,
+      startAt: new Date().toISOString(),
+    };
+    await expect(caller.schedule.create({ ...deposit, fundingSourceId: unverified.id })).rejects.toThrow(
+      /Confirm the two micro-deposits/
+    );
+
+    const bankId = await linkVerifiedBank();
+    const schedule = await caller.schedule.create({ ...deposit, fundingSourceId: bankId });
+
+    const raw = await db.select().from(scheduledTransfers).where(eq(scheduledTransfers.id, schedule.id)).get();
+    expect(raw).toMatchObject({ fundingSourceId: bankId, fundingAccountLast4: "6789" });
+
+    await runDueScheduledTransfers(new Date(Date.now() + 1000));
+
+    const [run] = runsOf(schedule.id);
+    const pulled = await db.select().from(transactions).where(eq(transactions.id, run.transactionId!)).get();
+    expect(pulled!.status).toBe("pending");
+    expect(pulled!.description).toBe("Scheduled deposit from bank ****6789");
+
+    const [listed] = await caller.schedule.list();
+    expect(listed.status).toBe("completed");
+  });
+
+  test("TC-SCH-1205: Scheduler runs each job on its interval using the injected clock", async () => {
+    let now = new Date("2030-01-01T00:00:00.000Z");
+    const fast = jest.fn();
+    const slow = jest.fn().mockRejectedValue(new Error("boom"));
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const scheduler = createScheduler(
+      [
+        { name: "fast", intervalMs: 1000, run: fast },
+        { name: "slow", intervalMs: 5000, run: slow },
+      ],
+      { clock: { now: () => now } }
+    );
+
+    await scheduler.tick();
+    now = new Date(now.getTime() + 1000);
+    await scheduler.tick();
+    now = new Date(now.getTime() + 4000);
+    await scheduler.tick();
+
+    expect(fast).toHaveBeenCalledTimes(3);
+    expect(slow).toHaveBeenCalledTimes(2);
+    expect(fast).toHaveBeenLastCalledWith(now);
+    expect(consoleError).toHaveBeenCalledTimes(2);
+    consoleError.mockRestore();
+  });
+
+  test("TC-SCH-1206: A deposit occurrence is claimed before the debit goes out", async () => {
+    const schedule = await caller.schedule.create({
+      kind: "deposit",
+      toAccountId: savingsId,
+      amount: 75,
+      frequency: "weekly",
+      startAt: new Date().toISOString(),
+      fundingSourceId: await linkVerifiedBank(),
+    });
+    const processor = getSettlementProcessor();
+    const submit = jest.spyOn(processor, "submitAchDebit");
+
+    // Two workers racing for the same occurrence send one debit between them
+    const now = new Date(Date.now() + 1000);
+    await Promise.all([runDueScheduledTransfers(now), runDueScheduledTransfers(now)]);
+    expect(submit).toHaveBeenCalledTimes(1);
+    expect(runsOf(schedule.id).map((run) => run.status)).toEqual(["succeeded"]);
+
+    // The account is frozen while the debit is in flight, so the deposit can't be recorded
+    submit.mockImplementationOnce(async () => {
+      db.update(accounts).set({ status: "frozen" }).where(eq(accounts.id, savingsId)).run();
+      return { reference: "sim-ach-settle-0-traced" };
+    });
+    await runDueScheduledTransfers(new Date(now.getTime() + 7 * DAY_MS));
+    submit.mockRestore();
+
+    const failed = runsOf(schedule.id)[1];
+    expect(failed).toMatchObject({ status: "failed", processorReference: "sim-ach-settle-0-traced", transactionId: null });
+    expect(failed.error).toMatch(/frozen/);
+  });
+
+  test("TC-SCH-1207: Removing the bank account cancels its scheduled deposits", async () => {
+    const bankId = await linkVerifiedBank();
+    const schedule = await caller.schedule.create({
+      kind: "deposit",
+      toAccountId: savingsId,
+      amount: 20,
+      frequency: "weekly",
+      startAt: new Date(Date.now() + DAY_MS).toISOString(),
+      fundingSourceId: bankId,
+    });
+
+    await caller.fundingSource.delete({ fundingSourceId: bankId });
+
+    const raw = await db.select().from(scheduledTransfers).where(eq(scheduledTransfers.id, schedule.id)).get();
+    expect(raw).toMatchObject({ status: "cancelled", nextRunAt: null, fundingSourceId: null });
+    expect(await runDueScheduledTransfers(new Date(Date.now() + 30 * DAY_MS))).toBe(0);
+  });
+
+  test("TC-SCH-1208: Schedules of users with an unverified email are paused, not run", async () => {
+    const startAt = new Date(Date.now() - 1000);
+    const schedule = await caller.schedule.create({
+      kind: "transfer",
+      fromAccountId: checkingId,
+      toAccountId: savingsId,
+      amount: 10,
+      frequency: "weekly",
+      startAt: startAt.toISOString(),
+    });
+    // As for an account that predates email verification
+    const userId = db.select().from(scheduledTransfers).where(eq(scheduledTransfers.id, schedule.id)).get()!.userId;
+    db.update(users).set({ emailVerifiedAt: null }).where(eq(users.id, userId)).run();
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(await runDueScheduledTransfers(new Date())).toBe(0);
+    warn.mockRestore();
+    expect(runsOf(schedule.id)).toHaveLength(0);
+    expect(await balanceOf(savingsId)).toBe(0);
+    expect((await caller.schedule.list())[0].status).toBe("paused");
+  });
+});
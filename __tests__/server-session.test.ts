@@ -3,38 +3,18 @@ import { appRouter } from "@/server/routers";
 import { db } from "@/lib/db";
 import { users, accounts, transactions, sessions } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import { createContext } from "@/server/trpc";
+import { MAX_SESSIONS_PER_USER, getClientIp } from "@/server/services/sessions";
+import { resetDatabase } from "./helpers/db";
 
 jest.mock("@/lib/db", () => {
     const Database = require("better-sqlite3");
     const { drizzle } = require("drizzle-orm/better-sqlite3");
+    const { runMigrations } = require("@/lib/db/migrations");
     const sqlite = new Database(":memory:");
     
     // Initialize Schema
-    sqlite.exec(`
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        email TEXT UNIQUE NOT NULL,
-        password TEXT NOT NULL,
-        first_name TEXT NOT NULL,
-        last_name TEXT NOT NULL,
-        phone_number TEXT NOT NULL,
-        date_of_birth TEXT NOT NULL,
-        ssn TEXT NOT NULL,
-        address TEXT NOT NULL,
-        city TEXT NOT NULL,
-        state TEXT NOT NULL,
-        zip_code TEXT NOT NULL,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP
-      );
-  
-      CREATE TABLE IF NOT EXISTS sessions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL REFERENCES users(id),
-        token TEXT UNIQUE NOT NULL,
-        expires_at TEXT NOT NULL,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
+    runMigrations(sqlite);
     
     const db = drizzle(sqlite);
     return {
@@ -45,8 +25,7 @@ jest.mock("@/lib/db", () => {
   
   describe("Server Session Tests", () => {
     beforeEach(() => {
-      const sqlite = (db as any).session.client;
-      sqlite.exec("DELETE FROM sessions; DELETE FROM users;"); // Order matters
+      resetDatabase();
     });
   
     const createCaller = (user: any = null) => {
@@ -57,7 +36,39 @@ jest.mock("@/lib/db", () => {
       });
     };
   
-    test("TC-SEC-304: Session Invalidation", async () => {
+    const signup = (email = "session@example.com") =>
+      createCaller().auth.signup({
+        email,
+        password: "Password1!",
+        firstName: "John",
+        lastName: "Doe",
+        phoneNumber: "1234567890",
+        dateOfBirth: "1990-01-01",
+        ssn: "123456789",
+        address: "123 Main St",
+        city: "Anytown",
+        state: "CA",
+        zipCode: "12345",
+      });
+
+    // Signs in from a particular device and returns a caller that sends its session cookie
+    const loginFrom = async (userAgent: string, ip = "203.0.113.7") => {
+      const req = { headers: { cookie: "", "user-agent": userAgent }, socket: { remoteAddress: ip } };
+      const login = await appRouter
+        .createCaller({ user: null, req: req as any, res: { setHeader: jest.fn(), set: jest.fn() } as any })
+        .auth.login({ email: "session@example.com", password: "Password1!" });
+      if (login.twoFactorRequired) throw new Error("Two-factor authentication is not enabled for this user");
+
+      const user = db.select().from(users).where(eq(users.email, "session@example.com")).get();
+      const caller = appRouter.createCaller({
+        user,
+        req: { headers: { cookie: `session=${login.token}` } } as any,
+        res: { setHeader: jest.fn(), set: jest.fn() } as any,
+      });
+      return { token: login.token, caller };
+    };
+
+    test("TC-SEC-304: Signing in on another device keeps the first one signed in", async () => {
           const caller = createCaller();
           // Signup creates first session
           const { user: user1, token: token1 } = await caller.auth.signup({
@@ -80,17 +91,101 @@ jest.mock("@/lib/db", () => {
           expect(session1).toBeDefined();
   
           // Login again (simulate another device/browser)
-          const { token: token2 } = await caller.auth.login({
-              email: "session@example.com",
-              password: "Password1!",
-          });
+          const { token: token2, caller: secondDevice } = await loginFrom("Mozilla/5.0 (iPhone) Safari/604.1");
   
-          // Verify first session is GONE (invalidated)
+          // Both sessions are active
           session1 = await db.select().from(sessions).where(eq(sessions.token, token1)).get();
-          expect(session1).toBeUndefined();
-  
-          // Verify second session exists
-          const session2 = await db.select().from(sessions).where(eq(sessions.token, token2)).get();
+          expect(session1).toBeDefined();
+          let session2 = await db.select().from(sessions).where(eq(sessions.token, token2)).get();
           expect(session2).toBeDefined();
+
+          // Signing out ends only that device's session
+          await secondDevice.auth.logout();
+          session2 = await db.select().from(sessions).where(eq(sessions.token, token2)).get();
+          expect(session2).toBeUndefined();
+          session1 = await db.select().from(sessions).where(eq(sessions.token, token1)).get();
+          expect(session1).toBeDefined();
+          expect(user1.id).toBe(session1!.userId);
+    });
+
+    test("TC-SEC-305: Sessions record their device and can be revoked one at a time", async () => {
+          await signup();
+          const laptop = await loginFrom("Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) Chrome/126.0 Safari/537.36");
+          const phone = await loginFrom("Mozilla/5.0 (iPhone; CPU iPhone OS 17_0) Safari/604.1", "198.51.100.2");
+
+          const listed = await laptop.caller.security.listSessions();
+          expect(listed).toHaveLength(3);
+          expect(listed.find((session) => session.current)).toMatchObject({
+            userAgent: expect.stringContaining("Mac OS X"),
+            ipAddress: "203.0.113.7",
+          });
+          const phoneSession = listed.find((session) => session.ipAddress === "198.51.100.2")!;
+          expect(phoneSession.current).toBe(false);
+
+          // Requests keep lastSeenAt fresh
+          const sqlite = (db as any).session.client;
+          const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000).toISOString();
+          sqlite.prepare("UPDATE sessions SET last_seen_at = ?").run(twoMinutesAgo);
+          const ctx = await createContext({ req: { headers: { cookie: `session=${phone.token}` } }, res: {} } as any);
+          expect(ctx.user?.email).toBe("session@example.com");
+          const seen = db.select().from(sessions).where(eq(sessions.token, phone.token)).get()!;
+          expect(seen.lastSeenAt! > twoMinutesAgo).toBe(true);
+
+          // Another customer can't see or revoke them
+          const { user: stranger } = await signup("stranger@example.com");
+          await expect(
+            createCaller(stranger).security.revokeSession({ sessionId: phoneSession.id })
+          ).rejects.toThrow(/Session not found/);
+
+          await laptop.caller.security.revokeSession({ sessionId: phoneSession.id });
+          expect(db.select().from(sessions).where(eq(sessions.token, phone.token)).get()).toBeUndefined();
+          expect(await laptop.caller.security.listSessions()).toHaveLength(2);
+    });
+
+    test("TC-SEC-306: Signing out everywhere else keeps only the current device", async () => {
+          await signup();
+          await loginFrom("Firefox/128.0");
+          const current = await loginFrom("Chrome/126.0");
+
+          await expect(current.caller.security.revokeOtherSessions()).resolves.toEqual({ revoked: 2 });
+          const remaining = db.select().from(sessions).all();
+          expect(remaining.map((session) => session.token)).toEqual([current.token]);
+    });
+
+    test("TC-SEC-307: Signing in past the session limit evicts the oldest", async () => {
+          const { token: first } = await signup();
+          const tokens = [first];
+          for (let i = 1; i < MAX_SESSIONS_PER_USER; i++) {
+            tokens.push((await loginFrom(`Device ${i}`)).token);
+          }
+          expect(db.select().from(sessions).all()).toHaveLength(MAX_SESSIONS_PER_USER);
+
+          const newest = await loginFrom("One more device");
+          const remaining = db.select().from(sessions).all().map((session) => session.token);
+          expect(remaining).toHaveLength(MAX_SESSIONS_PER_USER);
+          expect(remaining).not.toContain(tokens[0]);
+          expect(remaining).toContain(tokens[1]);
+          expect(remaining).toContain(newest.token);
+    });
+
+    test("TC-SEC-308: X-Forwarded-For is only believed as far as trusted proxies wrote it", () => {
+          const request = (remoteAddress: string | undefined, forwardedFor?: string) => ({
+            headers: forwardedFor ? { "x-forwarded-for": forwardedFor } : {},
+            socket: { remoteAddress },
+          });
+          const proxies = new Set(["10.0.0.1", "10.0.0.2"]);
+
+          // No proxies configured: the header is the client's to forge
+          expect(getClientIp(request("203.0.113.7", "192.0.2.1"))).toBe("203.0.113.7");
+          expect(getClientIp(request("::ffff:203.0.113.7"))).toBe("203.0.113.7");
+          expect(getClientIp({ headers: { "x-forwarded-for": "192.0.2.1" } })).toBeNull();
+
+          // Behind our proxies, the right-most hop they didn't add is the client, whatever it prepended
+          expect(getClientIp(request("10.0.0.2", "192.0.2.1, 203.0.113.7, 10.0.0.1"), proxies)).toBe("203.0.113.7");
+          expect(getClientIp(request("::ffff:10.0.0.1", "203.0.113.7"), proxies)).toBe("203.0.113.7");
+          expect(getClientIp(request("10.0.0.1", "10.0.0.2"), proxies)).toBe("10.0.0.2");
+          expect(getClientIp(request("10.0.0.1"), proxies)).toBe("10.0.0.1");
+          // A connection that didn't come through them can't vouch for anyone
+          expect(getClientIp(request("198.51.100.9", "203.0.113.7"), proxies)).toBe("198.51.100.9");
     });
   });
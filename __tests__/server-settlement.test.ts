@@ -0,0 +1,142 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { accounts, fundingSources, transactions } from "@/lib/db/schema";
+import { Money } from "@/lib/money";
+import { eq } from "drizzle-orm";
+import { ACH_CLEARING_DELAY_MS, setSettlementProcessor, settleDueDeposits } from "@/server/services/settlement";
+import { createSimulatedProcessor } from "@/server/services/settlement/simulator";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Settlement Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+  let accountId: number;
+  let now: Date;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  // Links the bank account and confirms the micro-deposits the simulator sent before funding from it
+  const fundFromBank = async (accountNumber: string) => {
+    const { id } = await caller.fundingSource.add({ type: "bank", accountNumber, routingNumber: "021000021" });
+    const sent = db.select().from(fundingSources).where(eq(fundingSources.id, id)).get()!;
+    await caller.fundingSource.verify({
+      fundingSourceId: id,
+      amounts: [Money.toDollars(sent.microDeposit1Cents!), Money.toDollars(sent.microDeposit2Cents!)],
+    });
+
+    return caller.account.fundAccount({ accountId, amount: 40, fundingSourceId: id });
+  };
+
+  const balanceOf = async (id: number) =>
+    (await db.select().from(accounts).where(eq(accounts.id, id)).get())!.balanceCents;
+
+  const statusOf = async (id: number) => (await db.select().from(transactions).where(eq(transactions.id, id)).get())!;
+
+  const afterClearing = () => new Date(Date.now() + ACH_CLEARING_DELAY_MS + 1000);
+
+  beforeEach(async () => {
+    now = new Date();
+    setSettlementProcessor(createSimulatedProcessor({ now: () => now, returnAfterMs: 60 * 60 * 1000 }));
+
+    resetDatabase();
+
+    const { user } = await createCaller().auth.signup({
+      email: "settle@example.com",
+      password: "Password1!",
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    caller = createCaller(markEmailVerified(user));
+    accountId = (await caller.account.createAccount({ accountType: "checking" })).id;
+  });
+
+  test("TC-STL-1001: Card deposits authorize, capture and settle immediately", async () => {
+    const { transaction, newBalanceCents } = await caller.account.fundAccount({
+      accountId,
+      amount: 15,
+      fundingSource: { type: "card", accountNumber: "4111111111111111" },
+    });
+
+    expect(transaction.status).toBe("settled");
+    expect(transaction.processorReference).toMatch(/^sim-cap-/);
+    expect(newBalanceCents).toBe(1500);
+  });
+
+  test("TC-STL-1002: Declined cards are rejected without a transaction", async () => {
+    await expect(
+      caller.account.fundAccount({
+        accountId,
+        amount: 15,
+        fundingSource: { type: "card", accountNumber: "4000000000000002" },
+      })
+    ).rejects.toThrow(/Card was declined/);
+
+    expect(await db.select().from(transactions)).toHaveLength(0);
+  });
+
+  test("TC-STL-1003: Bank deposits stay pending until the clearing delay passes", async () => {
+    const { transaction } = await fundFromBank("000123456789");
+    expect(transaction.status).toBe("pending");
+    expect(await balanceOf(accountId)).toBe(0);
+
+    await settleDueDeposits(new Date());
+    expect((await statusOf(transaction.id)).status).toBe("pending");
+
+    await settleDueDeposits(afterClearing());
+    expect((await statusOf(transaction.id)).status).toBe("settled");
+    expect(await balanceOf(accountId)).toBe(4000);
+  });
+
+  test("TC-STL-1004: Failed bank deposits are never credited", async () => {
+    const { transaction } = await fundFromBank("000123450003");
+
+    await settleDueDeposits(afterClearing());
+
+    const stored = await statusOf(transaction.id);
+    expect(stored.status).toBe("failed");
+    expect(stored.returnCode).toBe("R03");
+    expect(await balanceOf(accountId)).toBe(0);
+  });
+
+  test("TC-STL-1005: A return after settlement reverses the credit", async () => {
+    const { transaction } = await fundFromBank("000123450001");
+
+    await settleDueDeposits(afterClearing());
+    expect(await balanceOf(accountId)).toBe(4000);
+
+    now = new Date(now.getTime() + 2 * 60 * 60 * 1000);
+    await settleDueDeposits(afterClearing());
+
+    const stored = await statusOf(transaction.id);
+    expect(stored.status).toBe("returned");
+    expect(stored.returnCode).toBe("R01");
+    expect(await balanceOf(accountId)).toBe(0);
+  });
+});
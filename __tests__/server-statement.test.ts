@@ -0,0 +1,126 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { statements } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { generateStatements } from "@/server/services/statements";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Statement Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+  let checkingId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const signup = async (email: string) => {
+    const result = await createCaller().auth.signup({
+      email,
+      password: "Password1!",
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    return createCaller(markEmailVerified(result.user));
+  };
+
+  const sqlite = () => (db as any).session.client;
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    caller = await signup("statement@example.com");
+    checkingId = (await caller.account.createAccount({ accountType: "checking" })).id;
+    const savingsId = (await caller.account.createAccount({ accountType: "savings" })).id;
+    await caller.account.fundAccount({
+      accountId: checkingId,
+      amount: 100,
+      fundingSource: { type: "card", accountNumber: "4111111111111111" },
+    });
+    await caller.account.transfer({ fromAccountId: checkingId, toAccountId: savingsId, amount: 40 });
+
+    // Accounts opened in January 2028, activity in February
+    sqlite().exec("UPDATE accounts SET created_at = '2028-01-15 09:00:00'");
+    sqlite().exec("UPDATE journal_entries SET created_at = '2028-02-10 12:00:00'");
+  });
+
+  test("TC-STM-1401: Each finished month gets opening, itemized activity and closing balances", async () => {
+    expect(generateStatements(new Date("2028-03-15T00:00:00.000Z"))).toBe(4);
+
+    const listed = await caller.statement.list();
+    expect(listed.map((statement) => statement.label)).toEqual([
+      "February 2028",
+      "February 2028",
+      "January 2028",
+      "January 2028",
+    ]);
+
+    const [february] = await db.select().from(statements).where(eq(statements.period, "2028-02"));
+    expect(february.accountId).toBe(checkingId);
+    expect(february.openingBalanceCents).toBe(0);
+    expect(february.totalCreditsCents).toBe(10000);
+    expect(february.totalDebitsCents).toBe(4000);
+    expect(february.closingBalanceCents).toBe(6000);
+    expect(JSON.parse(february.lineItems)).toEqual([
+      expect.objectContaining({ date: "2028-02-10", description: "Funding from card", amountCents: 10000, balanceCents: 10000 }),
+      expect.objectContaining({ description: expect.stringMatching(/^Transfer to savings/), amountCents: -4000, balanceCents: 6000 }),
+    ]);
+  });
+
+  test("TC-STM-1402: Statements are immutable and never regenerated", async () => {
+    generateStatements(new Date("2028-03-15T00:00:00.000Z"));
+
+    expect(() => sqlite().exec("UPDATE statements SET closing_balance_cents = 0")).toThrow(/immutable/);
+    expect(() => sqlite().exec("DELETE FROM statements")).toThrow(/immutable/);
+    expect(generateStatements(new Date("2028-03-20T00:00:00.000Z"))).toBe(0);
+    expect(generateStatements(new Date("2028-04-01T00:00:00.000Z"))).toBe(2);
+  });
+
+  test("TC-STM-1403: Statements download as PDF and HTML for their owner only", async () => {
+    generateStatements(new Date("2028-03-15T00:00:00.000Z"));
+    const [february] = await caller.statement.list();
+
+    const html = await caller.statement.download({ statementId: february.id, format: "html" });
+    const markup = Buffer.from(html.contentBase64, "base64").toString("utf8");
+    expect(html.mimeType).toBe("text/html");
+    expect(markup).toContain("February 2028");
+    expect(markup).toContain("$100.00");
+
+    const pdf = await caller.statement.download({ statementId: february.id, format: "pdf" });
+    const bytes = Buffer.from(pdf.contentBase64, "base64").toString("latin1");
+    expect(pdf.filename).toMatch(/-2028-02\.pdf$/);
+    expect(bytes.startsWith("%PDF-1.4")).toBe(true);
+    expect(bytes.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(bytes).toContain("Closing balance");
+
+    const other = await signup("other@example.com");
+    await expect(other.statement.download({ statementId: february.id, format: "pdf" })).rejects.toThrow(
+      /Statement not found/
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { accounts, transactions } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Transfer Tests", () => {
+  let user: any;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const signup = async (email: string) => {
+    const result = await createCaller().auth.signup({
+      email,
+      password: "Password1!",
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    return markEmailVerified(result.user);
+  };
+
+  const fund = async (caller: ReturnType<typeof createCaller>, accountId: number, amount: number) => {
+    await caller.account.fundAccount({
+      accountId,
+      amount,
+      fundingSource: { type: "card", accountNumber: "4111111111111111" },
+    });
+  };
+
+  beforeEach(async () => {
+    resetDatabase();
+    user = await signup("transfer@example.com");
+  });
+
+  test("TC-TRF-501: Transfer moves money between own accounts with a linked pair", async () => {
+    const caller = createCaller(user);
+    const checking = await caller.account.createAccount({ accountType: "checking" });
+    const savings = await caller.account.createAccount({ accountType: "savings" });
+    await fund(caller, checking.id, 100);
+
+    const result = await caller.account.transfer({
+      fromAccountId: checking.id,
+      toAccountId: savings.id,
+      amount: 40.25,
+    });
+
+    expect(result.fromBalanceCents).toBe(5975);
+    expect(result.toBalanceCents).toBe(4025);
+    expect(result.fromTransaction.type).toBe("transfer_out");
+    expect(result.toTransaction.type).toBe("transfer_in");
+    expect(result.fromTransaction.linkedTransactionId).toBe(result.toTransaction.id);
+    expect(result.toTransaction.linkedTransactionId).toBe(result.fromTransaction.id);
+
+    const storedDebit = await db.select().from(transactions).where(eq(transactions.id, result.fromTransaction.id)).get();
+    expect(storedDebit!.linkedTransactionId).toBe(result.toTransaction.id);
+  });
+
+  test("TC-TRF-502: Overdraft is rejected and nothing is written", async () => {
+    const caller = createCaller(user);
+    const checking = await caller.account.createAccount({ accountType: "checking" });
+    const savings = await caller.account.createAccount({ accountType: "savings" });
+    await fund(caller, checking.id, 10);
+
+    await expect(
+      caller.account.transfer({ fromAccountId: checking.id, toAccountId: savings.id, amount: 10.01 })
+    ).rejects.toThrow(/Insufficient funds/);
+
+    const savingsRows = await db.select().from(transactions).where(eq(transactions.accountId, savings.id));
+    expect(savingsRows).toHaveLength(0);
+    const storedChecking = await db.select().from(accounts).where(eq(accounts.id, checking.id)).get();
+    expect(storedChecking!.balanceCents).toBe(1000);
+  });
+
+  test("TC-TRF-503: Inactive accounts cannot send or receive", async () => {
+    const caller = createCaller(user);
+    const checking = await caller.account.createAccount({ accountType: "checking" });
+    const savings = await caller.account.createAccount({ accountType: "savings" });
+    await fund(caller, checking.id, 50);
+    await db.update(accounts).set({ status: "pending" }).where(eq(accounts.id, savings.id));
+
+    await expect(
+      caller.account.transfer({ fromAccountId: checking.id, toAccountId: savings.id, amount: 5 })
+    ).rejects.toThrow(/Account is not active/);
+  });
+
+  test("TC-TRF-504: Cannot transfer into another user's account", async () => {
+    const caller = createCaller(user);
+    const checking = await caller.account.createAccount({ accountType: "checking" });
+    await fund(caller, checking.id, 50);
+
+    const other = await signup("other@example.com");
+    const otherAccount = await createCaller(other).account.createAccount({ accountType: "savings" });
+
+    await expect(
+      caller.account.transfer({ fromAccountId: checking.id, toAccountId: otherAccount.id, amount: 5 })
+    ).rejects.toThrow(/Account not found/);
+  });
+});
@@ -0,0 +1,223 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { sessions, users } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { totpCode, totpStep } from "@/server/services/totp";
+import { resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Two-Factor Authentication Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+  let userId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const sqlite = () => (db as any).session.client;
+  const credentials = { email: "twofactor@example.com", password: "Password1!" };
+
+  // Turns two-factor on and returns the secret and recovery codes
+  const enroll = async () => {
+    const { secret } = await caller.security.startTwoFactorEnrollment();
+    const { recoveryCodes } = await caller.security.confirmTwoFactor({ code: totpCode(secret, totpStep()) });
+    return { secret, recoveryCodes };
+  };
+
+  const startLogin = async () => {
+    const result = await createCaller().auth.login(credentials);
+    if (!result.twoFactorRequired) throw new Error("Expected a two-factor challenge");
+    return result.challengeToken;
+  };
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const { user } = await createCaller().auth.signup({
+      ...credentials,
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    userId = user.id;
+    caller = createCaller(db.select().from(users).where(eq(users.id, userId)).get());
+  });
+
+  test("TC-2FA-2303: Enrollment stores an encrypted secret and only takes effect once confirmed", async () => {
+    const enrollment = await caller.security.startTwoFactorEnrollment();
+    expect(enrollment.provisioningUri).toContain(`secret=${enrollment.secret}`);
+    expect(enrollment.qrCodeDataUri).toMatch(/^data:image\/svg\+xml;base64,/);
+
+    const stored = db.select().from(users).where(eq(users.id, userId)).get()!;
+    expect(stored.totpSecret).not.toContain(enrollment.secret);
+    expect(stored.totpEnabledAt).toBeNull();
+
+    // Unconfirmed, the password alone still signs in
+    await expect(createCaller().auth.login(credentials)).resolves.toMatchObject({ twoFactorRequired: false });
+
+    await expect(caller.security.confirmTwoFactor({ code: "000000" })).rejects.toThrow(/Invalid verification code/);
+    const { recoveryCodes } = await caller.security.confirmTwoFactor({
+      code: totpCode(enrollment.secret, totpStep()),
+    });
+    expect(recoveryCodes).toHaveLength(10);
+    recoveryCodes.forEach((code) => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+
+    await expect(caller.security.getStatus()).resolves.toMatchObject({
+      twoFactorEnabled: true,
+      recoveryCodesRemaining: 10,
+    });
+    await expect(caller.security.startTwoFactorEnrollment()).rejects.toThrow(/already on/);
+
+    // The user object handed back at login never carries the secret
+    const challengeToken = await startLogin();
+    const step = totpStep() + 1;
+    const { user } = await createCaller().auth.verifyTwoFactor({
+      challengeToken,
+      code: totpCode(enrollment.secret, step),
+    });
+    expect(user).not.toHaveProperty("totpSecret", expect.anything());
+  });
+
+  test("TC-2FA-2304: Login needs the password and then a fresh code to get a session", async () => {
+    const { secret } = await enroll();
+    await db.delete(sessions);
+
+    const challengeToken = await startLogin();
+    expect(await db.select().from(sessions)).toHaveLength(0);
+
+    await expect(createCaller().auth.verifyTwoFactor({ challengeToken, code: "123456" })).rejects.toThrow(
+      /Invalid verification code/
+    );
+    // The code used to confirm enrollment has been spent and can't be replayed
+    await expect(
+      createCaller().auth.verifyTwoFactor({ challengeToken, code: totpCode(secret, totpStep()) })
+    ).rejects.toThrow(/Invalid verification code/);
+
+    const { token } = await createCaller().auth.verifyTwoFactor({
+      challengeToken,
+      code: totpCode(secret, totpStep() + 1),
+    });
+    expect(await db.select().from(sessions).where(eq(sessions.token, token)).get()).toBeDefined();
+
+    // A challenge is good for one session only
+    await expect(
+      createCaller().auth.verifyTwoFactor({ challengeToken, code: totpCode(secret, totpStep() + 1) })
+    ).rejects.toThrow(/sign in again/);
+    await expect(createCaller().auth.verifyTwoFactor({ challengeToken: "made-up", code: "123456" })).rejects.toThrow(
+      /sign in again/
+    );
+  });
+
+  test("TC-2FA-2305: Recovery codes work once, and a challenge allows only a few wrong codes", async () => {
+    const { secret, recoveryCodes } = await enroll();
+
+    const first = await startLogin();
+    await createCaller().auth.verifyTwoFactor({ challengeToken: first, code: recoveryCodes[0].toUpperCase() });
+    await expect(caller.security.getStatus()).resolves.toMatchObject({ recoveryCodesRemaining: 9 });
+
+    const second = await startLogin();
+    await expect(createCaller().auth.verifyTwoFactor({ challengeToken: second, code: recoveryCodes[0] })).rejects.toThrow(
+      /Invalid verification code/
+    );
+    for (let i = 0; i < 3; i++) {
+      await expect(createCaller().auth.verifyTwoFactor({ challengeToken: second, code: "000000" })).rejects.toThrow(
+        /Invalid verification code/
+      );
+    }
+    await expect(createCaller().auth.verifyTwoFactor({ challengeToken: second, code: "000000" })).rejects.toThrow(
+      /Too many invalid codes/
+    );
+    await expect(
+      createCaller().auth.verifyTwoFactor({ challengeToken: second, code: totpCode(secret, totpStep() + 1) })
+    ).rejects.toThrow(/sign in again/);
+
+    // Expired challenges are refused even with a right code
+    const third = await startLogin();
+    sqlite().exec("UPDATE login_challenges SET expires_at = '2000-01-01T00:00:00.000Z'");
+    await expect(
+      createCaller().auth.verifyTwoFactor({ challengeToken: third, code: recoveryCodes[1] })
+    ).rejects.toThrow(/sign in again/);
+
+    const { recoveryCodes: replaced } = await caller.security.regenerateRecoveryCodes({ code: recoveryCodes[2] });
+    await expect(caller.security.getStatus()).resolves.toMatchObject({ recoveryCodesRemaining: 10 });
+    const fourth = await startLogin();
+    await expect(createCaller().auth.verifyTwoFactor({ challengeToken: fourth, code: recoveryCodes[3] })).rejects.toThrow(
+      /Invalid verification code/
+    );
+    await expect(
+      createCaller().auth.verifyTwoFactor({ challengeToken: fourth, code: replaced[0] })
+    ).resolves.toHaveProperty("token");
+  });
+
+  test("TC-2FA-2306: Turning two-factor off needs the password and a code", async () => {
+    const { recoveryCodes } = await enroll();
+
+    await expect(
+      caller.security.disableTwoFactor({ password: "WrongPassword1!", code: recoveryCodes[0] })
+    ).rejects.toThrow(/Incorrect password/);
+    await expect(caller.security.disableTwoFactor({ password: credentials.password, code: "000000" })).rejects.toThrow(
+      /Invalid verification code/
+    );
+
+    await caller.security.disableTwoFactor({ password: credentials.password, code: recoveryCodes[0] });
+    const stored = db.select().from(users).where(eq(users.id, userId)).get()!;
+    expect(stored.totpSecret).toBeNull();
+    expect(stored.totpEnabledAt).toBeNull();
+    await expect(caller.security.getStatus()).resolves.toMatchObject({
+      twoFactorEnabled: false,
+      recoveryCodesRemaining: 0,
+    });
+    await expect(createCaller().auth.login(credentials)).resolves.toMatchObject({ twoFactorRequired: false });
+  });
+
+  test("TC-2FA-2307: Wrong codes are capped per user across sign-in attempts", async () => {
+    const { secret } = await enroll();
+    const guess = (challengeToken: string) => createCaller().auth.verifyTwoFactor({ challengeToken, code: "000000" });
+
+    // Two challenges' worth of wrong codes uses up the user's allowance
+    for (let challenge = 0; challenge < 2; challenge++) {
+      const token = await startLogin();
+      for (let i = 0; i < 5; i++) {
+        await expect(guess(token)).rejects.toThrow(/Invalid verification code|Too many invalid codes/);
+      }
+    }
+
+    // A fresh challenge doesn't bring more guesses, and refuses even the right code
+    const locked = await startLogin();
+    await expect(guess(locked)).rejects.toThrow(/try again later/);
+    await expect(
+      createCaller().auth.verifyTwoFactor({ challengeToken: locked, code: totpCode(secret, totpStep()) })
+    ).rejects.toThrow(/try again later/);
+
+    // Once the failures age out of the window, the right code works again
+    sqlite().exec("UPDATE second_factor_failures SET failed_at = '2000-01-01T00:00:00.000Z'");
+    const fresh = await startLogin();
+    await expect(
+      createCaller().auth.verifyTwoFactor({ challengeToken: fresh, code: totpCode(secret, totpStep() + 1) })
+    ).resolves.toHaveProperty("token");
+  });
+});
@@ -0,0 +1,118 @@
+import { appRouter } from "@/server/routers";
+import { db } from "@/lib/db";
+import { accounts, transactions } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { completeDueWithdrawals, WITHDRAWAL_PROCESSING_DELAY_MS } from "@/server/services/withdrawals";
+import { markEmailVerified, resetDatabase } from "./helpers/db";
+
+jest.mock("@/lib/db", () => {
+  const Database = require("better-sqlite3");
+  const { drizzle } = require("drizzle-orm/better-sqlite3");
+  const { runMigrations } = require("@/lib/db/migrations");
+  const sqlite = new Database(":memory:");
+
+  runMigrations(sqlite);
+
+  const db = drizzle(sqlite);
+  return {
+    db,
+    initDb: jest.fn(),
+  };
+});
+
+describe("Withdrawal Tests", () => {
+  let caller: ReturnType<typeof createCaller>;
+  let accountId: number;
+
+  const createCaller = (user: any = null) => {
+    return appRouter.createCaller({
+      user,
+      req: { headers: { cookie: "" } } as any,
+      res: { setHeader: jest.fn(), set: jest.fn() } as any,
+    });
+  };
+
+  const destination = { accountNumber: "000123456789", routingNumber: "021000021" };
+
+  beforeEach(async () => {
+    resetDatabase();
+
+    const { user } = await createCaller().auth.signup({
+      email: "withdraw@example.com",
+      password: "Password1!",
+      firstName: "John",
+      lastName: "Doe",
+      phoneNumber: "1234567890",
+      dateOfBirth: "1990-01-01",
+      ssn: "123456789",
+      address: "123 Main St",
+      city: "Anytown",
+      state: "CA",
+      zipCode: "12345",
+    });
+    caller = createCaller(markEmailVerified(user));
+
+    const account = await caller.account.createAccount({ accountType: "checking" });
+    accountId = account.id;
+    await caller.account.fundAccount({
+      accountId,
+      amount: 100,
+      fundingSource: { type: "card", accountNumber: "4111111111111111" },
+    });
+  });
+
+  test("TC-WDR-601: Withdrawal is held as pending and reduces available balance", async () => {
+    const result = await caller.account.withdraw({ accountId, amount: 30, destination });
+
+    expect(result.transaction.type).toBe("withdrawal");
+    expect(result.transaction.status).toBe("pending");
+    expect(result.transaction.description).toBe("Withdrawal to bank ****6789");
+    expect(result.availableBalanceCents).toBe(7000);
+
+    const [account] = await caller.account.getAccounts();
+    expect(account.balanceCents).toBe(10000);
+    expect(account.availableBalanceCents).toBe(7000);
+  });
+
+  test("TC-WDR-602: Holds count against later withdrawals and transfers", async () => {
+    await caller.account.withdraw({ accountId, amount: 80, destination });
+
+    await expect(caller.account.withdraw({ accountId, amount: 20.01, destination })).rejects.toThrow(
+      /Insufficient funds/
+    );
+
+    const savings = await caller.account.createAccount({ accountType: "savings" });
+    await expect(
+      caller.account.transfer({ fromAccountId: accountId, toAccountId: savings.id, amount: 25 })
+    ).rejects.toThrow(/Insufficient funds/);
+  });
+
+  test("TC-WDR-603: Per-transaction limit is enforced", async () => {
+    await expect(caller.account.withdraw({ accountId, amount: 5000.01, destination })).rejects.toThrow(
+      /Amount cannot exceed \$5,000/
+    );
+  });
+
+  test("TC-WDR-604: Due withdrawals complete and post to the balance", async () => {
+    const { transaction } = await caller.account.withdraw({ accountId, amount: 30, destination });
+
+    expect(completeDueWithdrawals(new Date())).toBe(0);
+    expect(completeDueWithdrawals(new Date(Date.now() + WITHDRAWAL_PROCESSING_DELAY_MS + 1000))).toBe(1);
+
+    const stored = await db.select().from(transactions).where(eq(transactions.id, transaction.id)).get();
+    expect(stored!.status).toBe("completed");
+    expect(stored!.processedAt).not.toBeNull();
+
+    const account = await db.select().from(accounts).where(eq(accounts.id, accountId)).get();
+    expect(account!.balanceCents).toBe(7000);
+  });
+
+  test("TC-WDR-605: Withdrawals need a checksum-valid routing number from the directory", async () => {
+    const withdrawTo = (routingNumber: string) =>
+      caller.account.withdraw({ accountId, amount: 10, destination: { ...destination, routingNumber } });
+
+    await expect(withdrawTo("021000022")).rejects.toThrow(/Invalid routing number/);
+    await expect(withdrawTo("011000028")).rejects.toThrow(/don't recognize this routing number/);
+    await expect(withdrawTo("021000021")).resolves.toMatchObject({ transaction: { status: "pending" } });
+  });
+});
@@ -0,0 +1,60 @@
+import { base32Decode, base32Encode, matchTotpStep, provisioningUri, totpCode } from "@/server/services/totp";
+import { encodeQr, reedSolomonRemainder } from "@/server/services/qr";
+
+describe("TOTP and QR Codes", () => {
+  test("TC-2FA-2301: Codes match the RFC 6238 SHA-1 test vectors and are not accepted twice", () => {
+    const secret = base32Encode(Buffer.from("12345678901234567890"));
+    expect(base32Decode(secret).toString()).toBe("12345678901234567890");
+
+    // The RFC lists 8-digit values; authenticator apps show the last 6
+    expect(totpCode(secret, Math.floor(59 / 30))).toBe("287082");
+    expect(totpCode(secret, Math.floor(1111111109 / 30))).toBe("081804");
+    expect(totpCode(secret, Math.floor(2000000000 / 30))).toBe("279037");
+
+    const now = new Date(1111111109 * 1000);
+    const step = Math.floor(1111111109 / 30);
+    expect(matchTotpStep(secret, "081804", now)).toBe(step);
+    // One step of clock drift either way is tolerated, but no more
+    expect(matchTotpStep(secret, totpCode(secret, step + 1), now)).toBe(step + 1);
+    expect(matchTotpStep(secret, totpCode(secret, step - 2), now)).toBeNull();
+    expect(matchTotpStep(secret, "081804", now, step)).toBeNull();
+
+    expect(provisioningUri(secret, "jo@example.com")).toBe(
+      `otpauth://totp/SecureBank%3Ajo%40example.com?secret=${secret}&issuer=SecureBank&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+
+  test("TC-2FA-2302: QR codes carry correct error correction and format information", () => {
+    // Version 1-M example from the QR specification's worked encoding of "HELLO WORLD"
+    expect(reedSolomonRemainder([32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17], 10)).toEqual([
+      196, 35, 39, 119, 235, 215, 231, 226, 93, 23,
+    ]);
+
+    const uri = provisioningUri(base32Encode(Buffer.alloc(20, 7)), "someone.with.a.long.name@example.com");
+    const modules = encodeQr(uri);
+    const size = modules.length;
+    expect((size - 17) % 4).toBe(0);
+
+    // Both copies of the format information agree and say level M
+    const bit = (x: number, y: number) => (modules[y][x] ? 1 : 0);
+    const first = [
+      ...[0, 1, 2, 3, 4, 5, 7, 8].map((y) => bit(8, y)),
+      bit(7, 8),
+      ...[5, 4, 3, 2, 1, 0].map((x) => bit(x, 8)),
+    ];
+    const second = [
+      ...[0, 1, 2, 3, 4, 5, 6, 7].map((i) => bit(size - 1 - i, 8)),
+      ...[8, 9, 10, 11, 12, 13, 14].map((i) => bit(8, size - 15 + i)),
+    ];
+    expect(second).toEqual(first);
+    const format = first.reduce((value, b, i) => value | (b << i), 0) ^ 0x5412;
+    expect(format >>> 13).toBe(0b00);
+
+    // Finder pattern in the top-left corner and the always-dark module
+    expect(modules[0].slice(0, 7).every(Boolean)).toBe(true);
+    expect(modules[1].slice(0, 7)).toEqual([true, false, false, false, false, false, true]);
+    expect(bit(8, size - 8)).toBe(1);
+
+    expect(() => encodeQr("x".repeat(1000))).toThrow(/too long/);
+  });
+});
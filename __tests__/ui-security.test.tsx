@@ -6,9 +6,10 @@ import "@testing-library/jest-dom";
 // Mock the trpc client
 jest.mock("@/lib/trpc/client", () => ({
   trpc: {
+    useUtils: jest.fn(() => ({})),
     account: {
       getTransactions: {
-        useQuery: jest.fn(),
+        useInfiniteQuery: jest.fn(),
       },
     },
   },
@@ -19,18 +20,26 @@ import { trpc } from "@/lib/trpc/client";
 describe("UI Security Tests", () => {
   test("TC-SEC-303: XSS in Transactions", () => {
     // Mock the query to return a malicious transaction
-    (trpc.account.getTransactions.useQuery as jest.Mock).mockReturnValue({
-      data: [
-        {
-          id: 1,
-          amount: 100,
-          type: "deposit",
-          description: "<script>alert('xss')</script>Malicious",
-          status: "completed",
-          createdAt: new Date().toISOString(),
-        },
-      ],
+    (trpc.account.getTransactions.useInfiniteQuery as jest.Mock).mockReturnValue({
+      data: {
+        pages: [
+          {
+            items: [
+              {
+                id: 1,
+                amountCents: 10000,
+                type: "deposit",
+                description: "<script>alert('xss')</script>Malicious",
+                status: "completed",
+                createdAt: new Date().toISOString(),
+              },
+            ],
+            nextCursor: null,
+          },
+        ],
+      },
       isLoading: false,
+      hasNextPage: false,
     });
 
     render(<TransactionList accountId={1} />);
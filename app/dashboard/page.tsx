@@ -1,33 +1,58 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { trpc } from "@/lib/trpc/client";
+import { Money } from "@/lib/money";
 import { AccountCreationModal } from "@/components/AccountCreationModal";
 import { FundingModal } from "@/components/FundingModal";
+import { TransferModal } from "@/components/TransferModal";
+import { WithdrawModal } from "@/components/WithdrawModal";
+import { SendPaymentModal } from "@/components/SendPaymentModal";
+import { ScheduleTransferModal } from "@/components/ScheduleTransferModal";
+import { ScheduledTransferList } from "@/components/ScheduledTransferList";
+import { FundingSourceList } from "@/components/FundingSourceList";
+import { EmailVerificationBanner } from "@/components/EmailVerificationBanner";
 import { TransactionList } from "@/components/TransactionList";
+import { CloseAccountModal } from "@/components/CloseAccountModal";
+import { RenameAccountModal } from "@/components/RenameAccountModal";
+
+const STATUS_COLORS: Record<string, string> = {
+  active: "text-green-600",
+  pending: "text-yellow-600",
+  frozen: "text-blue-600",
+  dormant: "text-gray-600",
+  closed: "text-red-600",
+};
 
 export default function DashboardPage() {
   const router = useRouter();
   const [isCreatingAccount, setIsCreatingAccount] = useState(false);
   const [fundingAccountId, setFundingAccountId] = useState<number | null>(null);
+  const [transferAccountId, setTransferAccountId] = useState<number | null>(null);
+  const [withdrawAccountId, setWithdrawAccountId] = useState<number | null>(null);
+  const [sendAccountId, setSendAccountId] = useState<number | null>(null);
+  const [isScheduling, setIsScheduling] = useState(false);
   const [selectedAccountId, setSelectedAccountId] = useState<number | null>(null);
+  const [closingAccountId, setClosingAccountId] = useState<number | null>(null);
+  const [renamingAccountId, setRenamingAccountId] = useState<number | null>(null);
 
   const { data: accounts, refetch: refetchAccounts } = trpc.account.getAccounts.useQuery();
   const logoutMutation = trpc.auth.logout.useMutation();
+  const reactivateMutation = trpc.account.reactivateAccount.useMutation({ onSuccess: () => refetchAccounts() });
+  const utils = trpc.useUtils();
+
+  // Only active accounts can move money
+  const activeAccounts = accounts?.filter((account) => account.status === "active") ?? [];
+  const closingAccount = accounts?.find((account) => account.id === closingAccountId);
+  const renamingAccount = accounts?.find((account) => account.id === renamingAccountId);
 
   const handleLogout = async () => {
     await logoutMutation.mutateAsync();
     router.push("/");
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  };
-
   return (
     <div className="min-h-screen bg-gray-50">
       <nav className="bg-white shadow">
@@ -37,6 +62,12 @@ export default function DashboardPage() {
               <h1 className="text-xl font-semibold">SecureBank Dashboard</h1>
             </div>
             <div className="flex items-center">
+              <Link href="/dashboard/statements" className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900">
+                Statements
+              </Link>
+              <Link href="/dashboard/security" className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900">
+                Security
+              </Link>
               <button
                 onClick={handleLogout}
                 className="ml-4 px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
@@ -50,6 +81,8 @@ export default function DashboardPage() {
 
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         <div className="px-4 py-6 sm:px-0">
+          <EmailVerificationBanner />
+
           <div className="mb-6">
             <h2 className="text-2xl font-bold text-gray-900 mb-4">Your Accounts</h2>
 
@@ -63,29 +96,117 @@ export default function DashboardPage() {
                   >
                     <div className="px-4 py-5 sm:p-6">
                       <dt className="text-sm font-medium text-gray-500 truncate">
+                        {account.nickname ? (
+                          <>
+                            <span className="text-gray-900">{account.nickname}</span> ·{" "}
+                          </>
+                        ) : null}
                         {account.accountType.charAt(0).toUpperCase() + account.accountType.slice(1)} Account
                       </dt>
-                      <dd className="mt-1 text-3xl font-semibold text-gray-900">{formatCurrency(account.balance)}</dd>
+                      <dd className="mt-1 text-3xl font-semibold text-gray-900">{Money.format(account.balanceCents)}</dd>
+                      {account.availableBalanceCents !== account.balanceCents && (
+                        <dd className="mt-1 text-sm text-gray-500">
+                          Available: {Money.format(account.availableBalanceCents)}
+                        </dd>
+                      )}
+                      {account.apyBps !== null && (
+                        <dd className="mt-1 text-sm text-gray-500">
+                          {(account.apyBps / 100).toFixed(2)}% APY · Interest accrued:{" "}
+                          {Money.format(account.accruedInterestCents ?? 0)}
+                        </dd>
+                      )}
                       <dd className="mt-1 text-sm text-gray-500">Account: ****{account.accountNumber.slice(-4)}</dd>
                       <dd className="mt-1 text-sm text-gray-500">
                         Status:{" "}
-                        <span
-                          className={`font-medium ${
-                            account.status === "active" ? "text-green-600" : "text-yellow-600"
-                          }`}
-                        >
+                        <span className={`font-medium ${STATUS_COLORS[account.status] ?? "text-yellow-600"}`}>
                           {account.status}
                         </span>
                       </dd>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setFundingAccountId(account.id);
-                        }}
-                        className="mt-4 w-full bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700"
-                      >
-                        Fund Account
-                      </button>
+                      {account.status === "frozen" && (
+                        <dd className="mt-1 text-sm text-gray-500">
+                          Money can&apos;t move in or out of this account. Please contact support.
+                        </dd>
+                      )}
+                      {account.status === "dormant" && (
+                        <div className="mt-4">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              reactivateMutation.mutate({ accountId: account.id });
+                            }}
+                            disabled={reactivateMutation.isPending}
+                            className="w-full bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            Reactivate Account
+                          </button>
+                        </div>
+                      )}
+                      {account.status === "active" && (
+                        <div className="mt-4 flex gap-2">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setFundingAccountId(account.id);
+                            }}
+                            className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700"
+                          >
+                            Fund Account
+                          </button>
+                          {activeAccounts.length > 1 && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setTransferAccountId(account.id);
+                              }}
+                              className="flex-1 bg-white text-blue-600 border border-blue-600 px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-50"
+                            >
+                              Transfer
+                            </button>
+                          )}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setWithdrawAccountId(account.id);
+                            }}
+                            className="flex-1 bg-white text-blue-600 border border-blue-600 px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-50"
+                          >
+                            Withdraw
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setSendAccountId(account.id);
+                            }}
+                            className="flex-1 bg-white text-blue-600 border border-blue-600 px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-50"
+                          >
+                            Send
+                          </button>
+                        </div>
+                      )}
+                      {account.status !== "closed" && (
+                        <div className="mt-3 flex gap-4">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setRenamingAccountId(account.id);
+                            }}
+                            className="text-sm text-blue-600 hover:text-blue-800"
+                          >
+                            {account.nickname ? "Rename" : "Add nickname"}
+                          </button>
+                          {(account.status === "active" || account.status === "pending") && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setClosingAccountId(account.id);
+                              }}
+                              className="text-sm text-red-600 hover:text-red-800"
+                            >
+                              Close account
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -104,6 +225,28 @@ export default function DashboardPage() {
             </button>
           </div>
 
+          {accounts && accounts.length > 0 && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-bold text-gray-900">Scheduled Transfers</h3>
+                <button
+                  onClick={() => setIsScheduling(true)}
+                  className="bg-white text-blue-600 border border-blue-600 px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-50"
+                >
+                  Schedule Transfer
+                </button>
+              </div>
+              <ScheduledTransferList accounts={accounts} />
+            </div>
+          )}
+
+          {accounts && accounts.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-xl font-bold text-gray-900 mb-4">Funding Sources</h3>
+              <FundingSourceList />
+            </div>
+          )}
+
           {selectedAccountId && (
             <div className="mt-8">
               <h3 className="text-xl font-bold text-gray-900 mb-4">Transaction History</h3>
@@ -133,6 +276,83 @@ export default function DashboardPage() {
           }}
         />
       )}
+
+      {transferAccountId && accounts && (
+        <TransferModal
+          fromAccountId={transferAccountId}
+          accounts={activeAccounts}
+          onClose={() => setTransferAccountId(null)}
+          onSuccess={() => {
+            setTransferAccountId(null);
+            refetchAccounts();
+            utils.account.getTransactions.invalidate();
+          }}
+        />
+      )}
+
+      {withdrawAccountId && accounts && (
+        <WithdrawModal
+          accountId={withdrawAccountId}
+          availableBalanceCents={
+            accounts.find((account) => account.id === withdrawAccountId)?.availableBalanceCents ?? 0
+          }
+          onClose={() => setWithdrawAccountId(null)}
+          onSuccess={() => {
+            setWithdrawAccountId(null);
+            refetchAccounts();
+            utils.account.getTransactions.invalidate();
+          }}
+        />
+      )}
+
+      {isScheduling && accounts && (
+        <ScheduleTransferModal
+          accounts={activeAccounts}
+          onClose={() => setIsScheduling(false)}
+          onSuccess={() => {
+            setIsScheduling(false);
+            utils.schedule.list.invalidate();
+          }}
+        />
+      )}
+
+      {renamingAccount && (
+        <RenameAccountModal
+          account={renamingAccount}
+          onClose={() => setRenamingAccountId(null)}
+          onSuccess={() => {
+            setRenamingAccountId(null);
+            refetchAccounts();
+          }}
+        />
+      )}
+
+      {closingAccount && (
+        <CloseAccountModal
+          account={closingAccount}
+          payoutAccounts={activeAccounts.filter((account) => account.id !== closingAccount.id)}
+          onClose={() => setClosingAccountId(null)}
+          onSuccess={() => {
+            setClosingAccountId(null);
+            refetchAccounts();
+            utils.account.getTransactions.invalidate();
+            utils.schedule.list.invalidate();
+          }}
+        />
+      )}
+
+      {sendAccountId && accounts && (
+        <SendPaymentModal
+          fromAccountId={sendAccountId}
+          availableBalanceCents={accounts.find((account) => account.id === sendAccountId)?.availableBalanceCents ?? 0}
+          onClose={() => setSendAccountId(null)}
+          onSuccess={() => {
+            setSendAccountId(null);
+            refetchAccounts();
+            utils.account.getTransactions.invalidate();
+          }}
+        />
+      )}
     </div>
   );
 }
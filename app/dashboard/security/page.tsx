@@ -0,0 +1,33 @@
+"use client";
+
+import Link from "next/link";
+import { TwoFactorSettings } from "@/components/TwoFactorSettings";
+import { SessionList } from "@/components/SessionList";
+
+export default function SecurityPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold">Security</h1>
+            </div>
+            <div className="flex items-center">
+              <Link href="/dashboard" className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900">
+                Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-3xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <TwoFactorSettings />
+          <SessionList />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { trpc } from "@/lib/trpc/client";
+import { Money } from "@/lib/money";
+import { describeAccount as describe } from "@/lib/accounts";
+
+export default function StatementsPage() {
+  const [error, setError] = useState("");
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const { data: statements, isLoading } = trpc.statement.list.useQuery();
+  const { data: accounts } = trpc.account.getAccounts.useQuery();
+  const utils = trpc.useUtils();
+
+  const describeAccount = (accountId: number) => {
+    const account = accounts?.find((candidate) => candidate.id === accountId);
+    return account ? describe(account) : "-";
+  };
+
+  const download = async (statementId: number, format: "pdf" | "html") => {
+    setError("");
+    setDownloading(`${statementId}-${format}`);
+
+    try {
+      const file = await utils.statement.download.fetch({ statementId, format });
+      const bytes = Uint8Array.from(atob(file.contentBase64), (ch) => ch.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: file.mimeType }));
+
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = file.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to download statement");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold">Statements</h1>
+            </div>
+            <div className="flex items-center">
+              <Link href="/dashboard" className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900">
+                Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {error && <div className="mb-4 text-sm text-red-600">{error}</div>}
+
+          {isLoading ? (
+            <div className="bg-white shadow rounded-lg p-6">
+              <p className="text-gray-500">Loading statements...</p>
+            </div>
+          ) : !statements || statements.length === 0 ? (
+            <div className="bg-white shadow rounded-lg p-6">
+              <p className="text-gray-500">No statements yet. Statements are issued after each calendar month ends.</p>
+            </div>
+          ) : (
+            <div className="bg-white shadow overflow-hidden rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Period
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Account
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Opening
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Closing
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Download
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {statements.map((statement) => (
+                    <tr key={statement.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{statement.label}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {describeAccount(statement.accountId)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {Money.format(statement.openingBalanceCents)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {Money.format(statement.closingBalanceCents)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {(["pdf", "html"] as const).map((format) => (
+                          <button
+                            key={format}
+                            onClick={() => download(statement.id, format)}
+                            disabled={downloading !== null}
+                            className="mr-3 font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                          >
+                            {downloading === `${statement.id}-${format}` ? "Preparing..." : format.toUpperCase()}
+                          </button>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
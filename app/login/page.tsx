@@ -14,6 +14,10 @@ type LoginFormData = {
 export default function LoginPage() {
   const router = useRouter();
   const [error, setError] = useState("");
+  // Set once the password is accepted for an account with two-factor authentication on
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   const {
     register,
@@ -21,17 +25,115 @@ export default function LoginPage() {
     formState: { errors },
   } = useForm<LoginFormData>();
   const loginMutation = trpc.auth.login.useMutation();
+  const verifyMutation = trpc.auth.verifyTwoFactor.useMutation();
 
   const onSubmit = async (data: LoginFormData) => {
     try {
       setError("");
-      await loginMutation.mutateAsync(data);
+      const result = await loginMutation.mutateAsync(data);
+      if (result.twoFactorRequired) {
+        setChallengeToken(result.challengeToken);
+        return;
+      }
       router.push("/dashboard");
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : "Invalid credentials");
     }
   };
 
+  const onVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+
+    try {
+      setError("");
+      await verifyMutation.mutateAsync({ challengeToken, code });
+      router.push("/dashboard");
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Invalid verification code";
+      setError(message);
+      // An expired or exhausted challenge can't be retried; go back to the password step
+      if (/sign in again/.test(message)) {
+        setChallengeToken(null);
+        setCode("");
+      }
+    }
+  };
+
+  if (challengeToken) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Two-factor authentication</h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              {useRecoveryCode
+                ? "Enter one of the recovery codes you saved when you turned on two-factor authentication."
+                : "Enter the 6-digit code from your authenticator app."}
+            </p>
+          </div>
+
+          <form className="mt-8 space-y-6" onSubmit={onVerify}>
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                {useRecoveryCode ? "Recovery code" : "Verification code"}
+              </label>
+              <input
+                id="code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                inputMode={useRecoveryCode ? "text" : "numeric"}
+                placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                autoFocus
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+              />
+            </div>
+
+            {error && (
+              <div className="rounded-md bg-red-50 p-4">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={verifyMutation.isPending || !code.trim()}
+              className="w-full px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {verifyMutation.isPending ? "Verifying..." : "Verify"}
+            </button>
+          </form>
+
+          <div className="flex justify-between text-sm">
+            <button
+              type="button"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode("");
+                setError("");
+              }}
+              className="font-medium text-blue-600 hover:text-blue-500"
+            >
+              {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setChallengeToken(null);
+                setCode("");
+                setError("");
+              }}
+              className="font-medium text-gray-600 hover:text-gray-500"
+            >
+              Back to sign in
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -72,6 +174,12 @@ export default function LoginPage() {
             </div>
           </div>
 
+          <div className="text-right text-sm">
+            <Link href="/forgot-password" className="font-medium text-blue-600 hover:text-blue-500">
+              Forgot your password?
+            </Link>
+          </div>
+
           {error && (
             <div className="rounded-md bg-red-50 p-4">
               <p className="text-sm text-red-800">{error}</p>
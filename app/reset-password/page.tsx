@@ -0,0 +1,147 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import Link from "next/link";
+
+type ResetPasswordFormData = {
+  password: string;
+  confirmPassword: string;
+};
+
+function ResetPasswordForm() {
+  const token = useSearchParams().get("token") ?? "";
+  const [error, setError] = useState("");
+  const [done, setDone] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>();
+  const password = watch("password");
+  const resetMutation = trpc.auth.resetPassword.useMutation();
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    try {
+      setError("");
+      await resetMutation.mutateAsync({ token, password: data.password });
+      setDone(true);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  if (done) {
+    return (
+      <div className="space-y-4">
+        <div className="rounded-md bg-green-50 p-4">
+          <p className="text-sm text-green-800">
+            Your password has been changed and you&apos;ve been signed out everywhere. Sign in with your new password.
+          </p>
+        </div>
+        <Link
+          href="/login"
+          className="block w-full text-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          Sign in
+        </Link>
+      </div>
+    );
+  }
+
+  if (!token) {
+    return (
+      <div className="rounded-md bg-red-50 p-4">
+        <p className="text-sm text-red-800">
+          This reset link is incomplete.{" "}
+          <Link href="/forgot-password" className="font-medium underline">
+            Request a new one
+          </Link>
+          .
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+            New password
+          </label>
+          <input
+            {...register("password", {
+              required: "Password is required",
+              minLength: {
+                value: 8,
+                message: "Password must be at least 8 characters",
+              },
+              validate: {
+                hasNumber: (value) => /\d/.test(value) || "Password must contain a number",
+                hasUpper: (value) => /[A-Z]/.test(value) || "Password must contain an uppercase letter",
+                hasLower: (value) => /[a-z]/.test(value) || "Password must contain a lowercase letter",
+                hasSpecial: (value) => /[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(value) || "Password must contain a special character",
+              },
+            })}
+            type="password"
+            autoComplete="new-password"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+          />
+          {errors.password && <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+            Confirm new password
+          </label>
+          <input
+            {...register("confirmPassword", {
+              required: "Please confirm your password",
+              validate: (value) => value === password || "Passwords do not match",
+            })}
+            type="password"
+            autoComplete="new-password"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+          />
+          {errors.confirmPassword && <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>}
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={resetMutation.isPending}
+        className="w-full px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {resetMutation.isPending ? "Saving..." : "Set new password"}
+      </button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Choose a new password</h2>
+        </div>
+
+        {/* useSearchParams needs a Suspense boundary to prerender */}
+        <Suspense fallback={<p className="text-center text-gray-500">Loading...</p>}>
+          <ResetPasswordForm />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { trpc } from "@/lib/trpc/client";
+import Link from "next/link";
+
+function VerifyEmail() {
+  const token = useSearchParams().get("token") ?? "";
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const verifyMutation = trpc.auth.verifyEmail.useMutation();
+  // The link is single-use, so only ever try it once (effects run twice in development)
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (attempted.current) return;
+    attempted.current = true;
+
+    if (!token) {
+      setResult({ ok: false, message: "This verification link is incomplete." });
+      return;
+    }
+    verifyMutation
+      .mutateAsync({ token })
+      .then(() => setResult({ ok: true, message: "Your email address is verified. You can now move money." }))
+      .catch((err: unknown) =>
+        setResult({ ok: false, message: err instanceof Error ? err.message : "Verification failed" })
+      );
+  }, [token, verifyMutation]);
+
+  if (!result) {
+    return <p className="text-center text-gray-500">Verifying...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className={`rounded-md p-4 ${result.ok ? "bg-green-50" : "bg-red-50"}`}>
+        <p className={`text-sm ${result.ok ? "text-green-800" : "text-red-800"}`}>{result.message}</p>
+      </div>
+      <p className="text-center text-sm text-gray-600">
+        <Link href="/dashboard" className="font-medium text-blue-600 hover:text-blue-500">
+          {result.ok ? "Go to your dashboard" : "Sign in to request a new link"}
+        </Link>
+      </p>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Verify your email</h2>
+        </div>
+
+        {/* useSearchParams needs a Suspense boundary to prerender */}
+        <Suspense fallback={<p className="text-center text-gray-500">Loading...</p>}>
+          <VerifyEmail />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
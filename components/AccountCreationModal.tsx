@@ -10,6 +10,7 @@ interface AccountCreationModalProps {
 
 export function AccountCreationModal({ onClose, onSuccess }: AccountCreationModalProps) {
   const [accountType, setAccountType] = useState<"checking" | "savings">("checking");
+  const [nickname, setNickname] = useState("");
   const [error, setError] = useState("");
 
   const createAccountMutation = trpc.account.createAccount.useMutation();
@@ -19,7 +20,7 @@ export function AccountCreationModal({ onClose, onSuccess }: AccountCreationModa
     setError("");
 
     try {
-      await createAccountMutation.mutateAsync({ accountType });
+      await createAccountMutation.mutateAsync({ accountType, nickname: nickname.trim() || undefined });
       onSuccess();
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : "Failed to create account");
@@ -58,6 +59,21 @@ export function AccountCreationModal({ onClose, onSuccess }: AccountCreationModa
             </div>
           </div>
 
+          <div>
+            <label htmlFor="accountNickname" className="block text-sm font-medium text-gray-700">
+              Nickname (optional)
+            </label>
+            <input
+              id="accountNickname"
+              type="text"
+              value={nickname}
+              onChange={(e) => setNickname(e.target.value)}
+              maxLength={40}
+              placeholder="e.g. Emergency fund"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+            />
+          </div>
+
           {error && <div className="text-sm text-red-600">{error}</div>}
 
           <div className="flex justify-end space-x-3">
@@ -0,0 +1,29 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import { routingNumberError } from "@/lib/routing";
+
+interface BankNameHintProps {
+  routingNumber: string | undefined;
+}
+
+// Names the bank behind a routing number once it passes the offline checks
+export function BankNameHint({ routingNumber = "" }: BankNameHintProps) {
+  const checkable = routingNumberError(routingNumber) === null;
+  const { data: lookup, isFetching } = trpc.fundingSource.lookupRoutingNumber.useQuery(
+    { routingNumber },
+    { enabled: checkable }
+  );
+
+  if (!checkable) return null;
+  if (isFetching && !lookup) return <p className="mt-1 text-xs text-gray-500">Looking up bank...</p>;
+  if (!lookup) return null;
+
+  return lookup.bank ? (
+    <p className="mt-1 text-xs text-green-700">
+      {lookup.bank.name}, {lookup.bank.city}, {lookup.bank.state}
+    </p>
+  ) : (
+    <p className="mt-1 text-xs text-red-600">{lookup.error}</p>
+  );
+}
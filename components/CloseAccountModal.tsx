@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { Money } from "@/lib/money";
+import { describeAccount } from "@/lib/accounts";
+
+interface CloseAccountModalProps {
+  account: {
+    id: number;
+    accountType: string;
+    accountNumber: string;
+    nickname: string | null;
+    balanceCents: number;
+    accruedInterestCents: number | null;
+  };
+  payoutAccounts: { id: number; accountType: string; accountNumber: string; nickname: string | null }[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type CloseAccountFormData = {
+  payoutAccountId: string;
+};
+
+export function CloseAccountModal({ account, payoutAccounts, onClose, onSuccess }: CloseAccountModalProps) {
+  const [error, setError] = useState("");
+  // Accrued interest is paid in before the balance moves, so it needs somewhere to go too
+  const needsPayout = account.balanceCents + (account.accruedInterestCents ?? 0) > 0;
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<CloseAccountFormData>({
+    defaultValues: {
+      payoutAccountId: payoutAccounts[0] ? String(payoutAccounts[0].id) : "",
+    },
+  });
+
+  const closeMutation = trpc.account.closeAccount.useMutation();
+
+  const onSubmit = async (data: CloseAccountFormData) => {
+    setError("");
+
+    try {
+      await closeMutation.mutateAsync({
+        accountId: account.id,
+        payoutAccountId: needsPayout ? Number(data.payoutAccountId) : undefined,
+      });
+
+      onSuccess();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to close account");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Close {describeAccount(account)}</h3>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Closing is permanent. Any recurring transfers that use this account will be cancelled.
+          </p>
+
+          {needsPayout &&
+            (payoutAccounts.length > 0 ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Move the remaining {Money.format(account.balanceCents)}
+                  {account.accruedInterestCents ? " plus accrued interest" : ""} to
+                </label>
+                <select
+                  {...register("payoutAccountId", { required: "Choose an account to receive the remaining balance" })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+                >
+                  {payoutAccounts.map((target) => (
+                    <option key={target.id} value={target.id}>
+                      {describeAccount(target)}
+                    </option>
+                  ))}
+                </select>
+                {errors.payoutAccountId && <p className="mt-1 text-sm text-red-600">{errors.payoutAccountId.message}</p>}
+              </div>
+            ) : (
+              <p className="text-sm text-red-600">
+                Withdraw the remaining {Money.format(account.balanceCents)} or open another account to move it to before
+                closing.
+              </p>
+            ))}
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={closeMutation.isPending || (needsPayout && payoutAccounts.length === 0)}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50"
+            >
+              {closeMutation.isPending ? "Closing..." : "Close Account"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
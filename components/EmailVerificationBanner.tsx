@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+
+// Shown until the user confirms their email address; money can't move before then
+export function EmailVerificationBanner() {
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  const { data: verification } = trpc.auth.getEmailVerification.useQuery();
+  const resendMutation = trpc.auth.resendVerificationEmail.useMutation();
+
+  if (!verification || verification.verified) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setMessage("");
+    setError("");
+    try {
+      await resendMutation.mutateAsync();
+      setMessage(`We've sent a new link to ${verification.email}.`);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to send the email");
+    }
+  };
+
+  return (
+    <div className="mb-6 rounded-md bg-yellow-50 p-4">
+      <p className="text-sm text-yellow-800">
+        Please verify your email address to fund accounts, transfer or send money. We sent a link to{" "}
+        <span className="font-medium">{verification.email}</span>.{" "}
+        <button
+          onClick={handleResend}
+          disabled={resendMutation.isPending}
+          className="font-medium text-yellow-900 underline hover:text-yellow-700 disabled:opacity-50"
+        >
+          {resendMutation.isPending ? "Sending..." : "Resend email"}
+        </button>
+      </p>
+      {message && <p className="mt-2 text-sm text-green-700">{message}</p>}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -3,6 +3,10 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { trpc } from "@/lib/trpc/client";
+import { routingNumberError } from "@/lib/routing";
+import { BankNameHint } from "@/components/BankNameHint";
+import { useIdempotencyKey } from "@/lib/useIdempotencyKey";
+import { Money } from "@/lib/money";
 
 interface FundingModalProps {
   accountId: number;
@@ -10,15 +14,26 @@ interface FundingModalProps {
   onSuccess: () => void;
 }
 
+const LIMIT_WINDOW_LABELS = {
+  daily: "24 hours",
+  weekly: "7 days",
+  monthly: "30 days",
+};
+
 type FundingFormData = {
   amount: string;
+  // "new" or the id of a saved funding source
+  source: string;
   fundingType: "card" | "bank";
   accountNumber: string;
   routingNumber?: string;
+  saveSource: boolean;
+  nickname?: string;
 };
 
 export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProps) {
   const [error, setError] = useState("");
+  const [linkedMessage, setLinkedMessage] = useState("");
   const {
     register,
     handleSubmit,
@@ -26,28 +41,71 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
     formState: { errors },
   } = useForm<FundingFormData>({
     defaultValues: {
+      source: "new",
       fundingType: "card",
+      saveSource: false,
     },
   });
 
-  const fundingType = watch("fundingType");
+  const { data: allSources, refetch: refetchSources } = trpc.fundingSource.list.useQuery();
+  // Bank accounts waiting on micro-deposit confirmation can't be used yet
+  const savedSources = allSources?.filter((saved) => saved.verificationStatus === "verified");
+  const source = watch("source");
+  const savedSource = savedSources?.find((saved) => String(saved.id) === source);
+  const fundingType = savedSource ? (savedSource.type as "card" | "bank") : watch("fundingType");
+  const saveSource = watch("saveSource");
+  const routingNumber = watch("routingNumber");
+  // New bank accounts are always linked and verified before they can fund a deposit
+  const linkingBank = !savedSource && fundingType === "bank";
+  const addSourceMutation = trpc.fundingSource.add.useMutation();
   const fundAccountMutation = trpc.account.fundAccount.useMutation();
+  const { data: limits } = trpc.account.getFundingLimits.useQuery();
+  const limitUsage = limits?.[fundingType];
+  // The tightest window decides how much can be added right now
+  const remainingCents = limitUsage ? Math.min(...limitUsage.map((entry) => entry.remainingCents)) : null;
+  const idempotencyKeyFor = useIdempotencyKey();
 
   const onSubmit = async (data: FundingFormData) => {
     setError("");
 
     try {
-      const amount = parseFloat(data.amount);
+      if (linkingBank) {
+        const nickname = data.nickname?.trim() || undefined;
+        const linked = await addSourceMutation.mutateAsync({
+          type: "bank",
+          accountNumber: data.accountNumber,
+          routingNumber: data.routingNumber ?? "",
+          nickname,
+        });
+        await refetchSources();
+        setLinkedMessage(
+          `We sent two small deposits to ${linked.nickname}. Confirm their amounts under Funding Sources to start using it.`
+        );
+        return;
+      }
+
+      let fundingSourceId = savedSource?.id;
+      if (!savedSource && data.saveSource) {
+        const nickname = data.nickname?.trim() || undefined;
+        const added = await addSourceMutation.mutateAsync({ type: "card", cardNumber: data.accountNumber, nickname });
+        fundingSourceId = added.id;
+      }
 
-      await fundAccountMutation.mutateAsync({
+      const request = {
         accountId,
-        amount,
-        fundingSource: {
-          type: data.fundingType,
-          accountNumber: data.accountNumber,
-          routingNumber: data.routingNumber,
-        },
-      });
+        amount: parseFloat(data.amount),
+        ...(fundingSourceId !== undefined
+          ? { fundingSourceId }
+          : {
+              fundingSource: {
+                type: data.fundingType,
+                accountNumber: data.accountNumber,
+                routingNumber: data.routingNumber,
+              },
+            }),
+      };
+
+      await fundAccountMutation.mutateAsync({ ...request, idempotencyKey: idempotencyKeyFor(request) });
 
       onSuccess();
     } catch (err: unknown) {
@@ -69,7 +127,7 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
               </div>
               <input
                 {...register("amount", {
-                  required: "Amount is required",
+                  required: !linkingBank && "Amount is required",
                   pattern: {
                     value: /^(?!0\d)\d+(\.\d{1,2})?$/,
                     message: "Invalid amount format (no leading zeros)",
@@ -82,6 +140,11 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
                     value: 10000,
                     message: "Amount cannot exceed $10,000",
                   },
+                  validate: (value) =>
+                    linkingBank ||
+                    remainingCents === null ||
+                    Money.fromDollars(parseFloat(value)) <= remainingCents ||
+                    `You can add up to ${Money.format(remainingCents)} more from this source right now`,
                 })}
                 type="text"
                 className="pl-7 block w-full rounded-md border-gray-300 focus:ring-blue-500 focus:border-blue-500 sm:text-sm p-2 border"
@@ -93,75 +156,125 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Funding Source</label>
-            <div className="space-y-2">
-              <label className="flex items-center">
-                <input {...register("fundingType")} type="radio" value="card" className="mr-2" />
-                <span>Credit/Debit Card</span>
-              </label>
-              <label className="flex items-center">
-                <input {...register("fundingType")} type="radio" value="bank" className="mr-2" />
-                <span>Bank Account</span>
-              </label>
-            </div>
+            {savedSources && savedSources.length > 0 && (
+              <select
+                {...register("source")}
+                className="mb-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+              >
+                {savedSources.map((saved) => (
+                  <option key={saved.id} value={String(saved.id)}>
+                    {saved.nickname} ({saved.type === "card" ? "card" : "bank"} ****{saved.last4})
+                  </option>
+                ))}
+                <option value="new">Use a new card or bank account</option>
+              </select>
+            )}
+            {!savedSource && (
+              <div className="space-y-2">
+                <label className="flex items-center">
+                  <input {...register("fundingType")} type="radio" value="card" className="mr-2" />
+                  <span>Credit/Debit Card</span>
+                </label>
+                <label className="flex items-center">
+                  <input {...register("fundingType")} type="radio" value="bank" className="mr-2" />
+                  <span>Bank Account</span>
+                </label>
+              </div>
+            )}
+            {limitUsage && (
+              <ul className="mt-2 space-y-1 text-xs text-gray-500">
+                {limitUsage.map((entry) => (
+                  <li key={entry.window}>
+                    {Money.format(entry.remainingCents)} of {Money.format(entry.limitCents)} left (rolling{" "}
+                    {LIMIT_WINDOW_LABELS[entry.window]})
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">
-              {fundingType === "card" ? "Card Number" : "Account Number"}
-            </label>
-            <input
-              {...register("accountNumber", {
-                required: `${fundingType === "card" ? "Card" : "Account"} number is required`,
-                pattern: {
-                  value: fundingType === "card" ? /^\d{13,19}$/ : /^\d+$/,
-                  message: fundingType === "card" ? "Card number must be 13-19 digits" : "Invalid account number",
-                },
-                validate: {
-                  validCard: (value) => {
-                    if (fundingType !== "card") return true;
-                    // Support Visa (4), Mastercard (51-55), Amex (34,37), Discover (6011,65)
-                    const validPrefix = /^(4|5[1-5]|3[47]|6011|65)/.test(value);
-                    if (!validPrefix) return "We accept Visa, Mastercard, Amex, and Discover";
-                    // Luhn check
-                    let sum = 0;
-                    let isEven = false;
-                    for (let i = value.length - 1; i >= 0; i--) {
-                      let digit = parseInt(value[i], 10);
-                      if (isEven) { digit *= 2; if (digit > 9) digit -= 9; }
-                      sum += digit;
-                      isEven = !isEven;
-                    }
-                    return sum % 10 === 0 || "Invalid card number. Please check and try again.";
+          {!savedSource && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                {fundingType === "card" ? "Card Number" : "Account Number"}
+              </label>
+              <input
+                {...register("accountNumber", {
+                  required: `${fundingType === "card" ? "Card" : "Account"} number is required`,
+                  pattern: {
+                    value: fundingType === "card" ? /^\d{13,19}$/ : /^\d+$/,
+                    message: fundingType === "card" ? "Card number must be 13-19 digits" : "Invalid account number",
                   },
-                },
-              })}
-              type="text"
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
-              placeholder={fundingType === "card" ? "1234567812345678" : "123456789"}
-            />
-            {errors.accountNumber && <p className="mt-1 text-sm text-red-600">{errors.accountNumber.message}</p>}
-          </div>
+                  validate: {
+                    validCard: (value) => {
+                      if (fundingType !== "card") return true;
+                      // Support Visa (4), Mastercard (51-55), Amex (34,37), Discover (6011,65)
+                      const validPrefix = /^(4|5[1-5]|3[47]|6011|65)/.test(value);
+                      if (!validPrefix) return "We accept Visa, Mastercard, Amex, and Discover";
+                      // Luhn check
+                      let sum = 0;
+                      let isEven = false;
+                      for (let i = value.length - 1; i >= 0; i--) {
+                        let digit = parseInt(value[i], 10);
+                        if (isEven) { digit *= 2; if (digit > 9) digit -= 9; }
+                        sum += digit;
+                        isEven = !isEven;
+                      }
+                      return sum % 10 === 0 || "Invalid card number. Please check and try again.";
+                    },
+                  },
+                })}
+                type="text"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+                placeholder={fundingType === "card" ? "1234567812345678" : "123456789"}
+              />
+              {errors.accountNumber && <p className="mt-1 text-sm text-red-600">{errors.accountNumber.message}</p>}
+            </div>
+          )}
 
-          {fundingType === "bank" && (
+          {!savedSource && fundingType === "bank" && (
             <div>
               <label className="block text-sm font-medium text-gray-700">Routing Number</label>
               <input
                 {...register("routingNumber", {
                   required: "Routing number is required",
-                  pattern: {
-                    value: /^\d{9}$/,
-                    message: "Routing number must be 9 digits",
-                  },
+                  validate: (value) => routingNumberError(value) ?? true,
                 })}
                 type="text"
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
                 placeholder="123456789"
               />
               {errors.routingNumber && <p className="mt-1 text-sm text-red-600">{errors.routingNumber.message}</p>}
+              {!errors.routingNumber && <BankNameHint routingNumber={routingNumber} />}
+              <p className="mt-1 text-xs text-gray-500">
+                We&apos;ll send two small deposits to this account. Confirm their amounts under Funding Sources before
+                funding from it; bank transfers then stay pending until they clear.
+              </p>
+            </div>
+          )}
+
+          {!savedSource && (
+            <div>
+              {!linkingBank && (
+                <label className="flex items-center text-sm text-gray-700">
+                  <input {...register("saveSource")} type="checkbox" className="mr-2" />
+                  <span>Save this card for next time</span>
+                </label>
+              )}
+              {(saveSource || linkingBank) && (
+                <input
+                  {...register("nickname", { maxLength: { value: 50, message: "Nickname is too long" } })}
+                  type="text"
+                  className="mt-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+                  placeholder="Nickname (optional)"
+                />
+              )}
+              {errors.nickname && <p className="mt-1 text-sm text-red-600">{errors.nickname.message}</p>}
             </div>
           )}
 
           {error && <div className="text-sm text-red-600">{error}</div>}
+          {linkedMessage && <div className="text-sm text-green-700">{linkedMessage}</div>}
 
           <div className="flex justify-end space-x-3">
             <button
@@ -173,10 +286,14 @@ export function FundingModal({ accountId, onClose, onSuccess }: FundingModalProp
             </button>
             <button
               type="submit"
-              disabled={fundAccountMutation.isPending}
+              disabled={fundAccountMutation.isPending || addSourceMutation.isPending}
               className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
             >
-              {fundAccountMutation.isPending ? "Processing..." : "Fund Account"}
+              {fundAccountMutation.isPending || addSourceMutation.isPending
+                ? "Processing..."
+                : linkingBank
+                  ? "Link Bank Account"
+                  : "Fund Account"}
             </button>
           </div>
         </form>
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  verified: { label: "Verified", className: "bg-green-100 text-green-800" },
+  pending: { label: "Awaiting verification", className: "bg-yellow-100 text-yellow-800" },
+  failed: { label: "Verification failed", className: "bg-red-100 text-red-800" },
+};
+
+export function FundingSourceList() {
+  const [error, setError] = useState("");
+  const [amounts, setAmounts] = useState<Record<number, [string, string]>>({});
+  const { data: sources, refetch } = trpc.fundingSource.list.useQuery();
+  const verifyMutation = trpc.fundingSource.verify.useMutation();
+  const deleteMutation = trpc.fundingSource.delete.useMutation();
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError("");
+    try {
+      await action();
+      await refetch();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to update funding source");
+      await refetch();
+    }
+  };
+
+  const setAmount = (sourceId: number, index: 0 | 1, value: string) => {
+    setAmounts((current) => {
+      const next: [string, string] = [...(current[sourceId] ?? ["", ""])];
+      next[index] = value;
+      return { ...current, [sourceId]: next };
+    });
+  };
+
+  if (!sources || sources.length === 0) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6">
+        <p className="text-gray-500">No saved cards or bank accounts.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white shadow overflow-hidden rounded-lg">
+      {error && <div className="px-6 py-3 text-sm text-red-600">{error}</div>}
+      <ul className="divide-y divide-gray-200">
+        {sources.map((source) => {
+          const status = STATUS_LABELS[source.verificationStatus] ?? STATUS_LABELS.verified;
+          const [first, second] = amounts[source.id] ?? ["", ""];
+
+          return (
+            <li key={source.id} className="px-6 py-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{source.nickname}</p>
+                  <p className="text-sm text-gray-500">
+                    {source.type === "card" ? "Card" : "Bank account"} ****{source.last4}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${status.className}`}>{status.label}</span>
+                  <button
+                    onClick={() => runAction(() => deleteMutation.mutateAsync({ fundingSourceId: source.id }))}
+                    className="px-3 py-1 text-sm font-medium text-red-600 bg-white border border-red-300 rounded-md hover:bg-red-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+
+              {source.verificationStatus === "pending" && (
+                <form
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    runAction(() =>
+                      verifyMutation.mutateAsync({
+                        fundingSourceId: source.id,
+                        amounts: [parseFloat(first), parseFloat(second)],
+                      })
+                    );
+                  }}
+                  className="mt-3 flex flex-wrap items-center gap-2"
+                >
+                  <span className="text-sm text-gray-600">Enter the two deposits we sent:</span>
+                  {([first, second] as const).map((value, index) => (
+                    <input
+                      key={index}
+                      value={value}
+                      onChange={(event) => setAmount(source.id, index as 0 | 1, event.target.value)}
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="0.00"
+                      className="w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-1 border"
+                    />
+                  ))}
+                  <button
+                    type="submit"
+                    disabled={verifyMutation.isPending || !first || !second}
+                    className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Verify
+                  </button>
+                  <span className="text-xs text-gray-500">
+                    {source.verificationAttemptsRemaining} {source.verificationAttemptsRemaining === 1 ? "attempt" : "attempts"}{" "}
+                    left
+                  </span>
+                </form>
+              )}
+
+              {source.verificationStatus === "failed" && (
+                <p className="mt-2 text-sm text-red-600">
+                  We couldn&apos;t verify this bank account. Remove it and link it again to use it for deposits.
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
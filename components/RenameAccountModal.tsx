@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { describeAccount } from "@/lib/accounts";
+
+interface RenameAccountModalProps {
+  account: { id: number; accountType: string; accountNumber: string; nickname: string | null };
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export function RenameAccountModal({ account, onClose, onSuccess }: RenameAccountModalProps) {
+  const [nickname, setNickname] = useState(account.nickname ?? "");
+  const [error, setError] = useState("");
+
+  const renameMutation = trpc.account.renameAccount.useMutation();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    try {
+      await renameMutation.mutateAsync({ accountId: account.id, nickname: nickname.trim() });
+      onSuccess();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to rename account");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Rename {describeAccount(account)}</h3>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="renameNickname" className="block text-sm font-medium text-gray-700">
+              Nickname
+            </label>
+            <input
+              id="renameNickname"
+              type="text"
+              value={nickname}
+              onChange={(e) => setNickname(e.target.value)}
+              maxLength={40}
+              placeholder="e.g. Vacation"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+            />
+            <p className="mt-1 text-xs text-gray-500">Leave empty to remove the nickname.</p>
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={renameMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {renameMutation.isPending ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { describeAccount } from "@/lib/accounts";
+
+interface ScheduleTransferModalProps {
+  accounts: { id: number; accountType: string; accountNumber: string; nickname: string | null }[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type ScheduleFormData = {
+  kind: "transfer" | "deposit";
+  fromAccountId: string;
+  toAccountId: string;
+  amount: string;
+  frequency: "once" | "weekly" | "monthly";
+  startDate: string;
+  fundingSourceId: string;
+};
+
+// yyyy-mm-dd in the user's time zone, for the date input's default and minimum
+function localDateString(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function ScheduleTransferModal({ accounts, onClose, onSuccess }: ScheduleTransferModalProps) {
+  const [error, setError] = useState("");
+  const today = localDateString(new Date());
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<ScheduleFormData>({
+    defaultValues: {
+      kind: accounts.length > 1 ? "transfer" : "deposit",
+      fromAccountId: accounts[0] ? String(accounts[0].id) : "",
+      toAccountId: accounts[1] ? String(accounts[1].id) : accounts[0] ? String(accounts[0].id) : "",
+      frequency: "monthly",
+      startDate: today,
+    },
+  });
+
+  const kind = watch("kind");
+  const { data: fundingSources } = trpc.fundingSource.list.useQuery();
+  // Deposits pull from linked bank accounts that have passed micro-deposit verification
+  const banks = fundingSources?.filter((source) => source.type === "bank" && source.verificationStatus === "verified");
+  const createMutation = trpc.schedule.create.useMutation();
+
+  const onSubmit = async (data: ScheduleFormData) => {
+    setError("");
+
+    // Runs at local midnight on the chosen day, or right away when that is today
+    const midnight = new Date(`${data.startDate}T00:00`);
+    const startAt = (data.startDate === today ? new Date() : midnight).toISOString();
+    const common = {
+      toAccountId: Number(data.toAccountId),
+      amount: parseFloat(data.amount),
+      frequency: data.frequency,
+      startAt,
+    };
+
+    try {
+      if (data.kind === "transfer") {
+        await createMutation.mutateAsync({ kind: "transfer", fromAccountId: Number(data.fromAccountId), ...common });
+      } else {
+        await createMutation.mutateAsync({
+          kind: "deposit",
+          fundingSourceId: Number(data.fundingSourceId),
+          ...common,
+        });
+      }
+
+      onSuccess();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to schedule transfer");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Schedule a Transfer</h3>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+            <div className="space-y-2">
+              {accounts.length > 1 && (
+                <label className="flex items-center">
+                  <input {...register("kind")} type="radio" value="transfer" className="mr-2" />
+                  <span>Between my accounts</span>
+                </label>
+              )}
+              <label className="flex items-center">
+                <input {...register("kind")} type="radio" value="deposit" className="mr-2" />
+                <span>Deposit from my bank</span>
+              </label>
+            </div>
+          </div>
+
+          {kind === "transfer" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">From</label>
+              <select
+                {...register("fromAccountId", { required: "Source account is required" })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+              >
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {describeAccount(account)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {kind === "deposit" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">From bank account</label>
+              {banks && banks.length === 0 ? (
+                <p className="mt-1 text-sm text-gray-600">
+                  Link a bank account and confirm its micro-deposits under Funding Sources first.
+                </p>
+              ) : (
+                <select
+                  {...register("fundingSourceId", { required: "Bank account is required" })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+                >
+                  {banks?.map((bank) => (
+                    <option key={bank.id} value={bank.id}>
+                      {bank.nickname}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {errors.fundingSourceId && <p className="mt-1 text-sm text-red-600">{errors.fundingSourceId.message}</p>}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">To</label>
+            <select
+              {...register("toAccountId", { required: "Destination account is required" })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+            >
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {describeAccount(account)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Amount</label>
+            <div className="mt-1 relative rounded-md shadow-sm">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <span className="text-gray-500 sm:text-sm">$</span>
+              </div>
+              <input
+                {...register("amount", {
+                  required: "Amount is required",
+                  pattern: {
+                    value: /^(?!0\d)\d+(\.\d{1,2})?$/,
+                    message: "Invalid amount format (no leading zeros)",
+                  },
+                  min: {
+                    value: 0.01,
+                    message: "Amount must be at least $0.01",
+                  },
+                  max: {
+                    value: 10000,
+                    message: "Amount cannot exceed $10,000",
+                  },
+                })}
+                type="text"
+                className="pl-7 block w-full rounded-md border-gray-300 focus:ring-blue-500 focus:border-blue-500 sm:text-sm p-2 border"
+                placeholder="0.00"
+              />
+            </div>
+            {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+          </div>
+
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700">Repeat</label>
+              <select
+                {...register("frequency")}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+              >
+                <option value="once">Once</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700">Starting</label>
+              <input
+                {...register("startDate", { required: "Start date is required" })}
+                type="date"
+                min={today}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+              />
+            </div>
+          </div>
+          {errors.startDate && <p className="mt-1 text-sm text-red-600">{errors.startDate.message}</p>}
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={createMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {createMutation.isPending ? "Scheduling..." : "Schedule"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Money } from "@/lib/money";
+import { describeAccount as describe } from "@/lib/accounts";
+
+interface ScheduledTransferListProps {
+  accounts: { id: number; accountType: string; accountNumber: string; nickname: string | null }[];
+}
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  once: "One time",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+export function ScheduledTransferList({ accounts }: ScheduledTransferListProps) {
+  const [error, setError] = useState("");
+  const { data: schedules, refetch } = trpc.schedule.list.useQuery();
+  const pauseMutation = trpc.schedule.pause.useMutation();
+  const resumeMutation = trpc.schedule.resume.useMutation();
+  const cancelMutation = trpc.schedule.cancel.useMutation();
+
+  const describeAccount = (accountId: number | null) => {
+    const account = accounts.find((candidate) => candidate.id === accountId);
+    return account ? describe(account) : "-";
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError("");
+    try {
+      await action();
+      await refetch();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to update schedule");
+    }
+  };
+
+  if (!schedules || schedules.length === 0) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6">
+        <p className="text-gray-500">No scheduled transfers.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white shadow overflow-hidden rounded-lg">
+      {error && <div className="px-6 py-3 text-sm text-red-600">{error}</div>}
+      <ul className="divide-y divide-gray-200">
+        {schedules.map((schedule) => (
+          <li key={schedule.id} className="px-6 py-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {Money.format(schedule.amountCents)}{" "}
+                {schedule.kind === "transfer"
+                  ? `from ${describeAccount(schedule.fromAccountId)}`
+                  : `from bank ****${schedule.fundingAccountLast4}`}{" "}
+                to {describeAccount(schedule.toAccountId)}
+              </p>
+              <p className="text-sm text-gray-500">
+                {FREQUENCY_LABELS[schedule.frequency] ?? schedule.frequency} · {schedule.status}
+                {schedule.status === "active" && schedule.nextRunAt && ` · next ${formatDate(schedule.nextRunAt)}`}
+              </p>
+              {schedule.lastRun?.status === "failed" && (
+                <p className="text-sm text-red-600">Last run failed: {schedule.lastRun.error}</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {schedule.status === "active" && (
+                <button
+                  onClick={() => runAction(() => pauseMutation.mutateAsync({ scheduleId: schedule.id }))}
+                  className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Pause
+                </button>
+              )}
+              {schedule.status === "paused" && (
+                <button
+                  onClick={() => runAction(() => resumeMutation.mutateAsync({ scheduleId: schedule.id }))}
+                  className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Resume
+                </button>
+              )}
+              {(schedule.status === "active" || schedule.status === "paused") && (
+                <button
+                  onClick={() => runAction(() => cancelMutation.mutateAsync({ scheduleId: schedule.id }))}
+                  className="px-3 py-1 text-sm font-medium text-red-600 bg-white border border-red-300 rounded-md hover:bg-red-50"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
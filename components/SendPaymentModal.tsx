@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { Money } from "@/lib/money";
+import { useIdempotencyKey } from "@/lib/useIdempotencyKey";
+
+interface SendPaymentModalProps {
+  fromAccountId: number;
+  availableBalanceCents: number;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type SendPaymentFormData = {
+  recipient: string;
+  amount: string;
+};
+
+type Confirmation = {
+  recipient: string;
+  amount: number;
+  maskedName: string;
+  maskedAccountNumber: string;
+};
+
+export function SendPaymentModal({ fromAccountId, availableBalanceCents, onClose, onSuccess }: SendPaymentModalProps) {
+  const [error, setError] = useState("");
+  const [confirmation, setConfirmation] = useState<Confirmation | null>(null);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<SendPaymentFormData>();
+
+  const utils = trpc.useUtils();
+  const sendPaymentMutation = trpc.account.sendPayment.useMutation();
+  const idempotencyKeyFor = useIdempotencyKey();
+
+  // Step 1: look the recipient up so the sender can confirm the masked name
+  const onReview = async (data: SendPaymentFormData) => {
+    setError("");
+
+    try {
+      const recipient = data.recipient.trim();
+      const match = await utils.account.findRecipient.fetch({ recipient });
+      setConfirmation({ recipient, amount: parseFloat(data.amount), ...match });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Could not find that recipient");
+    }
+  };
+
+  // Step 2: send to the confirmed recipient
+  const onSend = async () => {
+    if (!confirmation) return;
+    setError("");
+
+    try {
+      const request = {
+        fromAccountId,
+        recipient: confirmation.recipient,
+        amount: confirmation.amount,
+      };
+
+      await sendPaymentMutation.mutateAsync({ ...request, idempotencyKey: idempotencyKeyFor(request) });
+
+      onSuccess();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to send payment");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Send Money</h3>
+
+        {confirmation ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Send <span className="font-semibold">{Money.format(Money.fromDollars(confirmation.amount))}</span> to{" "}
+              <span className="font-semibold">{confirmation.maskedName}</span> (account{" "}
+              {confirmation.maskedAccountNumber})?
+            </p>
+            <p className="text-xs text-gray-500">Payments to other customers are sent immediately and cannot be undone.</p>
+
+            {error && <div className="text-sm text-red-600">{error}</div>}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setConfirmation(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={onSend}
+                disabled={sendPaymentMutation.isPending}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {sendPaymentMutation.isPending ? "Sending..." : "Send Payment"}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onReview)} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Recipient</label>
+              <input
+                {...register("recipient", {
+                  required: "Recipient is required",
+                  validate: (value) =>
+                    /^\d{10}$/.test(value.trim()) ||
+                    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim()) ||
+                    "Enter an email address or 10-digit account number",
+                })}
+                type="text"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+                placeholder="Email or account number"
+              />
+              {errors.recipient && <p className="mt-1 text-sm text-red-600">{errors.recipient.message}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Amount</label>
+              <div className="mt-1 relative rounded-md shadow-sm">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <span className="text-gray-500 sm:text-sm">$</span>
+                </div>
+                <input
+                  {...register("amount", {
+                    required: "Amount is required",
+                    pattern: {
+                      value: /^(?!0\d)\d+(\.\d{1,2})?$/,
+                      message: "Invalid amount format (no leading zeros)",
+                    },
+                    min: {
+                      value: 0.01,
+                      message: "Amount must be at least $0.01",
+                    },
+                    max: {
+                      value: 2500,
+                      message: "Amount cannot exceed $2,500",
+                    },
+                    validate: (value) =>
+                      Money.fromDollars(parseFloat(value)) <= availableBalanceCents || "Insufficient funds",
+                  })}
+                  type="text"
+                  className="pl-7 block w-full rounded-md border-gray-300 focus:ring-blue-500 focus:border-blue-500 sm:text-sm p-2 border"
+                  placeholder="0.00"
+                />
+              </div>
+              {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+            </div>
+
+            {error && <div className="text-sm text-red-600">{error}</div>}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSubmitting ? "Looking up..." : "Review"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { describeUserAgent } from "@/lib/userAgent";
+
+// created_at is SQLite's "YYYY-MM-DD HH:MM:SS" in UTC; the other timestamps are ISO strings
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString.includes("T") ? dateString : `${dateString.replace(" ", "T")}Z`);
+  return date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+export function SessionList() {
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const { data: sessions, refetch } = trpc.security.listSessions.useQuery();
+  const revokeMutation = trpc.security.revokeSession.useMutation();
+  const revokeOthersMutation = trpc.security.revokeOtherSessions.useMutation();
+
+  const run = async (task: () => Promise<string>) => {
+    setError("");
+    setMessage("");
+    try {
+      setMessage(await task());
+      await refetch();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const others = sessions?.filter((session) => !session.current) ?? [];
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Where you&apos;re signed in</h3>
+          <p className="text-sm text-gray-500">Sign out any device you don&apos;t recognize.</p>
+        </div>
+        {others.length > 0 && (
+          <button
+            onClick={() =>
+              run(async () => {
+                const { revoked } = await revokeOthersMutation.mutateAsync();
+                return `Signed out of ${revoked} other session(s).`;
+              })
+            }
+            disabled={revokeOthersMutation.isPending}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Sign out everywhere else
+          </button>
+        )}
+      </div>
+
+      {!sessions ? (
+        <p className="text-gray-500">Loading...</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {sessions.map((session) => (
+            <li key={session.id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {describeUserAgent(session.userAgent)}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {session.ipAddress ?? "Unknown IP"} · Signed in {session.createdAt ? formatDate(session.createdAt) : "-"}
+                  {session.lastSeenAt && ` · Last active ${formatDate(session.lastSeenAt)}`}
+                </p>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() =>
+                    run(async () => {
+                      await revokeMutation.mutateAsync({ sessionId: session.id });
+                      return "Session signed out.";
+                    })
+                  }
+                  disabled={revokeMutation.isPending}
+                  className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                >
+                  Sign out
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && <div className="text-sm text-green-700">{message}</div>}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
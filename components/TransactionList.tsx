@@ -1,19 +1,108 @@
 "use client";
 
+import { useState } from "react";
+import { useForm } from "react-hook-form";
 import { trpc } from "@/lib/trpc/client";
+import { Money } from "@/lib/money";
+import {
+  TRANSACTION_STATUSES,
+  TRANSACTION_TYPE_LABELS,
+  formatTransactionType,
+  getStatusTone,
+  isCreditTransaction,
+} from "@/lib/transactions";
+
+const STATUS_CLASSES = {
+  posted: "bg-green-100 text-green-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  unsuccessful: "bg-red-100 text-red-800",
+};
+
+const PAGE_SIZE = 25;
+
+const EXPORT_FORMATS = ["csv", "ofx", "qif"] as const;
 
 interface TransactionListProps {
   accountId: number;
 }
 
+type FilterFormData = {
+  fromDate: string;
+  toDate: string;
+  type: string;
+  status: string;
+  minAmount: string;
+  maxAmount: string;
+  search: string;
+};
+
+type AppliedFilters = {
+  fromDate?: string;
+  toDate?: string;
+  types?: string[];
+  statuses?: string[];
+  minAmount?: number;
+  maxAmount?: number;
+  search?: string;
+};
+
+// Empty form fields mean "no filter"
+function toAppliedFilters(data: FilterFormData): AppliedFilters {
+  return {
+    fromDate: data.fromDate || undefined,
+    toDate: data.toDate || undefined,
+    types: data.type ? [data.type] : undefined,
+    statuses: data.status ? [data.status] : undefined,
+    minAmount: data.minAmount ? parseFloat(data.minAmount) : undefined,
+    maxAmount: data.maxAmount ? parseFloat(data.maxAmount) : undefined,
+    search: data.search.trim() || undefined,
+  };
+}
+
+const inputClassName =
+  "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border";
+
 export function TransactionList({ accountId }: TransactionListProps) {
-  const { data: transactions, isLoading } = trpc.account.getTransactions.useQuery({ accountId });
+  const [filters, setFilters] = useState<AppliedFilters>({});
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [exportError, setExportError] = useState("");
+  const { register, handleSubmit, reset } = useForm<FilterFormData>();
+  const utils = trpc.useUtils();
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    trpc.account.getTransactions.useInfiniteQuery(
+      { accountId, limit: PAGE_SIZE, ...filters },
+      { getNextPageParam: (lastPage) => lastPage.nextCursor }
+    );
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
+  const transactions = data?.pages.flatMap((page) => page.items) ?? [];
+  const hasFilters = Object.values(filters).some((value) => value !== undefined);
+
+  // Exports cover the applied date range; the other filters only narrow the on-screen list
+  const exportTransactions = async (format: (typeof EXPORT_FORMATS)[number]) => {
+    setExportError("");
+    setExporting(format);
+
+    try {
+      const file = await utils.account.exportTransactions.fetch({
+        accountId,
+        format,
+        fromDate: filters.fromDate,
+        toDate: filters.toDate,
+      });
+      const bytes = Uint8Array.from(atob(file.contentBase64), (ch) => ch.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: file.mimeType }));
+
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = file.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      setExportError(err instanceof Error ? err.message : "Failed to export transactions");
+    } finally {
+      setExporting(null);
+    }
   };
 
   const formatDate = (dateString: string) => {
@@ -26,69 +115,167 @@ export function TransactionList({ accountId }: TransactionListProps) {
     });
   };
 
-  if (isLoading) {
-    return (
-      <div className="bg-white shadow rounded-lg p-6">
-        <p className="text-gray-500">Loading transactions...</p>
-      </div>
-    );
-  }
+  const amountPattern = {
+    value: /^(?!0\d)\d+(\.\d{1,2})?$/,
+    message: "Invalid amount",
+  };
 
-  if (!transactions || transactions.length === 0) {
-    return (
-      <div className="bg-white shadow rounded-lg p-6">
-        <p className="text-gray-500">No transactions yet.</p>
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={handleSubmit((formData) => setFilters(toAppliedFilters(formData)))}
+        className="bg-white shadow rounded-lg p-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-4"
+      >
+        <div>
+          <label className="block text-xs font-medium text-gray-500">From</label>
+          <input {...register("fromDate")} type="date" className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500">To</label>
+          <input {...register("toDate")} type="date" className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500">Type</label>
+          <select {...register("type")} className={inputClassName}>
+            <option value="">All types</option>
+            {Object.entries(TRANSACTION_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500">Status</label>
+          <select {...register("status")} className={inputClassName}>
+            <option value="">All statuses</option>
+            {TRANSACTION_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500">Min amount</label>
+          <input {...register("minAmount", { pattern: amountPattern })} type="text" placeholder="0.00" className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500">Max amount</label>
+          <input {...register("maxAmount", { pattern: amountPattern })} type="text" placeholder="0.00" className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500">Description</label>
+          <input {...register("search")} type="text" placeholder="Search" className={inputClassName} />
+        </div>
+        <div className="flex items-end gap-2">
+          <button
+            type="submit"
+            className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
+          >
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              reset();
+              setFilters({});
+            }}
+            className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Clear
+          </button>
+        </div>
+      </form>
+
+      <div className="flex items-center justify-end gap-2">
+        {exportError && <p className="mr-auto text-sm text-red-600">{exportError}</p>}
+        <span className="text-sm text-gray-500">Download</span>
+        {EXPORT_FORMATS.map((format) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => exportTransactions(format)}
+            disabled={exporting !== null}
+            className="px-3 py-1 text-sm font-medium text-blue-600 bg-white border border-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50"
+          >
+            {exporting === format ? "Preparing..." : format.toUpperCase()}
+          </button>
+        ))}
       </div>
-    );
-  }
 
-  return (
-    <div className="bg-white shadow overflow-hidden rounded-lg">
-      <table className="min-w-full divide-y divide-gray-200">
-        <thead className="bg-gray-50">
-          <tr>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-              Description
-            </th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-          </tr>
-        </thead>
-        <tbody className="bg-white divide-y divide-gray-200">
-          {transactions.map((transaction) => (
-            <tr key={transaction.id}>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                {formatDate(transaction.createdAt!)}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                <span className={`capitalize ${transaction.type === "deposit" ? "text-green-600" : "text-red-600"}`}>
-                  {transaction.type}
-                </span>
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                {transaction.description ? <span>{transaction.description}</span> : "-"}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                <span className={transaction.type === "deposit" ? "text-green-600" : "text-red-600"}>
-                  {transaction.type === "deposit" ? "+" : "-"}
-                  {formatCurrency(transaction.amount)}
-                </span>
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap">
-                <span
-                  className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                    transaction.status === "completed" ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"
-                  }`}
-                >
-                  {transaction.status}
-                </span>
-              </td>
-            </tr>
-          ))}
-        </tbody>
-      </table>
+      {isLoading ? (
+        <div className="bg-white shadow rounded-lg p-6">
+          <p className="text-gray-500">Loading transactions...</p>
+        </div>
+      ) : transactions.length === 0 ? (
+        <div className="bg-white shadow rounded-lg p-6">
+          <p className="text-gray-500">{hasFilters ? "No transactions match these filters." : "No transactions yet."}</p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Description
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {transactions.map((transaction) => (
+                <tr key={transaction.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatDate(transaction.createdAt!)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <span className={isCreditTransaction(transaction.type) ? "text-green-600" : "text-red-600"}>
+                      {formatTransactionType(transaction.type)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {transaction.description ? <span>{transaction.description}</span> : "-"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <span className={isCreditTransaction(transaction.type) ? "text-green-600" : "text-red-600"}>
+                      {isCreditTransaction(transaction.type) ? "+" : "-"}
+                      {Money.format(transaction.amountCents)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_CLASSES[getStatusTone(transaction.status)]}`}
+                    >
+                      {transaction.status}
+                      {transaction.returnCode && ` (${transaction.returnCode})`}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {hasNextPage && (
+            <div className="px-6 py-4 border-t border-gray-200 text-center">
+              <button
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="px-4 py-2 text-sm font-medium text-blue-600 bg-white border border-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50"
+              >
+                {isFetchingNextPage ? "Loading..." : "Load more"}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { Money } from "@/lib/money";
+import { useIdempotencyKey } from "@/lib/useIdempotencyKey";
+import { describeAccount } from "@/lib/accounts";
+
+interface TransferModalProps {
+  fromAccountId: number;
+  accounts: {
+    id: number;
+    accountType: string;
+    accountNumber: string;
+    nickname: string | null;
+    availableBalanceCents: number;
+  }[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type TransferFormData = {
+  amount: string;
+  toAccountId: string;
+};
+
+export function TransferModal({ fromAccountId, accounts, onClose, onSuccess }: TransferModalProps) {
+  const [error, setError] = useState("");
+  const fromAccount = accounts.find((account) => account.id === fromAccountId);
+  const destinations = accounts.filter((account) => account.id !== fromAccountId);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<TransferFormData>({
+    defaultValues: {
+      toAccountId: destinations[0] ? String(destinations[0].id) : "",
+    },
+  });
+
+  const transferMutation = trpc.account.transfer.useMutation();
+  const idempotencyKeyFor = useIdempotencyKey();
+
+  const onSubmit = async (data: TransferFormData) => {
+    setError("");
+
+    try {
+      const request = {
+        fromAccountId,
+        toAccountId: Number(data.toAccountId),
+        amount: parseFloat(data.amount),
+      };
+
+      await transferMutation.mutateAsync({ ...request, idempotencyKey: idempotencyKeyFor(request) });
+
+      onSuccess();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to transfer funds");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Transfer Between Accounts</h3>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">From</label>
+            <p className="mt-1 text-sm text-gray-900">{fromAccount ? describeAccount(fromAccount) : "-"}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">To</label>
+            <select
+              {...register("toAccountId", { required: "Destination account is required" })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+            >
+              {destinations.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {describeAccount(account)}
+                </option>
+              ))}
+            </select>
+            {errors.toAccountId && <p className="mt-1 text-sm text-red-600">{errors.toAccountId.message}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Amount</label>
+            <div className="mt-1 relative rounded-md shadow-sm">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <span className="text-gray-500 sm:text-sm">$</span>
+              </div>
+              <input
+                {...register("amount", {
+                  required: "Amount is required",
+                  pattern: {
+                    value: /^(?!0\d)\d+(\.\d{1,2})?$/,
+                    message: "Invalid amount format (no leading zeros)",
+                  },
+                  min: {
+                    value: 0.01,
+                    message: "Amount must be at least $0.01",
+                  },
+                  validate: (value) =>
+                    !fromAccount ||
+                    Money.fromDollars(parseFloat(value)) <= fromAccount.availableBalanceCents ||
+                    "Insufficient funds",
+                })}
+                type="text"
+                className="pl-7 block w-full rounded-md border-gray-300 focus:ring-blue-500 focus:border-blue-500 sm:text-sm p-2 border"
+                placeholder="0.00"
+              />
+            </div>
+            {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={transferMutation.isPending || destinations.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {transferMutation.isPending ? "Processing..." : "Transfer"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
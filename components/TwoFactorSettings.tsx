@@ -0,0 +1,218 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+
+type Enrollment = { secret: string; provisioningUri: string; qrCodeDataUri: string };
+
+export function TwoFactorSettings() {
+  const [error, setError] = useState("");
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [action, setAction] = useState<"disable" | "regenerate" | null>(null);
+
+  const { data: status, refetch } = trpc.security.getStatus.useQuery();
+  const startMutation = trpc.security.startTwoFactorEnrollment.useMutation();
+  const confirmMutation = trpc.security.confirmTwoFactor.useMutation();
+  const disableMutation = trpc.security.disableTwoFactor.useMutation();
+  const regenerateMutation = trpc.security.regenerateRecoveryCodes.useMutation();
+
+  const run = async (task: () => Promise<void>) => {
+    setError("");
+    try {
+      await task();
+      setCode("");
+      setPassword("");
+      await refetch();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const inputClass =
+    "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border";
+  const primaryButton =
+    "px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50";
+  const secondaryButton =
+    "px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50";
+
+  if (!status) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6">
+        <p className="text-gray-500">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Two-factor authentication</h3>
+          <p className="text-sm text-gray-500">
+            {status.twoFactorEnabled
+              ? `On since ${new Date(status.twoFactorEnabledAt!).toLocaleDateString("en-US")}. ${status.recoveryCodesRemaining} recovery code(s) left.`
+              : "Require a code from an authenticator app when you sign in."}
+          </p>
+        </div>
+        <span
+          className={`px-2 py-1 text-xs font-medium rounded-full ${
+            status.twoFactorEnabled ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
+          }`}
+        >
+          {status.twoFactorEnabled ? "On" : "Off"}
+        </span>
+      </div>
+
+      {recoveryCodes && (
+        <div className="rounded-md bg-yellow-50 p-4">
+          <p className="text-sm font-medium text-yellow-800">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone, and they
+            won&apos;t be shown again.
+          </p>
+          <ul className="mt-2 grid grid-cols-2 gap-1 font-mono text-sm text-gray-900">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <button onClick={() => setRecoveryCodes(null)} className={`mt-3 ${secondaryButton}`}>
+            I&apos;ve saved them
+          </button>
+        </div>
+      )}
+
+      {!status.twoFactorEnabled && !enrollment && (
+        <button
+          onClick={() => run(async () => setEnrollment(await startMutation.mutateAsync()))}
+          disabled={startMutation.isPending}
+          className={primaryButton}
+        >
+          Set up two-factor authentication
+        </button>
+      )}
+
+      {!status.twoFactorEnabled && enrollment && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            run(async () => {
+              const { recoveryCodes: codes } = await confirmMutation.mutateAsync({ code });
+              setEnrollment(null);
+              setRecoveryCodes(codes);
+            });
+          }}
+          className="space-y-4"
+        >
+          <p className="text-sm text-gray-700">
+            Scan this code with an authenticator app such as Google Authenticator or 1Password, then enter the 6-digit
+            code it shows.
+          </p>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={enrollment.qrCodeDataUri} alt="QR code for your authenticator app" className="w-48 h-48" />
+          <p className="text-sm text-gray-500">
+            Can&apos;t scan it? Enter this key instead:{" "}
+            <code className="font-mono text-gray-900 break-all">{enrollment.secret}</code>
+            <br />
+            On a phone, you can{" "}
+            <a href={enrollment.provisioningUri} className="text-blue-600 hover:text-blue-500">
+              open it in your authenticator app
+            </a>
+            .
+          </p>
+          <div>
+            <label htmlFor="enrollCode" className="block text-sm font-medium text-gray-700">
+              Verification code
+            </label>
+            <input
+              id="enrollCode"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex space-x-3">
+            <button type="submit" disabled={confirmMutation.isPending || !code.trim()} className={primaryButton}>
+              Turn on
+            </button>
+            <button type="button" onClick={() => setEnrollment(null)} className={secondaryButton}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status.twoFactorEnabled && !action && (
+        <div className="flex space-x-3">
+          <button onClick={() => setAction("regenerate")} className={secondaryButton}>
+            New recovery codes
+          </button>
+          <button onClick={() => setAction("disable")} className={secondaryButton}>
+            Turn off
+          </button>
+        </div>
+      )}
+
+      {status.twoFactorEnabled && action && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            run(async () => {
+              if (action === "disable") {
+                await disableMutation.mutateAsync({ password, code });
+              } else {
+                setRecoveryCodes((await regenerateMutation.mutateAsync({ code })).recoveryCodes);
+              }
+              setAction(null);
+            });
+          }}
+          className="space-y-4"
+        >
+          {action === "disable" && (
+            <div>
+              <label htmlFor="disablePassword" className="block text-sm font-medium text-gray-700">
+                Password
+              </label>
+              <input
+                id="disablePassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          )}
+          <div>
+            <label htmlFor="actionCode" className="block text-sm font-medium text-gray-700">
+              Authenticator or recovery code
+            </label>
+            <input
+              id="actionCode"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={disableMutation.isPending || regenerateMutation.isPending || !code.trim()}
+              className={primaryButton}
+            >
+              {action === "disable" ? "Turn off two-factor authentication" : "Replace recovery codes"}
+            </button>
+            <button type="button" onClick={() => setAction(null)} className={secondaryButton}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
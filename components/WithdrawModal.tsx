@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { trpc } from "@/lib/trpc/client";
+import { Money } from "@/lib/money";
+import { useIdempotencyKey } from "@/lib/useIdempotencyKey";
+import { routingNumberError } from "@/lib/routing";
+import { BankNameHint } from "@/components/BankNameHint";
+
+interface WithdrawModalProps {
+  accountId: number;
+  availableBalanceCents: number;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type WithdrawFormData = {
+  amount: string;
+  accountNumber: string;
+  routingNumber: string;
+};
+
+export function WithdrawModal({ accountId, availableBalanceCents, onClose, onSuccess }: WithdrawModalProps) {
+  const [error, setError] = useState("");
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<WithdrawFormData>();
+
+  const routingNumber = watch("routingNumber");
+  const withdrawMutation = trpc.account.withdraw.useMutation();
+  const idempotencyKeyFor = useIdempotencyKey();
+
+  const onSubmit = async (data: WithdrawFormData) => {
+    setError("");
+
+    try {
+      const request = {
+        accountId,
+        amount: parseFloat(data.amount),
+        destination: {
+          accountNumber: data.accountNumber,
+          routingNumber: data.routingNumber,
+        },
+      };
+
+      await withdrawMutation.mutateAsync({ ...request, idempotencyKey: idempotencyKeyFor(request) });
+
+      onSuccess();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to withdraw funds");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Withdraw to External Bank</h3>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Amount</label>
+            <div className="mt-1 relative rounded-md shadow-sm">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <span className="text-gray-500 sm:text-sm">$</span>
+              </div>
+              <input
+                {...register("amount", {
+                  required: "Amount is required",
+                  pattern: {
+                    value: /^(?!0\d)\d+(\.\d{1,2})?$/,
+                    message: "Invalid amount format (no leading zeros)",
+                  },
+                  min: {
+                    value: 0.01,
+                    message: "Amount must be at least $0.01",
+                  },
+                  max: {
+                    value: 5000,
+                    message: "Amount cannot exceed $5,000",
+                  },
+                  validate: (value) =>
+                    Money.fromDollars(parseFloat(value)) <= availableBalanceCents || "Insufficient funds",
+                })}
+                type="text"
+                className="pl-7 block w-full rounded-md border-gray-300 focus:ring-blue-500 focus:border-blue-500 sm:text-sm p-2 border"
+                placeholder="0.00"
+              />
+            </div>
+            {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Account Number</label>
+            <input
+              {...register("accountNumber", {
+                required: "Account number is required",
+                pattern: {
+                  value: /^\d{4,17}$/,
+                  message: "Invalid account number",
+                },
+              })}
+              type="text"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+              placeholder="123456789"
+            />
+            {errors.accountNumber && <p className="mt-1 text-sm text-red-600">{errors.accountNumber.message}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Routing Number</label>
+            <input
+              {...register("routingNumber", {
+                required: "Routing number is required",
+                validate: (value) => routingNumberError(value) ?? true,
+              })}
+              type="text"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm p-2 border"
+              placeholder="123456789"
+            />
+            {errors.routingNumber && <p className="mt-1 text-sm text-red-600">{errors.routingNumber.message}</p>}
+            {!errors.routingNumber && <BankNameHint routingNumber={routingNumber} />}
+          </div>
+
+          <p className="text-xs text-gray-500">Withdrawals stay pending until the transfer to your bank is processed.</p>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={withdrawMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {withdrawMutation.isPending ? "Processing..." : "Withdraw"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
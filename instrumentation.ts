@@ -18,4 +18,9 @@ if (typeof globalThis.localStorage !== "undefined") {
 
 export async function register() {
   // Instrumentation hook for Next.js — runs once on server startup
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Settlement sweeps and scheduled transfers run in the background of the Node.js server
+    const { startBackgroundJobs } = await import("./server/jobs");
+    startBackgroundJobs();
+  }
 }
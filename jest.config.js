@@ -10,6 +10,8 @@ const customJestConfig = {
   coverageProvider: 'v8',
   testEnvironment: 'jsdom',
   setupFilesAfterEnv: ['<rootDir>/jest.setup.ts'],
+  // Shared test code, not tests
+  testPathIgnorePatterns: ['<rootDir>/__tests__/helpers/'],
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/$1',
   },
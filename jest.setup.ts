@@ -1,5 +1,8 @@
 import '@testing-library/jest-dom'
+import os from 'os'
+import path from 'path'
 
 process.env.JWT_SECRET = "test-secret";
 process.env.ENCRYPTION_KEY = "test-encryption-key-must-be-long-enough-for-hashing";
-
+// Keep mail sent during tests out of the working tree
+process.env.MAIL_OUTBOX_DIR = path.join(os.tmpdir(), "securebank-test-outbox");
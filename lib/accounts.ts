@@ -0,0 +1,6 @@
+// How an account is named across the dashboard: its nickname when it has one, otherwise its
+// type, followed by the last four digits of the account number.
+export function describeAccount(account: { accountType: string; accountNumber: string; nickname?: string | null }) {
+  const name = account.nickname || account.accountType.charAt(0).toUpperCase() + account.accountType.slice(1);
+  return `${name} ****${account.accountNumber.slice(-4)}`;
+}
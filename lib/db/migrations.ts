@@ -0,0 +1,767 @@
+import type Database from "better-sqlite3";
+
+type Migration = {
+  version: number;
+  name: string;
+  up: (sqlite: Database.Database) => void;
+};
+
+// Ordered list of schema changes. The applied version is tracked in SQLite's
+// `user_version` pragma, so existing bank.db files pick up new migrations on boot.
+// Never edit a migration that has shipped; append a new one instead.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          email TEXT UNIQUE NOT NULL,
+          password TEXT NOT NULL,
+          first_name TEXT NOT NULL,
+          last_name TEXT NOT NULL,
+          phone_number TEXT NOT NULL,
+          date_of_birth TEXT NOT NULL,
+          ssn TEXT NOT NULL,
+          address TEXT NOT NULL,
+          city TEXT NOT NULL,
+          state TEXT NOT NULL,
+          zip_code TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS accounts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          account_number TEXT UNIQUE NOT NULL,
+          account_type TEXT NOT NULL,
+          balance REAL DEFAULT 0 NOT NULL,
+          status TEXT DEFAULT 'pending',
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS transactions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL REFERENCES accounts(id),
+          type TEXT NOT NULL,
+          amount REAL NOT NULL,
+          description TEXT,
+          status TEXT DEFAULT 'pending' NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          processed_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          token TEXT UNIQUE NOT NULL,
+          expires_at TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "link transfer transaction pairs",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE transactions ADD COLUMN linked_transaction_id INTEGER REFERENCES transactions(id);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "settlement time for pending transactions",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE transactions ADD COLUMN settle_after TEXT;
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "store money as integer cents",
+    up: (sqlite) => {
+      // Existing REAL values were already rounded to 2 decimal places, so ROUND(x * 100)
+      // recovers the exact cent amount
+      sqlite.exec(`
+        ALTER TABLE accounts ADD COLUMN balance_cents INTEGER DEFAULT 0 NOT NULL;
+        UPDATE accounts SET balance_cents = CAST(ROUND(balance * 100) AS INTEGER);
+        ALTER TABLE accounts DROP COLUMN balance;
+
+        ALTER TABLE transactions ADD COLUMN amount_cents INTEGER DEFAULT 0 NOT NULL;
+        UPDATE transactions SET amount_cents = CAST(ROUND(amount * 100) AS INTEGER);
+        ALTER TABLE transactions DROP COLUMN amount;
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "double-entry ledger",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE journal_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          description TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE ledger_postings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          journal_entry_id INTEGER NOT NULL REFERENCES journal_entries(id),
+          account_id INTEGER REFERENCES accounts(id),
+          internal_account TEXT,
+          transaction_id INTEGER REFERENCES transactions(id),
+          direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+          amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+          CHECK ((account_id IS NULL) != (internal_account IS NULL))
+        );
+
+        CREATE INDEX ledger_postings_account_id ON ledger_postings(account_id);
+        CREATE INDEX ledger_postings_journal_entry_id ON ledger_postings(journal_entry_id);
+      `);
+
+      // Carry existing balances into the ledger as one opening entry per account
+      const openingBalances = sqlite
+        .prepare("SELECT id, balance_cents FROM accounts WHERE balance_cents != 0")
+        .all() as { id: number; balance_cents: number }[];
+      const insertEntry = sqlite.prepare("INSERT INTO journal_entries (description) VALUES (?)");
+      const insertPosting = sqlite.prepare(
+        "INSERT INTO ledger_postings (journal_entry_id, account_id, internal_account, direction, amount_cents) VALUES (?, ?, ?, ?, ?)"
+      );
+
+      for (const account of openingBalances) {
+        const entryId = insertEntry.run(`Opening balance for account ${account.id}`).lastInsertRowid;
+        const amount = Math.abs(account.balance_cents);
+        const customerSide = account.balance_cents > 0 ? "credit" : "debit";
+        const internalSide = customerSide === "credit" ? "debit" : "credit";
+        insertPosting.run(entryId, account.id, null, customerSide, amount);
+        insertPosting.run(entryId, null, "opening_balances", internalSide, amount);
+      }
+    },
+  },
+  {
+    version: 6,
+    name: "idempotency keys",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE idempotency_keys (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          key TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          fingerprint TEXT NOT NULL,
+          response TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (user_id, key)
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "funding settlement lifecycle",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE transactions ADD COLUMN funding_source_type TEXT;
+        ALTER TABLE transactions ADD COLUMN processor_reference TEXT;
+        ALTER TABLE transactions ADD COLUMN return_code TEXT;
+
+        UPDATE transactions SET status = 'settled' WHERE type = 'deposit' AND status = 'completed';
+        UPDATE transactions SET funding_source_type = 'card' WHERE type = 'deposit' AND description = 'Funding from card';
+        UPDATE transactions SET funding_source_type = 'bank' WHERE type = 'deposit' AND description = 'Funding from bank';
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: "scheduled transfers",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE scheduled_transfers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          kind TEXT NOT NULL CHECK (kind IN ('deposit', 'transfer')),
+          from_account_id INTEGER REFERENCES accounts(id),
+          to_account_id INTEGER NOT NULL REFERENCES accounts(id),
+          amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+          funding_routing_number TEXT,
+          funding_account_number TEXT,
+          funding_account_last4 TEXT,
+          frequency TEXT NOT NULL CHECK (frequency IN ('once', 'weekly', 'monthly')),
+          start_at TEXT NOT NULL,
+          run_count INTEGER NOT NULL DEFAULT 0,
+          next_run_at TEXT,
+          status TEXT NOT NULL DEFAULT 'active',
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          CHECK ((kind = 'transfer') = (from_account_id IS NOT NULL))
+        );
+
+        CREATE INDEX scheduled_transfers_due ON scheduled_transfers(status, next_run_at);
+
+        CREATE TABLE scheduled_transfer_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          scheduled_transfer_id INTEGER NOT NULL REFERENCES scheduled_transfers(id),
+          occurrence INTEGER NOT NULL,
+          scheduled_for TEXT NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed')),
+          transaction_id INTEGER REFERENCES transactions(id),
+          error TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (scheduled_transfer_id, occurrence)
+        );
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "savings interest accrual",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE interest_accruals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL REFERENCES accounts(id),
+          accrual_date TEXT NOT NULL,
+          balance_cents INTEGER NOT NULL,
+          apy_bps INTEGER NOT NULL,
+          amount_micro_cents INTEGER NOT NULL,
+          transaction_id INTEGER REFERENCES transactions(id),
+          credited_at TEXT,
+          UNIQUE (account_id, accrual_date)
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: "monthly statements",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE statements (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL REFERENCES accounts(id),
+          period TEXT NOT NULL,
+          opening_balance_cents INTEGER NOT NULL,
+          closing_balance_cents INTEGER NOT NULL,
+          total_credits_cents INTEGER NOT NULL,
+          total_debits_cents INTEGER NOT NULL,
+          line_items TEXT NOT NULL,
+          generated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (account_id, period)
+        );
+
+        CREATE TRIGGER statements_immutable BEFORE UPDATE ON statements
+        BEGIN
+          SELECT RAISE(ABORT, 'statements are immutable');
+        END;
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: "transaction history indexes",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE INDEX transactions_account_history ON transactions(account_id, created_at DESC, id DESC);
+        CREATE INDEX transactions_type_status ON transactions(type, status);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: "balance reconciliation",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE balance_discrepancies (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL REFERENCES accounts(id),
+          balance_cents INTEGER NOT NULL,
+          ledger_balance_cents INTEGER NOT NULL,
+          expected_balance_cents INTEGER NOT NULL,
+          difference_cents INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'repaired', 'resolved')),
+          detected_at TEXT NOT NULL,
+          last_checked_at TEXT NOT NULL,
+          resolved_at TEXT,
+          approved_by TEXT,
+          journal_entry_id INTEGER REFERENCES journal_entries(id)
+        );
+
+        CREATE INDEX balance_discrepancies_account_status ON balance_discrepancies(account_id, status);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: "fraud screening decisions",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE fraud_decisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          account_id INTEGER NOT NULL REFERENCES accounts(id),
+          transaction_id INTEGER REFERENCES transactions(id),
+          amount_cents INTEGER NOT NULL,
+          funding_source_type TEXT NOT NULL,
+          funding_fingerprint TEXT NOT NULL,
+          funding_routing_number TEXT,
+          funding_account_number TEXT,
+          score INTEGER NOT NULL,
+          decision TEXT NOT NULL CHECK (decision IN ('allow', 'review', 'block')),
+          rules TEXT NOT NULL,
+          review_outcome TEXT CHECK (review_outcome IN ('approved', 'rejected')),
+          reviewed_by TEXT,
+          reviewed_at TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX fraud_decisions_fingerprint ON fraud_decisions(funding_fingerprint);
+        CREATE INDEX fraud_decisions_account_created ON fraud_decisions(account_id, created_at);
+        CREATE INDEX fraud_decisions_user_created ON fraud_decisions(user_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: "saved funding sources",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE funding_sources (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          type TEXT NOT NULL CHECK (type IN ('card', 'bank')),
+          token TEXT NOT NULL,
+          last4 TEXT NOT NULL,
+          brand TEXT,
+          routing_number TEXT,
+          fingerprint TEXT NOT NULL,
+          nickname TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (user_id, fingerprint)
+        );
+
+        ALTER TABLE fraud_decisions ADD COLUMN funding_token TEXT;
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: "bank account micro-deposit verification",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE funding_sources ADD COLUMN verification_status TEXT NOT NULL DEFAULT 'verified'
+          CHECK (verification_status IN ('pending', 'verified', 'failed'));
+        ALTER TABLE funding_sources ADD COLUMN micro_deposit_1_cents INTEGER;
+        ALTER TABLE funding_sources ADD COLUMN micro_deposit_2_cents INTEGER;
+        ALTER TABLE funding_sources ADD COLUMN verification_attempts INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE funding_sources ADD COLUMN verified_at TEXT;
+
+        -- Bank accounts linked before verification existed were never checked; they must be linked again
+        UPDATE funding_sources SET verification_status = 'failed' WHERE type = 'bank';
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: "account lifecycle and staff role",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'customer' CHECK (role IN ('customer', 'staff'));
+
+        ALTER TABLE accounts ADD COLUMN status_reason TEXT;
+        ALTER TABLE accounts ADD COLUMN status_changed_at TEXT;
+
+        -- Anything outside the state machine is held until someone looks at it
+        UPDATE accounts SET status = 'frozen', status_reason = 'unrecognized_status'
+          WHERE status IS NULL OR status NOT IN ('pending', 'active', 'frozen', 'dormant', 'closed');
+
+        CREATE TRIGGER accounts_status_valid_insert BEFORE INSERT ON accounts
+        WHEN NEW.status IS NULL OR NEW.status NOT IN ('pending', 'active', 'frozen', 'dormant', 'closed')
+        BEGIN
+          SELECT RAISE(ABORT, 'invalid account status');
+        END;
+
+        CREATE TRIGGER accounts_status_valid_update BEFORE UPDATE OF status ON accounts
+        WHEN NEW.status IS NULL OR NEW.status NOT IN ('pending', 'active', 'frozen', 'dormant', 'closed')
+        BEGIN
+          SELECT RAISE(ABORT, 'invalid account status');
+        END;
+
+        CREATE TABLE account_status_changes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id INTEGER NOT NULL REFERENCES accounts(id),
+          from_status TEXT NOT NULL,
+          to_status TEXT NOT NULL,
+          reason_code TEXT NOT NULL,
+          note TEXT,
+          changed_by INTEGER REFERENCES users(id),
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX account_status_changes_account ON account_status_changes(account_id, id);
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: "account nicknames",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE accounts ADD COLUMN nickname TEXT;
+      `);
+    },
+  },
+  {
+    version: 18,
+    name: "two-factor authentication",
+    up: (sqlite) => {
+      sqlite.exec(`
+        -- Encrypted base32 secret; set but not enabled while enrollment is unconfirmed
+        ALTER TABLE users ADD COLUMN totp_secret TEXT;
+        ALTER TABLE users ADD COLUMN totp_enabled_at TEXT;
+        -- Last 30-second step a code was accepted for, so a code can't be replayed
+        ALTER TABLE users ADD COLUMN totp_last_step INTEGER;
+
+        CREATE TABLE recovery_codes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          code_hash TEXT NOT NULL,
+          used_at TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX recovery_codes_user ON recovery_codes(user_id);
+
+        CREATE TABLE login_challenges (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          token_hash TEXT NOT NULL UNIQUE,
+          expires_at TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          consumed_at TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 19,
+    name: "password reset tokens",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE password_reset_tokens (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          token_hash TEXT NOT NULL UNIQUE,
+          expires_at TEXT NOT NULL,
+          used_at TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX password_reset_tokens_user ON password_reset_tokens(user_id);
+      `);
+    },
+  },
+  {
+    version: 20,
+    name: "email verification",
+    up: (sqlite) => {
+      sqlite.exec(`
+        -- Not backfilled: existing users confirm their address through a resent link too
+        ALTER TABLE users ADD COLUMN email_verified_at TEXT;
+
+        CREATE TABLE email_verification_tokens (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          token_hash TEXT NOT NULL UNIQUE,
+          -- ISO timestamp, compared against when throttling resends
+          sent_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          used_at TEXT
+        );
+
+        CREATE INDEX email_verification_tokens_user ON email_verification_tokens(user_id, sent_at);
+      `);
+    },
+  },
+  {
+    version: 21,
+    name: "session device metadata",
+    up: (sqlite) => {
+      sqlite.exec(`
+        ALTER TABLE sessions ADD COLUMN user_agent TEXT;
+        ALTER TABLE sessions ADD COLUMN ip_address TEXT;
+        ALTER TABLE sessions ADD COLUMN last_seen_at TEXT;
+
+        CREATE INDEX sessions_user ON sessions(user_id);
+      `);
+    },
+  },
+  {
+    version: 22,
+    name: "refresh token rotation",
+    up: (sqlite) => {
+      sqlite.exec(`
+        -- Every refresh token a session has been issued. Only the newest one is unrotated;
+        -- presenting an older one again means it leaked, and the whole session is revoked.
+        CREATE TABLE refresh_tokens (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+          token_hash TEXT NOT NULL UNIQUE,
+          issued_at TEXT NOT NULL,
+          rotated_at TEXT
+        );
+
+        CREATE INDEX refresh_tokens_session ON refresh_tokens(session_id);
+
+        -- Sessions from before rotation have no refresh token and would end abruptly when their
+        -- seven-day token expired anyway; end them now so everyone gets a refreshable session.
+        DELETE FROM sessions;
+      `);
+    },
+  },
+  {
+    version: 23,
+    name: "idempotency key reservations",
+    up: (sqlite) => {
+      // SQLite can't relax NOT NULL in place, so the table is rebuilt with a nullable response
+      sqlite.exec(`
+        CREATE TABLE idempotency_keys_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          key TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          fingerprint TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('pending', 'completed')),
+          response TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (user_id, key),
+          CHECK ((status = 'completed') = (response IS NOT NULL))
+        );
+
+        INSERT INTO idempotency_keys_new (id, user_id, key, scope, fingerprint, status, response, created_at)
+          SELECT id, user_id, key, scope, fingerprint, 'completed', response, created_at FROM idempotency_keys;
+
+        DROP TABLE idempotency_keys;
+        ALTER TABLE idempotency_keys_new RENAME TO idempotency_keys;
+      `);
+    },
+  },
+  {
+    version: 24,
+    name: "pending scheduled transfer runs",
+    up: (sqlite) => {
+      // Rebuilt to allow the pending status a run is claimed with before its money moves
+      sqlite.exec(`
+        CREATE TABLE scheduled_transfer_runs_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          scheduled_transfer_id INTEGER NOT NULL REFERENCES scheduled_transfers(id),
+          occurrence INTEGER NOT NULL,
+          scheduled_for TEXT NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed')),
+          transaction_id INTEGER REFERENCES transactions(id),
+          processor_reference TEXT,
+          error TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (scheduled_transfer_id, occurrence)
+        );
+
+        INSERT INTO scheduled_transfer_runs_new
+            (id, scheduled_transfer_id, occurrence, scheduled_for, status, transaction_id, error, created_at)
+          SELECT id, scheduled_transfer_id, occurrence, scheduled_for, status, transaction_id, error, created_at
+          FROM scheduled_transfer_runs;
+
+        DROP TABLE scheduled_transfer_runs;
+        ALTER TABLE scheduled_transfer_runs_new RENAME TO scheduled_transfer_runs;
+      `);
+    },
+  },
+  {
+    version: 25,
+    name: "drop raw bank details from fraud decisions",
+    up: (sqlite) => {
+      sqlite.exec(`
+        -- Deposits held with typed-in bank details predate bank verification; they can only be rejected
+        UPDATE transactions SET status = 'failed', processed_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+          WHERE id IN (
+            SELECT transaction_id FROM fraud_decisions
+            WHERE review_outcome IS NULL AND funding_account_number IS NOT NULL
+          );
+        UPDATE fraud_decisions
+          SET review_outcome = 'rejected', reviewed_by = 'unverified bank account',
+            reviewed_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+          WHERE review_outcome IS NULL AND funding_account_number IS NOT NULL;
+
+        ALTER TABLE fraud_decisions DROP COLUMN funding_routing_number;
+        ALTER TABLE fraud_decisions DROP COLUMN funding_account_number;
+      `);
+    },
+  },
+  {
+    version: 26,
+    name: "scheduled deposits from funding sources",
+    up: (sqlite) => {
+      sqlite.exec(`
+        -- Deposits from typed-in bank details were never verified with micro-deposits; they end
+        -- here and the customer schedules them again from a linked bank account
+        UPDATE scheduled_transfers SET status = 'cancelled', next_run_at = NULL
+          WHERE kind = 'deposit' AND status IN ('active', 'paused');
+
+        ALTER TABLE scheduled_transfers
+          ADD COLUMN funding_source_id INTEGER REFERENCES funding_sources(id) ON DELETE SET NULL;
+        ALTER TABLE scheduled_transfers DROP COLUMN funding_routing_number;
+        ALTER TABLE scheduled_transfers DROP COLUMN funding_account_number;
+      `);
+    },
+  },
+  {
+    version: 27,
+    name: "password reset rate limits",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE password_reset_requests (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          email_fingerprint TEXT NOT NULL,
+          ip_address TEXT,
+          requested_at TEXT NOT NULL
+        );
+
+        CREATE INDEX password_reset_requests_email ON password_reset_requests(email_fingerprint, requested_at);
+        CREATE INDEX password_reset_requests_ip ON password_reset_requests(ip_address, requested_at);
+      `);
+    },
+  },
+  {
+    version: 28,
+    name: "failed idempotency keys",
+    up: (sqlite) => {
+      // Rebuilt to allow the failed status, kept for a request that broke after its money moved
+      sqlite.exec(`
+        CREATE TABLE idempotency_keys_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          key TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          fingerprint TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'failed')),
+          response TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (user_id, key),
+          CHECK ((status = 'pending') = (response IS NULL))
+        );
+
+        INSERT INTO idempotency_keys_new (id, user_id, key, scope, fingerprint, status, response, created_at)
+          SELECT id, user_id, key, scope, fingerprint, status, response, created_at FROM idempotency_keys;
+
+        DROP TABLE idempotency_keys;
+        ALTER TABLE idempotency_keys_new RENAME TO idempotency_keys;
+      `);
+    },
+  },
+  {
+    version: 29,
+    name: "second factor failures",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE second_factor_failures (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          failed_at TEXT NOT NULL
+        );
+
+        CREATE INDEX second_factor_failures_user ON second_factor_failures(user_id, failed_at);
+      `);
+    },
+  },
+  {
+    version: 30,
+    name: "bank fingerprints include the routing number",
+    up: (sqlite) => {
+      sqlite.exec(`
+        -- Bank fingerprints now cover the routing number as well as the account number. The numbers
+        -- behind existing ones were never stored, so they can't be recomputed; those bank accounts
+        -- are linked again, which fingerprints them the new way
+        UPDATE funding_sources SET verification_status = 'failed' WHERE type = 'bank';
+      `);
+    },
+  },
+  {
+    version: 31,
+    name: "funding sources start unverified",
+    up: (sqlite) => {
+      sqlite.exec(`
+        -- A source that is never explicitly verified stays unusable; adding a card marks it verified.
+        -- A column default can only change by rebuilding the table. Existing sources keep the status
+        -- they have, which is copied across rather than defaulted. Dropping the old table clears
+        -- scheduled deposits' references to it (ON DELETE SET NULL), so they are put back after.
+        CREATE TEMP TABLE scheduled_funding_sources AS
+          SELECT id, funding_source_id FROM scheduled_transfers WHERE funding_source_id IS NOT NULL;
+
+        CREATE TABLE funding_sources_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL REFERENCES users(id),
+          type TEXT NOT NULL CHECK (type IN ('card', 'bank')),
+          token TEXT NOT NULL,
+          last4 TEXT NOT NULL,
+          brand TEXT,
+          routing_number TEXT,
+          fingerprint TEXT NOT NULL,
+          nickname TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          verification_status TEXT NOT NULL DEFAULT 'pending'
+            CHECK (verification_status IN ('pending', 'verified', 'failed')),
+          micro_deposit_1_cents INTEGER,
+          micro_deposit_2_cents INTEGER,
+          verification_attempts INTEGER NOT NULL DEFAULT 0,
+          verified_at TEXT,
+          UNIQUE (user_id, fingerprint)
+        );
+
+        INSERT INTO funding_sources_new (
+          id, user_id, type, token, last4, brand, routing_number, fingerprint, nickname, created_at,
+          verification_status, micro_deposit_1_cents, micro_deposit_2_cents, verification_attempts, verified_at
+        )
+          SELECT id, user_id, type, token, last4, brand, routing_number, fingerprint, nickname, created_at,
+            verification_status, micro_deposit_1_cents, micro_deposit_2_cents, verification_attempts, verified_at
+          FROM funding_sources;
+
+        DROP TABLE funding_sources;
+        ALTER TABLE funding_sources_new RENAME TO funding_sources;
+
+        UPDATE scheduled_transfers
+          SET funding_source_id = (
+            SELECT funding_source_id FROM scheduled_funding_sources WHERE scheduled_funding_sources.id = scheduled_transfers.id
+          )
+          WHERE id IN (SELECT id FROM scheduled_funding_sources);
+        DROP TABLE scheduled_funding_sources;
+      `);
+    },
+  },
+  {
+    version: 32,
+    name: "statements can't be deleted",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TRIGGER statements_undeletable BEFORE DELETE ON statements
+        BEGIN
+          SELECT RAISE(ABORT, 'statements are immutable');
+        END;
+      `);
+    },
+  },
+];
+
+export function runMigrations(sqlite: Database.Database) {
+  const currentVersion = sqlite.pragma("user_version", { simple: true }) as number;
+
+  for (const migration of migrations) {
+    if (migration.version <= currentVersion) continue;
+
+    sqlite.transaction(() => {
+      migration.up(sqlite);
+      sqlite.pragma(`user_version = ${migration.version}`);
+    })();
+  }
+}
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, unique, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
 import { sql } from "drizzle-orm";
 
 export const users = sqliteTable("users", {
@@ -14,6 +14,11 @@ export const users = sqliteTable("users", {
   city: text("city").notNull(),
   state: text("state").notNull(),
   zipCode: text("zip_code").notNull(),
+  role: text("role").default("customer").notNull(), // customer, staff
+  totpSecret: text("totp_secret"), // encrypted; only in use once totpEnabledAt is set
+  totpEnabledAt: text("totp_enabled_at"),
+  totpLastStep: integer("totp_last_step"),
+  emailVerifiedAt: text("email_verified_at"), // money can't move until this is set
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
@@ -24,8 +29,11 @@ export const accounts = sqliteTable("accounts", {
     .notNull(),
   accountNumber: text("account_number").unique().notNull(),
   accountType: text("account_type").notNull(), // checking, savings
-  balance: real("balance").default(0).notNull(),
-  status: text("status").default("pending"),
+  nickname: text("nickname"), // customer's name for the account, e.g. "Emergency fund"
+  balanceCents: integer("balance_cents").default(0).notNull(),
+  status: text("status").default("pending").notNull(), // pending, active, frozen, dormant, closed
+  statusReason: text("status_reason"), // reason code of the last status change
+  statusChangedAt: text("status_changed_at"),
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
@@ -34,12 +42,40 @@ export const transactions = sqliteTable("transactions", {
   accountId: integer("account_id")
     .references(() => accounts.id)
     .notNull(),
-  type: text("type").notNull(), // deposit, withdrawal
-  amount: real("amount").notNull(),
+  // deposit, withdrawal, transfer_in, transfer_out, payment_sent, payment_received, interest
+  type: text("type").notNull(),
+  amountCents: integer("amount_cents").notNull(),
   description: text("description"),
+  // pending, settled, completed, failed, returned
   status: text("status").default("pending").notNull(),
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
   processedAt: text("processed_at"),
+  fundingSourceType: text("funding_source_type"), // card, bank (deposits only)
+  processorReference: text("processor_reference"), // authorization or ACH trace from the settlement processor
+  returnCode: text("return_code"), // NACHA return code when an ACH debit fails or is returned
+  // Earliest time a pending transaction may be completed (ISO string)
+  settleAfter: text("settle_after"),
+  // Other half of a transfer pair (debit <-> credit)
+  linkedTransactionId: integer("linked_transaction_id").references((): AnySQLiteColumn => transactions.id),
+});
+
+export const journalEntries = sqliteTable("journal_entries", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  description: text("description").notNull(),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const ledgerPostings = sqliteTable("ledger_postings", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  journalEntryId: integer("journal_entry_id")
+    .references(() => journalEntries.id)
+    .notNull(),
+  // Exactly one of accountId (customer account) or internalAccount (bank clearing account) is set
+  accountId: integer("account_id").references(() => accounts.id),
+  internalAccount: text("internal_account"),
+  transactionId: integer("transaction_id").references(() => transactions.id),
+  direction: text("direction").notNull(), // debit, credit
+  amountCents: integer("amount_cents").notNull(),
 });
 
 export const sessions = sqliteTable("sessions", {
@@ -47,7 +83,267 @@ export const sessions = sqliteTable("sessions", {
   userId: integer("user_id")
     .references(() => users.id)
     .notNull(),
-  token: text("token").unique().notNull(),
+  token: text("token").unique().notNull(), // current access token; replaced on every refresh
+  expiresAt: text("expires_at").notNull(), // absolute timeout; refreshing never extends it
+  // The device that signed in, for the session list in security settings
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  lastSeenAt: text("last_seen_at"), // refreshed at most once a minute
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Rotating refresh tokens for a session (its "token family"); only a keyed hash is kept
+export const refreshTokens = sqliteTable("refresh_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  sessionId: integer("session_id")
+    .references(() => sessions.id, { onDelete: "cascade" })
+    .notNull(),
+  tokenHash: text("token_hash").unique().notNull(),
+  issuedAt: text("issued_at").notNull(),
+  rotatedAt: text("rotated_at"), // set once exchanged for a new one
+});
+
+// One-time codes for signing in without the authenticator app; only a keyed hash is kept
+export const recoveryCodes = sqliteTable("recovery_codes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: text("used_at"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Second step of a two-factor login: issued after the password check, traded for a session
+export const loginChallenges = sqliteTable("login_challenges", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  tokenHash: text("token_hash").unique().notNull(),
+  expiresAt: text("expires_at").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  consumedAt: text("consumed_at"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Wrong second-factor codes, across every login challenge, for the per-user lockout
+export const secondFactorFailures = sqliteTable("second_factor_failures", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  failedAt: text("failed_at").notNull(),
+});
+
+// Single-use "forgot password" links; only a keyed hash of the emailed token is kept
+export const passwordResetTokens = sqliteTable("password_reset_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  tokenHash: text("token_hash").unique().notNull(),
   expiresAt: text("expires_at").notNull(),
+  usedAt: text("used_at"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Recent reset requests, for rate limiting. Kept for unknown addresses too, so the limit can't
+// tell anyone which emails have accounts; the address is stored only as a fingerprint.
+export const passwordResetRequests = sqliteTable("password_reset_requests", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  emailFingerprint: text("email_fingerprint").notNull(),
+  ipAddress: text("ip_address"),
+  requestedAt: text("requested_at").notNull(),
+});
+
+// Links emailed to prove a user owns their address; sentAt also drives resend throttling
+export const emailVerificationTokens = sqliteTable("email_verification_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  tokenHash: text("token_hash").unique().notNull(),
+  sentAt: text("sent_at").notNull(),
+  expiresAt: text("expires_at").notNull(),
+  usedAt: text("used_at"),
+});
+
+export const idempotencyKeys = sqliteTable(
+  "idempotency_keys",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    key: text("key").notNull(),
+    scope: text("scope").notNull(), // procedure the key was first used with
+    fingerprint: text("fingerprint").notNull(), // HMAC-SHA256 of the request payload
+    // pending while a request holding the key is in flight (see reserveIdempotencyKey), then
+    // completed, or failed if it broke after its money moved
+    status: text("status").default("completed").notNull(),
+    response: text("response"), // JSON of the original result, or of the error once failed
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [unique().on(table.userId, table.key)]
+);
+
+export const scheduledTransfers = sqliteTable("scheduled_transfers", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  kind: text("kind").notNull(), // deposit (from an external bank), transfer (between own accounts)
+  fromAccountId: integer("from_account_id").references(() => accounts.id), // transfers only
+  toAccountId: integer("to_account_id")
+    .references(() => accounts.id)
+    .notNull(),
+  amountCents: integer("amount_cents").notNull(),
+  // Verified bank funding source deposits pull from; cleared if the customer removes it
+  fundingSourceId: integer("funding_source_id").references(() => fundingSources.id, { onDelete: "set null" }),
+  fundingAccountLast4: text("funding_account_last4"),
+  frequency: text("frequency").notNull(), // once, weekly, monthly
+  startAt: text("start_at").notNull(),
+  // Occurrences already processed; the next one is derived from startAt, frequency and this count
+  runCount: integer("run_count").default(0).notNull(),
+  nextRunAt: text("next_run_at"),
+  status: text("status").default("active").notNull(), // active, paused, cancelled, completed
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const scheduledTransferRuns = sqliteTable(
+  "scheduled_transfer_runs",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    scheduledTransferId: integer("scheduled_transfer_id")
+      .references(() => scheduledTransfers.id)
+      .notNull(),
+    occurrence: integer("occurrence").notNull(),
+    scheduledFor: text("scheduled_for").notNull(),
+    status: text("status").notNull(), // pending (claimed, in progress), succeeded, failed
+    transactionId: integer("transaction_id").references(() => transactions.id),
+    processorReference: text("processor_reference"), // ACH trace for deposits, set as soon as it is submitted
+    error: text("error"),
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [unique().on(table.scheduledTransferId, table.occurrence)]
+);
+
+export const interestAccruals = sqliteTable(
+  "interest_accruals",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountId: integer("account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    accrualDate: text("accrual_date").notNull(), // UTC day (YYYY-MM-DD) the balance was held
+    balanceCents: integer("balance_cents").notNull(), // end-of-day balance
+    apyBps: integer("apy_bps").notNull(),
+    // Millionths of a cent, so daily accruals on small balances are not lost to rounding
+    amountMicroCents: integer("amount_micro_cents").notNull(),
+    transactionId: integer("transaction_id").references(() => transactions.id), // monthly interest credit
+    creditedAt: text("credited_at"),
+  },
+  (table) => [unique().on(table.accountId, table.accrualDate)]
+);
+
+// Issued once per account and calendar month and never updated (enforced by a trigger)
+export const statements = sqliteTable(
+  "statements",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountId: integer("account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    period: text("period").notNull(), // YYYY-MM
+    openingBalanceCents: integer("opening_balance_cents").notNull(),
+    closingBalanceCents: integer("closing_balance_cents").notNull(),
+    totalCreditsCents: integer("total_credits_cents").notNull(),
+    totalDebitsCents: integer("total_debits_cents").notNull(),
+    lineItems: text("line_items").notNull(), // JSON array of StatementLine
+    generatedAt: text("generated_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [unique().on(table.accountId, table.period)]
+);
+
+// Accounts whose cached balance disagreed with their posted transactions during reconciliation
+export const balanceDiscrepancies = sqliteTable("balance_discrepancies", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  accountId: integer("account_id")
+    .references(() => accounts.id)
+    .notNull(),
+  balanceCents: integer("balance_cents").notNull(), // cached accounts.balance_cents
+  ledgerBalanceCents: integer("ledger_balance_cents").notNull(),
+  expectedBalanceCents: integer("expected_balance_cents").notNull(), // from posted transactions
+  differenceCents: integer("difference_cents").notNull(), // balance - expected
+  status: text("status").default("open").notNull(), // open, repaired, resolved
+  detectedAt: text("detected_at").notNull(),
+  lastCheckedAt: text("last_checked_at").notNull(),
+  resolvedAt: text("resolved_at"),
+  approvedBy: text("approved_by"), // operator who approved a repair
+  journalEntryId: integer("journal_entry_id").references(() => journalEntries.id), // adjusting entry
+});
+
+// Outcome of screening a funding request, with the rules that fired
+export const fraudDecisions = sqliteTable("fraud_decisions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  accountId: integer("account_id")
+    .references(() => accounts.id)
+    .notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id), // none when blocked
+  amountCents: integer("amount_cents").notNull(),
+  fundingSourceType: text("funding_source_type").notNull(), // card, bank
+  fundingFingerprint: text("funding_fingerprint").notNull(), // HMAC of the card or bank account number
+  // Saved bank source's processor token for a held deposit, kept only until the review submits or drops it
+  fundingToken: text("funding_token"),
+  score: integer("score").notNull(),
+  decision: text("decision").notNull(), // allow, review, block
+  rules: text("rules").notNull(), // JSON array of FiredRule
+  reviewOutcome: text("review_outcome"), // approved, rejected
+  reviewedBy: text("reviewed_by"),
+  reviewedAt: text("reviewed_at"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+// A customer's saved card or bank account. The processor holds the number; we keep its token.
+export const fundingSources = sqliteTable(
+  "funding_sources",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id")
+      .references(() => users.id)
+      .notNull(),
+    type: text("type").notNull(), // card, bank
+    token: text("token").notNull(),
+    last4: text("last4").notNull(),
+    brand: text("brand"), // card network, from detectCardType
+    routingNumber: text("routing_number"), // bank only
+    fingerprint: text("fingerprint").notNull(), // same HMAC fraud screening uses
+    nickname: text("nickname").notNull(),
+    // Bank accounts are pending until the customer confirms both micro-deposits; cards are verified
+    verificationStatus: text("verification_status").default("pending").notNull(), // pending, verified, failed
+    microDeposit1Cents: integer("micro_deposit_1_cents"),
+    microDeposit2Cents: integer("micro_deposit_2_cents"),
+    verificationAttempts: integer("verification_attempts").default(0).notNull(),
+    verifiedAt: text("verified_at"),
+    createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => [unique().on(table.userId, table.fingerprint)]
+);
+
+// Every account status transition, with why it happened and who made it (none for system jobs)
+export const accountStatusChanges = sqliteTable("account_status_changes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  accountId: integer("account_id")
+    .references(() => accounts.id)
+    .notNull(),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  reasonCode: text("reason_code").notNull(),
+  note: text("note"),
+  changedBy: integer("changed_by").references(() => users.id),
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
 });
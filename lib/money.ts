@@ -0,0 +1,50 @@
+// Money is stored and computed as an integer number of cents. Dollars only exist at the
+// edges: parsing user input and formatting for display.
+export type Cents = number;
+
+// Validation message for dollar inputs that fail Money.isWholeCents
+export const WHOLE_CENTS_MESSAGE = "Amount cannot include fractions of a cent";
+
+const usdFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+});
+
+function assertCents(value: number): Cents {
+  if (!Number.isSafeInteger(value)) {
+    throw new RangeError(`Expected an integer number of cents, got ${value}`);
+  }
+  return value;
+}
+
+export const Money = {
+  // Converts a dollar amount (e.g. form input) to cents, rounding to the nearest cent
+  fromDollars(dollars: number): Cents {
+    return assertCents(Math.round(dollars * 100));
+  },
+
+  toDollars(cents: Cents): number {
+    return assertCents(cents) / 100;
+  },
+
+  // True when a dollar amount has no fractional cents (1.05 yes, 1.005 no)
+  isWholeCents(dollars: number): boolean {
+    return Math.abs(dollars * 100 - Math.round(dollars * 100)) < 1e-6;
+  },
+
+  add(a: Cents, b: Cents): Cents {
+    return assertCents(assertCents(a) + assertCents(b));
+  },
+
+  subtract(a: Cents, b: Cents): Cents {
+    return assertCents(assertCents(a) - assertCents(b));
+  },
+
+  sum(values: Cents[]): Cents {
+    return values.reduce<Cents>((total, value) => Money.add(total, value), 0);
+  },
+
+  format(cents: Cents): string {
+    return usdFormatter.format(assertCents(cents) / 100);
+  },
+};
@@ -0,0 +1,38 @@
+// ABA routing transit numbers. Shared by the funding forms and the server so both reject the
+// same numbers before the bank directory is consulted.
+
+// First two digits: 00 US Government, 01-12 Federal Reserve districts, 21-32 thrifts,
+// 61-72 electronic transactions, 80 traveler's cheques
+const FEDERAL_RESERVE_PREFIXES: [number, number][] = [
+  [0, 12],
+  [21, 32],
+  [61, 72],
+  [80, 80],
+];
+
+const CHECKSUM_WEIGHTS = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+
+export function hasValidRoutingPrefix(routingNumber: string): boolean {
+  const prefix = Number(routingNumber.slice(0, 2));
+  return FEDERAL_RESERVE_PREFIXES.some(([low, high]) => prefix >= low && prefix <= high);
+}
+
+// 3-7-1 weighted sum of the nine digits must be a multiple of 10
+export function hasValidRoutingChecksum(routingNumber: string): boolean {
+  const sum = CHECKSUM_WEIGHTS.reduce((total, weight, i) => total + weight * Number(routingNumber[i]), 0);
+  return sum % 10 === 0;
+}
+
+// Why a routing number can't be right, or null when it passes every offline check
+export function routingNumberError(routingNumber: string | undefined): string | null {
+  if (!routingNumber || !/^\d{9}$/.test(routingNumber)) {
+    return "A valid 9-digit routing number is required for bank transfers";
+  }
+  if (!hasValidRoutingPrefix(routingNumber)) {
+    return "This is not a US bank routing number";
+  }
+  if (!hasValidRoutingChecksum(routingNumber)) {
+    return "Invalid routing number. Please check and try again.";
+  }
+  return null;
+}
@@ -0,0 +1,33 @@
+// Transaction types that add money to the account they are posted on
+const CREDIT_TRANSACTION_TYPES = new Set(["deposit", "transfer_in", "payment_received", "interest"]);
+
+export const TRANSACTION_TYPE_LABELS: Record<string, string> = {
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  transfer_in: "Transfer In",
+  transfer_out: "Transfer Out",
+  payment_sent: "Payment Sent",
+  payment_received: "Payment Received",
+  interest: "Interest",
+};
+
+export function isCreditTransaction(type: string): boolean {
+  return CREDIT_TRANSACTION_TYPES.has(type);
+}
+
+export function formatTransactionType(type: string): string {
+  return TRANSACTION_TYPE_LABELS[type] ?? type;
+}
+
+export const TRANSACTION_STATUSES = ["pending", "settled", "completed", "failed", "returned"];
+
+// Statuses whose amount has been applied to the account balance
+export const POSTED_TRANSACTION_STATUSES = ["completed", "settled"];
+const POSTED_STATUSES = new Set(POSTED_TRANSACTION_STATUSES);
+const UNSUCCESSFUL_STATUSES = new Set(["failed", "returned"]);
+
+export function getStatusTone(status: string): "posted" | "pending" | "unsuccessful" {
+  if (POSTED_STATUSES.has(status)) return "posted";
+  if (UNSUCCESSFUL_STATUSES.has(status)) return "unsuccessful";
+  return "pending";
+}
@@ -0,0 +1,60 @@
+import { TRPCClientError, type TRPCLink } from "@trpc/client";
+import { observable } from "@trpc/server/observable";
+import type { AppRouter } from "@/server/routers";
+
+let refreshing: Promise<boolean> | null = null;
+
+// One refresh at a time: every request that failed while it was in flight waits for it
+function refreshSession(url: string): Promise<boolean> {
+  refreshing ??= fetch(`${url}/auth.refreshSession`, {
+    method: "POST",
+    credentials: "same-origin",
+    headers: { "content-type": "application/json" },
+  })
+    .then((response) => response.ok)
+    .catch(() => false)
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+// Procedures whose UNAUTHORIZED errors are about the credentials sent, not a lapsed access
+// token. Other auth procedures (resending the verification email, say) refresh like any other.
+const CREDENTIAL_PROCEDURES = new Set([
+  "auth.signup",
+  "auth.login",
+  "auth.verifyTwoFactor",
+  "auth.requestPasswordReset",
+  "auth.resetPassword",
+  "auth.refreshSession",
+  "auth.logout",
+]);
+
+// Access tokens are short-lived. When a request comes back UNAUTHORIZED, trade the refresh
+// token cookie for new cookies and retry it once, so active users aren't signed out.
+export function refreshLink(url: string): TRPCLink<AppRouter> {
+  return () =>
+    ({ next, op }) =>
+      observable((observer) => {
+        let subscription: { unsubscribe(): void } | undefined;
+
+        const attempt = (retried: boolean) => {
+          subscription = next(op).subscribe({
+            next: (result) => observer.next(result),
+            error: async (error) => {
+              const unauthorized = error instanceof TRPCClientError && error.data?.code === "UNAUTHORIZED";
+              if (!retried && unauthorized && !CREDENTIAL_PROCEDURES.has(op.path) && (await refreshSession(url))) {
+                attempt(true);
+                return;
+              }
+              observer.error(error);
+            },
+            complete: () => observer.complete(),
+          });
+        };
+        attempt(false);
+
+        return () => subscription?.unsubscribe();
+      });
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import { useRef } from "react";
+
+// Returns a key for a money-moving submission. Resubmitting the same payload (e.g. after a
+// network error) reuses the key so the server replays the first result instead of posting
+// twice; any change to the payload starts a new submission with a fresh key.
+export function useIdempotencyKey() {
+  const lastSubmission = useRef<{ payload: string; key: string } | null>(null);
+
+  return (payload: unknown): string => {
+    const serialized = JSON.stringify(payload);
+    if (!lastSubmission.current || lastSubmission.current.payload !== serialized) {
+      lastSubmission.current = { payload: serialized, key: crypto.randomUUID() };
+    }
+    return lastSubmission.current.key;
+  };
+}
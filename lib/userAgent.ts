@@ -0,0 +1,26 @@
+// Rough "Browser on OS" label for a user agent string, good enough to tell devices apart in the
+// session list. Order matters: Edge and Opera also claim to be Chrome, and Chrome claims Safari.
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["OPR/", "Opera"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "Unknown browser";
+
+  const os =
+    [
+      ["iPhone", "iPhone"],
+      ["iPad", "iPad"],
+      ["Android", "Android"],
+      ["Windows", "Windows"],
+      ["Mac OS X", "macOS"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "unknown system";
+
+  return `${browser} on ${os}`;
+}
@@ -21,7 +21,7 @@ if (command === "list-users") {
   const sessions = db
     .prepare(
       `
-    SELECT s.id, s.token, s.expires_at, u.email 
+    SELECT s.id, s.token, s.expires_at, s.user_agent, s.ip_address, s.last_seen_at, u.email 
     FROM sessions s 
     JOIN users u ON s.user_id = u.id
   `
@@ -34,13 +34,35 @@ if (command === "list-users") {
       const isExpired = new Date(session.expires_at) < new Date();
       console.log(`User: ${session.email}, Expires: ${session.expires_at} ${isExpired ? "(EXPIRED)" : "(ACTIVE)"}`);
       console.log(`Token: ${session.token.substring(0, 20)}...`);
+      console.log(`Device: ${session.user_agent ?? "unknown"} from ${session.ip_address ?? "unknown"}, last seen ${session.last_seen_at ?? "never"}`);
       console.log("---");
     });
   }
 } else if (command === "clear") {
   console.log("\n=== Clearing Database ===");
   db.exec("DELETE FROM sessions");
+  db.exec("DELETE FROM login_challenges");
+  db.exec("DELETE FROM second_factor_failures");
+  db.exec("DELETE FROM recovery_codes");
+  db.exec("DELETE FROM password_reset_tokens");
+  db.exec("DELETE FROM password_reset_requests");
+  db.exec("DELETE FROM email_verification_tokens");
+  db.exec("DELETE FROM scheduled_transfer_runs");
+  db.exec("DELETE FROM scheduled_transfers");
+  db.exec("DELETE FROM idempotency_keys");
+  db.exec("DELETE FROM interest_accruals");
+  // Statements can't be deleted in normal operation; a full wipe sets that guard aside
+  const statementGuard = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'trigger' AND name = 'statements_undeletable'").get();
+  db.exec("DROP TRIGGER IF EXISTS statements_undeletable");
+  db.exec("DELETE FROM statements");
+  if (statementGuard) db.exec(statementGuard.sql);
+  db.exec("DELETE FROM balance_discrepancies");
+  db.exec("DELETE FROM fraud_decisions");
+  db.exec("DELETE FROM funding_sources");
+  db.exec("DELETE FROM ledger_postings");
+  db.exec("DELETE FROM journal_entries");
   db.exec("DELETE FROM transactions");
+  db.exec("DELETE FROM account_status_changes");
   db.exec("DELETE FROM accounts");
   db.exec("DELETE FROM users");
   console.log("Database cleared!");
@@ -50,16 +72,67 @@ if (command === "list-users") {
     console.log("Please provide an email: npm run db:delete-user <email>");
   } else {
     const user = db.prepare("SELECT id FROM users WHERE email = ?").get(email);
-    if (user) {
-      db.exec(`DELETE FROM sessions WHERE user_id = ${user.id}`);
-      db.exec(`DELETE FROM transactions WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
-      db.exec(`DELETE FROM accounts WHERE user_id = ${user.id}`);
-      db.exec(`DELETE FROM users WHERE id = ${user.id}`);
-      console.log(`User ${email} and all related data deleted!`);
-    } else {
+    // Posted money movements are the bank's records and may be half of another customer's
+    // journal entry, so a user with any can't be deleted; close their accounts instead. Issued
+    // statements are kept for the same reason.
+    const ledgerHistory =
+      user &&
+      db
+        .prepare(
+          "SELECT COUNT(*) AS postings FROM ledger_postings WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ?)"
+        )
+        .get(user.id).postings;
+    const issuedStatements =
+      user &&
+      db
+        .prepare("SELECT COUNT(*) AS statements FROM statements WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ?)")
+        .get(user.id).statements;
+    if (!user) {
       console.log(`User ${email} not found`);
+    } else if (ledgerHistory > 0) {
+      console.log(`User ${email} has ledger history (${ledgerHistory} postings) and can't be deleted`);
+    } else if (issuedStatements > 0) {
+      console.log(`User ${email} has been issued statements (${issuedStatements}) and can't be deleted`);
+    } else {
+      // All or nothing, so a failure can't leave the user half deleted
+      db.transaction(() => {
+        db.exec(`DELETE FROM sessions WHERE user_id = ${user.id}`);
+        db.exec(`DELETE FROM login_challenges WHERE user_id = ${user.id}`);
+        db.exec(`DELETE FROM second_factor_failures WHERE user_id = ${user.id}`);
+        db.exec(`DELETE FROM recovery_codes WHERE user_id = ${user.id}`);
+        db.exec(`DELETE FROM password_reset_tokens WHERE user_id = ${user.id}`);
+        db.exec(`DELETE FROM email_verification_tokens WHERE user_id = ${user.id}`);
+        db.exec(
+          `DELETE FROM scheduled_transfer_runs WHERE scheduled_transfer_id IN (SELECT id FROM scheduled_transfers WHERE user_id = ${user.id})`
+        );
+        db.exec(`DELETE FROM scheduled_transfers WHERE user_id = ${user.id}`);
+        db.exec(`DELETE FROM idempotency_keys WHERE user_id = ${user.id}`);
+        db.exec(`DELETE FROM interest_accruals WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
+        db.exec(`DELETE FROM balance_discrepancies WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
+        db.exec(`DELETE FROM fraud_decisions WHERE user_id = ${user.id}`);
+        db.exec(`DELETE FROM funding_sources WHERE user_id = ${user.id}`);
+        // Other customers' transactions may point at this user's as their other half
+        db.exec(
+          `UPDATE transactions SET linked_transaction_id = NULL WHERE linked_transaction_id IN (SELECT t.id FROM transactions t JOIN accounts a ON t.account_id = a.id WHERE a.user_id = ${user.id})`
+        );
+        db.exec(`DELETE FROM transactions WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
+        db.exec(`DELETE FROM account_status_changes WHERE account_id IN (SELECT id FROM accounts WHERE user_id = ${user.id})`);
+        // Keep the audit trail of changes a staff member made to other customers' accounts
+        db.exec(`UPDATE account_status_changes SET changed_by = NULL WHERE changed_by = ${user.id}`);
+        db.exec(`DELETE FROM accounts WHERE user_id = ${user.id}`);
+        db.exec(`DELETE FROM users WHERE id = ${user.id}`);
+      })();
+      console.log(`User ${email} and all related data deleted!`);
     }
   }
+} else if (command === "grant-staff") {
+  const email = process.argv[3];
+  if (!email) {
+    console.log("Please provide an email: npm run db:grant-staff <email>");
+  } else {
+    const result = db.prepare("UPDATE users SET role = 'staff' WHERE email = ?").run(email);
+    console.log(result.changes > 0 ? `${email} is now staff` : `User ${email} not found`);
+  }
 } else {
   console.log(`
 Database Utilities
@@ -70,12 +143,14 @@ Commands:
   npm run db:list-sessions  - List all sessions
   npm run db:clear          - Clear all data
   npm run db:delete-user    - Delete a specific user by email
+  npm run db:grant-staff    - Give a user the staff role by email
 
 Examples:
   npm run db:list-users
   npm run db:list-sessions
   npm run db:clear
   npm run db:delete-user test@example.com
+  npm run db:grant-staff staff@example.com
   `);
 }
 
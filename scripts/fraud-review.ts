@@ -0,0 +1,51 @@
+// Deposits held by fraud screening, and approving or rejecting them.
+//
+//   npm run fraud-review
+//   npm run fraud-review -- --approve 12 --reviewer "Jane Smith"
+//   npm run fraud-review -- --reject 12 --reviewer "Jane Smith"
+import { Money } from "@/lib/money";
+import { listPendingReviews, resolveFraudReview, type FiredRule } from "@/server/services/fraud";
+
+const args = process.argv.slice(2);
+const flag = (name: string) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+async function main() {
+  const approveId = flag("--approve");
+  const rejectId = flag("--reject");
+  const reviewer = flag("--reviewer") ?? "";
+
+  if (approveId || rejectId) {
+    if (!reviewer.trim()) {
+      console.error('Reviews need a reviewer: npm run fraud-review -- --approve <id> --reviewer "<name>"');
+      process.exit(1);
+    }
+
+    const decision = await resolveFraudReview(Number(approveId ?? rejectId), approveId ? "approved" : "rejected", reviewer);
+    console.log(`Decision #${decision.id} ${decision.reviewOutcome} by ${decision.reviewedBy}`);
+    return;
+  }
+
+  const pending = listPendingReviews();
+  console.log(`\n=== Deposits Held for Review ===`);
+  if (pending.length === 0) {
+    console.log("Nothing to review");
+    return;
+  }
+
+  for (const decision of pending) {
+    const rules = (JSON.parse(decision.rules) as FiredRule[]).map((fired) => `${fired.rule} (+${fired.score})`);
+    console.log(
+      `#${decision.id} user ${decision.userId}, account ${decision.accountId}: ` +
+        `${Money.format(decision.amountCents)} by ${decision.fundingSourceType}, score ${decision.score}, ${decision.createdAt}`
+    );
+    console.log(`  ${rules.join(", ")}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
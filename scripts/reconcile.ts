@@ -0,0 +1,49 @@
+// Balance reconciliation report, with optional repair.
+//
+//   npm run reconcile
+//   npm run reconcile -- --repair --approved-by "Jane Smith"
+import { Money } from "@/lib/money";
+import { reconcileBalances, repairDiscrepancy } from "@/server/services/reconciliation";
+
+const args = process.argv.slice(2);
+const repair = args.includes("--repair");
+const approvedByIndex = args.indexOf("--approved-by");
+const approvedBy = approvedByIndex === -1 ? "" : (args[approvedByIndex + 1] ?? "");
+
+if (repair && !approvedBy.trim()) {
+  console.error('Repair mode needs an approver: npm run reconcile -- --repair --approved-by "<name>"');
+  process.exit(1);
+}
+
+const { accountsChecked, discrepancies } = reconcileBalances();
+
+console.log(`\n=== Balance Reconciliation ===`);
+console.log(`Accounts checked: ${accountsChecked}`);
+
+if (discrepancies.length === 0) {
+  console.log("No discrepancies found");
+  process.exit(0);
+}
+
+console.log(`Discrepancies: ${discrepancies.length}\n`);
+for (const discrepancy of discrepancies) {
+  console.log(
+    `#${discrepancy.id} account ${discrepancy.accountId}: balance ${Money.format(discrepancy.balanceCents)}, ` +
+      `ledger ${Money.format(discrepancy.ledgerBalanceCents)}, ` +
+      `transactions ${Money.format(discrepancy.expectedBalanceCents)} ` +
+      `(off by ${Money.format(discrepancy.differenceCents)}), first seen ${discrepancy.detectedAt}`
+  );
+}
+
+if (!repair) {
+  process.exit(1);
+}
+
+console.log(`\n=== Repairing (approved by ${approvedBy}) ===`);
+for (const discrepancy of discrepancies) {
+  const repaired = repairDiscrepancy(discrepancy.id, approvedBy);
+  console.log(
+    `#${repaired.id} account ${repaired.accountId}: ` +
+      (repaired.journalEntryId ? `adjusting journal entry ${repaired.journalEntryId}` : "cached balance rebuilt from ledger")
+  );
+}
@@ -0,0 +1,79 @@
+import { createScheduler, type Scheduler } from "./services/scheduler";
+import { settleDueDeposits } from "./services/settlement";
+import { completeDueWithdrawals } from "./services/withdrawals";
+import { runDueScheduledTransfers } from "./services/schedules";
+import { accrueInterest, creditMonthlyInterest } from "./services/interest";
+import { generateStatements } from "./services/statements";
+import { reconcileBalances } from "./services/reconciliation";
+import { markDormantAccounts } from "./services/accounts";
+
+const SETTLEMENT_INTERVAL_MS = Number(process.env.SETTLEMENT_INTERVAL_MS ?? 30 * 1000);
+const SCHEDULED_TRANSFERS_INTERVAL_MS = Number(process.env.SCHEDULED_TRANSFERS_INTERVAL_MS ?? 60 * 1000);
+const INTEREST_INTERVAL_MS = Number(process.env.INTEREST_INTERVAL_MS ?? 60 * 60 * 1000);
+const STATEMENTS_INTERVAL_MS = Number(process.env.STATEMENTS_INTERVAL_MS ?? 60 * 60 * 1000);
+const RECONCILIATION_INTERVAL_MS = Number(process.env.RECONCILIATION_INTERVAL_MS ?? 60 * 60 * 1000);
+const DORMANCY_INTERVAL_MS = Number(process.env.DORMANCY_INTERVAL_MS ?? 24 * 60 * 60 * 1000);
+
+export function createBackgroundJobs(): Scheduler {
+  return createScheduler([
+    {
+      name: "settlement",
+      intervalMs: SETTLEMENT_INTERVAL_MS,
+      run: async (now) => {
+        completeDueWithdrawals(now);
+        await settleDueDeposits(now);
+      },
+    },
+    {
+      name: "scheduled-transfers",
+      intervalMs: SCHEDULED_TRANSFERS_INTERVAL_MS,
+      run: async (now) => {
+        await runDueScheduledTransfers(now);
+      },
+    },
+    {
+      name: "interest",
+      intervalMs: INTEREST_INTERVAL_MS,
+      run: (now) => {
+        // Accrue first so a month is complete before it is credited
+        accrueInterest(now);
+        creditMonthlyInterest(now);
+      },
+    },
+    {
+      name: "statements",
+      intervalMs: STATEMENTS_INTERVAL_MS,
+      run: (now) => {
+        generateStatements(now);
+      },
+    },
+    {
+      // Report only; repairs need an approver and go through `npm run reconcile -- --repair`
+      name: "reconciliation",
+      intervalMs: RECONCILIATION_INTERVAL_MS,
+      run: (now) => {
+        const { discrepancies } = reconcileBalances(now);
+        if (discrepancies.length > 0) {
+          console.warn(`Reconciliation found ${discrepancies.length} account(s) with balance discrepancies`);
+        }
+      },
+    },
+    {
+      name: "dormancy",
+      intervalMs: DORMANCY_INTERVAL_MS,
+      run: (now) => {
+        markDormantAccounts(now);
+      },
+    },
+  ]);
+}
+
+// Dev-mode reloads re-run instrumentation, so keep a single scheduler per process
+const globalForJobs = globalThis as typeof globalThis & { backgroundJobs?: Scheduler };
+
+export function startBackgroundJobs() {
+  if (globalForJobs.backgroundJobs) return;
+
+  globalForJobs.backgroundJobs = createBackgroundJobs();
+  globalForJobs.backgroundJobs.start();
+}
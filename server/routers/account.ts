@@ -1,10 +1,43 @@
 import { z } from "zod";
 import crypto from "crypto";
 import { TRPCError } from "@trpc/server";
-import { protectedProcedure, router } from "../trpc";
-import { db } from "@/lib/db";
-import { accounts, transactions } from "@/lib/db/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { protectedProcedure, router, verifiedProcedure } from "../trpc";
+import { db, type DbClient } from "@/lib/db";
+import { accounts, accountStatusChanges, scheduledTransfers, transactions } from "@/lib/db/schema";
+import { eq, and, asc, count, desc, ne, or, inArray, sql } from "drizzle-orm";
+import { postJournalEntry } from "../services/ledger";
+import {
+  completeIdempotencyKey,
+  failIdempotencyKey,
+  releaseIdempotencyKey,
+  reserveIdempotencyKey,
+  withIdempotency,
+} from "../services/idempotency";
+import { getSettlementProcessor, recordPendingAchDeposit } from "../services/settlement";
+import { Money, WHOLE_CENTS_MESSAGE } from "@/lib/money";
+import { MAX_WITHDRAWAL_AMOUNT, WITHDRAWAL_PROCESSING_DELAY_MS, getAvailableBalance } from "../services/withdrawals";
+import {
+  MAX_ACCOUNTS_PER_TYPE,
+  assertAccountActive,
+  getOwnedAccount,
+  getOwnedActiveAccount,
+  transitionAccountStatus,
+} from "../services/accounts";
+import { transferBetweenOwnAccounts } from "../services/transfers";
+import { getAccruedInterest, getApyBps, payAccruedInterest } from "../services/interest";
+import {
+  afterCursor,
+  decodeCursor,
+  encodeCursor,
+  transactionHistoryWhere,
+  type TransactionFilters,
+} from "../services/history";
+import { ACCOUNT_NUMBER_PATTERN, MAX_PAYMENT_AMOUNT, maskName, resolveRecipient } from "../services/payments";
+import { EXPORT_FORMATS, renderCsv, renderOfx, renderQif } from "../services/exports";
+import { getFundingLimitUsage, releaseFundingReservation, reserveFundingAllowance } from "../services/limits";
+import { linkDecisionToTransaction, recordHeldDeposit, screenDeposit } from "../services/fraud";
+import { assertValidRoutingNumber, resolveFundingInstrument } from "../services/funding";
+import { POSTED_TRANSACTION_STATUSES } from "@/lib/transactions";
 
 // BUG-12 fix: Use cryptographically secure random number generator
 function generateAccountNumber(): string {
@@ -13,54 +46,100 @@ function generateAccountNumber(): string {
   return num.toString().padStart(10, "0");
 }
 
-// BUG-07 fix: Luhn algorithm for card number validation
-function isValidLuhn(cardNumber: string): boolean {
-  let sum = 0;
-  let isEven = false;
-  for (let i = cardNumber.length - 1; i >= 0; i--) {
-    let digit = parseInt(cardNumber[i], 10);
-    if (isEven) {
-      digit *= 2;
-      if (digit > 9) {
-        digit -= 9;
-      }
-    }
-    sum += digit;
-    isEven = !isEven;
-  }
-  return sum % 10 === 0;
+// Client-generated key that makes a money-moving mutation safe to retry
+const idempotencyKey = z.string().min(8).max(255).optional();
+
+const historyDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+const historyAmount = z.number().min(0).refine(Money.isWholeCents, WHOLE_CENTS_MESSAGE);
+
+// Optional filters for an account's transaction history; amounts are in dollars like other inputs
+const transactionFilters = z.object({
+  fromDate: historyDate.optional(),
+  toDate: historyDate.optional(),
+  types: z.array(z.string()).max(20).optional(),
+  statuses: z.array(z.string()).max(20).optional(),
+  minAmount: historyAmount.optional(),
+  maxAmount: historyAmount.optional(),
+  search: z.string().trim().max(100).optional(),
+});
+
+function toHistoryFilters(input: z.infer<typeof transactionFilters>): TransactionFilters {
+  return {
+    fromDate: input.fromDate,
+    toDate: input.toDate,
+    types: input.types,
+    statuses: input.statuses,
+    minAmountCents: input.minAmount === undefined ? undefined : Money.fromDollars(input.minAmount),
+    maxAmountCents: input.maxAmount === undefined ? undefined : Money.fromDollars(input.maxAmount),
+    search: input.search || undefined,
+  };
 }
 
-// BUG-07 fix: Detect card type from number with broader network support
-function detectCardType(cardNumber: string): string | null {
-  if (/^4\d{12}(\d{3})?$/.test(cardNumber)) return "visa";
-  if (/^5[1-5]\d{14}$/.test(cardNumber)) return "mastercard";
-  if (/^3[47]\d{13}$/.test(cardNumber)) return "amex";
-  if (/^6(?:011|5\d{2})\d{12}$/.test(cardNumber)) return "discover";
-  return null;
+const nickname = z.string().trim().min(1, "Nickname cannot be empty").max(40, "Nickname is too long");
+
+// Nicknames tell a customer's open accounts apart, so two of them can't share one
+function assertNicknameAvailable(userId: number, name: string, exceptAccountId?: number) {
+  const taken = db
+    .select({ id: accounts.id })
+    .from(accounts)
+    .where(
+      and(
+        eq(accounts.userId, userId),
+        ne(accounts.status, "closed"),
+        sql`lower(${accounts.nickname}) = lower(${name})`,
+        exceptAccountId === undefined ? undefined : ne(accounts.id, exceptAccountId)
+      )
+    )
+    .get();
+
+  if (taken) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `You already have an account called "${name}"`,
+    });
+  }
 }
 
+// Email address or 10-digit SecureBank account number of another customer
+const recipient = z
+  .string()
+  .trim()
+  .refine(
+    (val) => ACCOUNT_NUMBER_PATTERN.test(val) || z.string().email().safeParse(val).success,
+    "Enter an email address or 10-digit account number"
+  );
+
 export const accountRouter = router({
   createAccount: protectedProcedure
     .input(
       z.object({
         accountType: z.enum(["checking", "savings"]),
+        nickname: nickname.optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
-      // Check if user already has an account of this type
-      const existingAccount = await db
-        .select()
+      // Closed accounts don't count towards the cap
+      const open = await db
+        .select({ total: count() })
         .from(accounts)
-        .where(and(eq(accounts.userId, ctx.user.id), eq(accounts.accountType, input.accountType)))
+        .where(
+          and(
+            eq(accounts.userId, ctx.user.id),
+            eq(accounts.accountType, input.accountType),
+            ne(accounts.status, "closed")
+          )
+        )
         .get();
 
-      if (existingAccount) {
+      if ((open?.total ?? 0) >= MAX_ACCOUNTS_PER_TYPE) {
         throw new TRPCError({
           code: "CONFLICT",
-          message: `You already have a ${input.accountType} account`,
+          message: `You can have at most ${MAX_ACCOUNTS_PER_TYPE} open ${input.accountType} accounts`,
         });
       }
+      if (input.nickname) {
+        assertNicknameAvailable(ctx.user.id, input.nickname);
+      }
 
       let accountNumber;
       let isUnique = false;
@@ -72,16 +151,28 @@ export const accountRouter = router({
         isUnique = !existing;
       }
 
-      await db.insert(accounts).values({
-        userId: ctx.user.id,
-        accountNumber: accountNumber!,
-        accountType: input.accountType,
-        balance: 0,
-        status: "active",
-      });
+      // Accounts start pending and are opened through the state machine so the opening is recorded
+      const account = db.transaction((tx) => {
+        const created = tx
+          .insert(accounts)
+          .values({
+            userId: ctx.user.id,
+            accountNumber: accountNumber!,
+            accountType: input.accountType,
+            nickname: input.nickname,
+            balanceCents: 0,
+            status: "pending",
+          })
+          .returning()
+          .get();
 
-      // Fetch the created account
-      const account = await db.select().from(accounts).where(eq(accounts.accountNumber, accountNumber!)).get();
+        return transitionAccountStatus(tx, {
+          accountId: created.id,
+          to: "active",
+          reason: "opened",
+          changedBy: ctx.user.id,
+        });
+      });
 
       // BUG-16 fix: throw error instead of returning phantom $100 balance
       if (!account) {
@@ -94,57 +185,563 @@ export const accountRouter = router({
       return account;
     }),
 
-  getAccounts: protectedProcedure.query(async ({ ctx }) => {
-    const userAccounts = await db.select().from(accounts).where(eq(accounts.userId, ctx.user.id));
+  // An empty nickname clears it, so the account is shown by its type again
+  renameAccount: protectedProcedure
+    .input(z.object({ accountId: z.number(), nickname: z.string().trim().max(40, "Nickname is too long") }))
+    .mutation(async ({ input, ctx }) => {
+      const account = getOwnedAccount(db, input.accountId, ctx.user.id);
+      if (account.status === "closed") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Account is closed",
+        });
+      }
+      if (input.nickname) {
+        assertNicknameAvailable(ctx.user.id, input.nickname, account.id);
+      }
 
-    return userAccounts;
-  }),
+      return db
+        .update(accounts)
+        .set({ nickname: input.nickname || null })
+        .where(eq(accounts.id, account.id))
+        .returning()
+        .get();
+    }),
 
-  fundAccount: protectedProcedure
+  // Closing needs a zero balance, or somewhere to move what is left. Savings interest accrued so
+  // far is paid first, and any recurring transfers using the account are cancelled.
+  closeAccount: protectedProcedure
     .input(
-      z.object({
-        accountId: z.number(),
-        // BUG-06 fix: min is now 0.01, not 0
-        amount: z.number().min(0.01, "Amount must be at least $0.01").max(10000, "Amount cannot exceed $10,000"),
-        fundingSource: z.object({
-          type: z.enum(["card", "bank"]),
-          accountNumber: z.string().min(1, "Account/card number is required"),
-          routingNumber: z.string().optional(),
-        }),
-      })
+      z
+        .object({
+          accountId: z.number(),
+          payoutAccountId: z.number().optional(),
+        })
+        .refine((val) => val.accountId !== val.payoutAccountId, {
+          message: "Choose a different account to receive the remaining balance",
+          path: ["payoutAccountId"],
+        })
     )
     .mutation(async ({ input, ctx }) => {
-      // BUG-08 fix: require routing number for bank transfers
-      if (input.fundingSource.type === "bank") {
-        if (!input.fundingSource.routingNumber || !/^\d{9}$/.test(input.fundingSource.routingNumber)) {
+      return db.transaction((tx) => {
+        const account = getOwnedAccount(tx, input.accountId, ctx.user.id);
+        if (account.status === "closed") {
           throw new TRPCError({
             code: "BAD_REQUEST",
-            message: "A valid 9-digit routing number is required for bank transfers",
+            message: "Account is already closed",
           });
         }
-      }
+        // Frozen and dormant accounts need support or reactivation first
+        if (account.status !== "pending") {
+          assertAccountActive(account);
+        }
 
-      // BUG-07 fix: validate card numbers with Luhn + type detection
-      if (input.fundingSource.type === "card") {
-        const cardNum = input.fundingSource.accountNumber;
-        const cardType = detectCardType(cardNum);
-        if (!cardType) {
+        const inFlight = tx
+          .select()
+          .from(transactions)
+          .where(and(eq(transactions.accountId, account.id), eq(transactions.status, "pending")))
+          .get();
+        if (inFlight) {
           throw new TRPCError({
             code: "BAD_REQUEST",
-            message: "Invalid card number. We accept Visa, Mastercard, Amex, and Discover.",
+            message: "This account has pending transactions. Try again once they have completed.",
           });
         }
-        if (!isValidLuhn(cardNum)) {
+
+        if (account.accountType === "savings") {
+          payAccruedInterest(tx, account.id);
+        }
+
+        const balanceCents = getOwnedAccount(tx, account.id, ctx.user.id).balanceCents;
+        if (balanceCents < 0) {
           throw new TRPCError({
             code: "BAD_REQUEST",
-            message: "Invalid card number. Please check and try again.",
+            message: "This account is overdrawn. Bring the balance to zero before closing it.",
+          });
+        }
+
+        let payout = null;
+        if (balanceCents > 0) {
+          if (input.payoutAccountId === undefined) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: "Choose an account to receive the remaining balance",
+            });
+          }
+          payout = transferBetweenOwnAccounts(tx, {
+            userId: ctx.user.id,
+            fromAccountId: account.id,
+            toAccountId: input.payoutAccountId,
+            amountCents: balanceCents,
           });
         }
+
+        tx.update(scheduledTransfers)
+          .set({ status: "cancelled", nextRunAt: null })
+          .where(
+            and(
+              or(eq(scheduledTransfers.fromAccountId, account.id), eq(scheduledTransfers.toAccountId, account.id)),
+              inArray(scheduledTransfers.status, ["active", "paused"])
+            )
+          )
+          .run();
+
+        const closed = transitionAccountStatus(tx, {
+          accountId: account.id,
+          to: "closed",
+          reason: "customer_request",
+          changedBy: ctx.user.id,
+        });
+
+        return {
+          account: closed,
+          payoutCents: balanceCents,
+          payoutTransaction: payout?.fromTransaction ?? null,
+        };
+      });
+    }),
+
+  // Dormant accounts are brought back by the customer before they can move money again
+  reactivateAccount: protectedProcedure.input(z.object({ accountId: z.number() })).mutation(async ({ input, ctx }) => {
+    return db.transaction((tx) => {
+      const account = getOwnedAccount(tx, input.accountId, ctx.user.id);
+      if (account.status !== "dormant") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only dormant accounts can be reactivated",
+        });
+      }
+
+      return transitionAccountStatus(tx, {
+        accountId: account.id,
+        to: "active",
+        reason: "customer_reactivated",
+        changedBy: ctx.user.id,
+      });
+    });
+  }),
+
+  getStatusHistory: protectedProcedure.input(z.object({ accountId: z.number() })).query(async ({ input, ctx }) => {
+    const account = getOwnedAccount(db, input.accountId, ctx.user.id);
+
+    // Notes are for staff; customers see the reason code only
+    return db
+      .select({
+        fromStatus: accountStatusChanges.fromStatus,
+        toStatus: accountStatusChanges.toStatus,
+        reasonCode: accountStatusChanges.reasonCode,
+        createdAt: accountStatusChanges.createdAt,
+      })
+      .from(accountStatusChanges)
+      .where(eq(accountStatusChanges.accountId, account.id))
+      .orderBy(asc(accountStatusChanges.id))
+      .all();
+  }),
+
+  getAccounts: protectedProcedure.query(async ({ ctx }) => {
+    const userAccounts = await db.select().from(accounts).where(eq(accounts.userId, ctx.user.id));
+
+    return userAccounts.map((account) => ({
+      ...account,
+      availableBalanceCents: getAvailableBalance(db, account),
+      // Savings only: current rate for this balance and interest earned since the last credit
+      apyBps: account.accountType === "savings" ? getApyBps(account.balanceCents) : null,
+      accruedInterestCents: account.accountType === "savings" ? getAccruedInterest(db, account.id) : null,
+    }));
+  }),
+
+  // Rolling deposit limits per funding source type and how much of each is already used
+  getFundingLimits: protectedProcedure.query(async ({ ctx }) => {
+    const now = new Date();
+    return {
+      card: getFundingLimitUsage(db, ctx.user.id, "card", now),
+      bank: getFundingLimitUsage(db, ctx.user.id, "bank", now),
+    };
+  }),
+
+  fundAccount: verifiedProcedure
+    .input(
+      z
+        .object({
+          accountId: z.number(),
+          // BUG-06 fix: min is now 0.01, not 0
+          amount: z
+            .number()
+            .min(0.01, "Amount must be at least $0.01")
+            .max(10000, "Amount cannot exceed $10,000")
+            .refine(Money.isWholeCents, WHOLE_CENTS_MESSAGE),
+          // Either new card or bank details, or a saved funding source
+          fundingSource: z
+            .object({
+              type: z.enum(["card", "bank"]),
+              accountNumber: z.string().min(1, "Account/card number is required"),
+              routingNumber: z.string().optional(),
+            })
+            .optional(),
+          fundingSourceId: z.number().optional(),
+          idempotencyKey,
+        })
+        .refine((val) => (val.fundingSource === undefined) !== (val.fundingSourceId === undefined), {
+          message: "Provide either funding details or a saved funding source",
+          path: ["fundingSource"],
+        })
+    )
+    .mutation(async ({ input, ctx }) => {
+      // BUG-07 fix: card numbers pass Luhn + type detection; bank accounts must be linked and verified
+      const instrument = resolveFundingInstrument(db, ctx.user.id, input);
+
+      const amountCents = Money.fromDollars(input.amount);
+      const idempotency = {
+        userId: ctx.user.id,
+        key: input.idempotencyKey,
+        scope: "account.fundAccount",
+        payload: input,
+      };
+
+      // The key is held before the processor is contacted, so neither a retry nor a concurrent
+      // duplicate can reach it a second time
+      const replay = reserveIdempotencyKey<{ transaction: typeof transactions.$inferSelect; newBalanceCents: number }>(
+        db,
+        idempotency
+      );
+      if (replay) {
+        return replay;
       }
 
-      // Round to 2 decimal places to avoid float issues
-      const amount = Math.round(input.amount * 100) / 100;
+      // Records the deposit once the processor has accepted it. The account was checked before the
+      // processor was contacted; money it has taken since is recorded even if the account has been
+      // frozen or closed meanwhile, like a deposit settling into a frozen account.
+      let record: (tx: DbClient) => { transaction: typeof transactions.$inferSelect; newBalanceCents: number };
+      let reservation: typeof transactions.$inferSelect | undefined;
+
+      try {
+        // Verify account belongs to user, and hold the amount against the funding limits, before
+        // contacting the processor
+        const ownedAccount = db.transaction((tx) => {
+          const account = getOwnedActiveAccount(tx, input.accountId, ctx.user.id);
+          reservation = reserveFundingAllowance(tx, {
+            userId: ctx.user.id,
+            accountId: account.id,
+            sourceType: instrument.type,
+            amountCents,
+            description: instrument.type === "card" ? "Funding from card" : "Funding from bank",
+          });
+          return account;
+        });
+        const depositId = reservation!.id;
 
+        const screening = screenDeposit(db, {
+          userId: ctx.user.id,
+          account: ownedAccount,
+          amountCents,
+          fundingSource: instrument,
+        });
+        if (screening.decision === "block") {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "This deposit could not be accepted. Please contact support if you believe this is a mistake.",
+          });
+        }
+
+        const processor = getSettlementProcessor();
+
+        if (instrument.type === "card") {
+          // Cards authorize first, then capture; a captured card deposit is settled immediately
+          const authorization = await processor.authorizeCard({ ...instrument.credentials, amountCents });
+          if (!authorization.approved) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: `Card was declined: ${authorization.declineReason}`,
+            });
+          }
+
+          if (screening.decision === "review") {
+            // Held for review: keep the authorization and capture only if a reviewer approves
+            record = (tx) => {
+              const account = getOwnedAccount(tx, input.accountId, ctx.user.id);
+              const transaction = recordHeldDeposit(tx, {
+                transactionId: depositId,
+                authorizationId: authorization.authorizationId,
+              });
+              linkDecisionToTransaction(tx, screening.id, transaction.id);
+
+              return {
+                transaction,
+                newBalanceCents: account.balanceCents,
+              };
+            };
+          } else {
+            const capture = await processor.captureCard(authorization.authorizationId, amountCents);
+            if (!capture.captured) {
+              throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: `Card payment could not be completed: ${capture.failureReason}`,
+              });
+            }
+
+            record = (tx) => {
+              const account = getOwnedAccount(tx, input.accountId, ctx.user.id);
+
+              // BUG-20 fix: return this deposit's row, not the oldest one on the account
+              const transaction = tx
+                .update(transactions)
+                .set({ status: "settled", processorReference: capture.reference, processedAt: new Date().toISOString() })
+                .where(eq(transactions.id, depositId))
+                .returning()
+                .get()!;
+
+              // BUG-21 fix: the ledger applies integer-cent postings to the balance
+              const { balances } = postJournalEntry(tx, {
+                description: "Deposit from card",
+                postings: [
+                  { internalAccount: "card_clearing", direction: "debit", amountCents },
+                  { accountId: account.id, transactionId: transaction.id, direction: "credit", amountCents },
+                ],
+              });
+              linkDecisionToTransaction(tx, screening.id, transaction.id);
+
+              return {
+                transaction,
+                newBalanceCents: balances.get(account.id)!,
+              };
+            };
+          }
+        } else if (screening.decision === "review") {
+          // Held for review: the ACH debit is only submitted once a reviewer approves it
+          record = (tx) => {
+            const account = getOwnedAccount(tx, input.accountId, ctx.user.id);
+            const transaction = recordHeldDeposit(tx, { transactionId: depositId });
+            linkDecisionToTransaction(tx, screening.id, transaction.id);
+
+            return {
+              transaction,
+              newBalanceCents: account.balanceCents,
+            };
+          };
+        } else {
+          // Bank deposits are pulled by ACH and stay pending until they clear; see settleDueDeposits
+          const { reference } = await processor.submitAchDebit({ ...instrument.credentials, amountCents });
+
+          record = (tx) => {
+            const account = getOwnedAccount(tx, input.accountId, ctx.user.id);
+            const transaction = recordPendingAchDeposit(tx, { transactionId: depositId, reference });
+            linkDecisionToTransaction(tx, screening.id, transaction.id);
+
+            return {
+              transaction,
+              newBalanceCents: account.balanceCents,
+            };
+          };
+        }
+      } catch (error) {
+        // Refused before the processor moved any money, so the same request may be tried again
+        if (reservation) {
+          releaseFundingReservation(db, reservation.id);
+        }
+        releaseIdempotencyKey(db, idempotency);
+        throw error;
+      }
+
+      try {
+        return db.transaction((tx) => completeIdempotencyKey(tx, idempotency, record(tx)));
+      } catch (error) {
+        // The processor already has the money, so the key must not be freed for a second charge
+        console.error(`Failed to record a deposit into account ${input.accountId} the processor accepted:`, error);
+        failIdempotencyKey(db, idempotency, "We received your deposit but could not record it. Please contact support.");
+        releaseFundingReservation(db, reservation!.id);
+        throw error;
+      }
+    }),
+
+  transfer: verifiedProcedure
+    .input(
+      z
+        .object({
+          fromAccountId: z.number(),
+          toAccountId: z.number(),
+          amount: z.number().min(0.01, "Amount must be at least $0.01").refine(Money.isWholeCents, WHOLE_CENTS_MESSAGE),
+          idempotencyKey,
+        })
+        .refine((val) => val.fromAccountId !== val.toAccountId, {
+          message: "Cannot transfer to the same account",
+          path: ["toAccountId"],
+        })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const amountCents = Money.fromDollars(input.amount);
+
+      return db.transaction((tx) =>
+        withIdempotency(
+          tx,
+          { userId: ctx.user.id, key: input.idempotencyKey, scope: "account.transfer", payload: input },
+          () =>
+            transferBetweenOwnAccounts(tx, {
+              userId: ctx.user.id,
+              fromAccountId: input.fromAccountId,
+              toAccountId: input.toAccountId,
+              amountCents,
+            })
+        )
+      );
+    }),
+
+  // Shows who a payment would go to before it is sent, without exposing their full name
+  findRecipient: protectedProcedure.input(z.object({ recipient })).query(async ({ input, ctx }) => {
+    const { account, maskedName } = resolveRecipient(db, input.recipient, ctx.user.id);
+
+    return {
+      maskedName,
+      maskedAccountNumber: `****${account.accountNumber.slice(-4)}`,
+    };
+  }),
+
+  sendPayment: verifiedProcedure
+    .input(
+      z.object({
+        fromAccountId: z.number(),
+        recipient,
+        amount: z
+          .number()
+          .min(0.01, "Amount must be at least $0.01")
+          .max(MAX_PAYMENT_AMOUNT, `Amount cannot exceed $${MAX_PAYMENT_AMOUNT.toLocaleString("en-US")}`)
+          .refine(Money.isWholeCents, WHOLE_CENTS_MESSAGE),
+        idempotencyKey,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const amountCents = Money.fromDollars(input.amount);
+      const processedAt = new Date().toISOString();
+
+      return db.transaction((tx) =>
+        withIdempotency(
+          tx,
+          { userId: ctx.user.id, key: input.idempotencyKey, scope: "account.sendPayment", payload: input },
+          () => {
+            const fromAccount = getOwnedActiveAccount(tx, input.fromAccountId, ctx.user.id);
+            const { account: toAccount, maskedName: recipientName } = resolveRecipient(tx, input.recipient, ctx.user.id);
+            const senderName = maskName(ctx.user.firstName, ctx.user.lastName);
+
+            if (getAvailableBalance(tx, fromAccount) < amountCents) {
+              throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: "Insufficient funds",
+              });
+            }
+
+            const debit = tx
+              .insert(transactions)
+              .values({
+                accountId: fromAccount.id,
+                type: "payment_sent",
+                amountCents,
+                description: `Payment to ${recipientName}`,
+                status: "completed",
+                processedAt,
+              })
+              .returning()
+              .get();
+
+            const credit = tx
+              .insert(transactions)
+              .values({
+                accountId: toAccount.id,
+                type: "payment_received",
+                amountCents,
+                description: `Payment from ${senderName}`,
+                status: "completed",
+                processedAt,
+                linkedTransactionId: debit.id,
+              })
+              .returning()
+              .get();
+
+            tx.update(transactions).set({ linkedTransactionId: credit.id }).where(eq(transactions.id, debit.id)).run();
+
+            const { balances } = postJournalEntry(tx, {
+              description: "Payment to another customer",
+              postings: [
+                { accountId: fromAccount.id, transactionId: debit.id, direction: "debit", amountCents },
+                { accountId: toAccount.id, transactionId: credit.id, direction: "credit", amountCents },
+              ],
+            });
+
+            // Only the sender's side is returned; the recipient's account stays private
+            return {
+              transaction: { ...debit, linkedTransactionId: credit.id },
+              recipientName,
+              newBalanceCents: balances.get(fromAccount.id)!,
+            };
+          }
+        )
+      );
+    }),
+
+  withdraw: verifiedProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+        amount: z
+          .number()
+          .min(0.01, "Amount must be at least $0.01")
+          .max(MAX_WITHDRAWAL_AMOUNT, `Amount cannot exceed $${MAX_WITHDRAWAL_AMOUNT.toLocaleString("en-US")}`)
+          .refine(Money.isWholeCents, WHOLE_CENTS_MESSAGE),
+        destination: z.object({
+          accountNumber: z.string().regex(/^\d{4,17}$/, "A valid bank account number is required"),
+          routingNumber: z.string(),
+        }),
+        idempotencyKey,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const amountCents = Money.fromDollars(input.amount);
+      assertValidRoutingNumber(input.destination.routingNumber);
+
+      return db.transaction((tx) =>
+        withIdempotency(
+          tx,
+          { userId: ctx.user.id, key: input.idempotencyKey, scope: "account.withdraw", payload: input },
+          () => {
+            const account = getOwnedActiveAccount(tx, input.accountId, ctx.user.id);
+
+            if (getAvailableBalance(tx, account) < amountCents) {
+              throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: "Insufficient funds",
+              });
+            }
+
+            // Held as pending until the outbound ACH is processed; see completeDueWithdrawals
+            const transaction = tx
+              .insert(transactions)
+              .values({
+                accountId: account.id,
+                type: "withdrawal",
+                amountCents,
+                description: `Withdrawal to bank ****${input.destination.accountNumber.slice(-4)}`,
+                status: "pending",
+                settleAfter: new Date(Date.now() + WITHDRAWAL_PROCESSING_DELAY_MS).toISOString(),
+              })
+              .returning()
+              .get();
+
+            return {
+              transaction,
+              availableBalanceCents: getAvailableBalance(tx, account),
+            };
+          }
+        )
+      );
+    }),
+
+  getTransactions: protectedProcedure
+    .input(
+      transactionFilters.extend({
+        accountId: z.number(),
+        cursor: z.string().nullish(),
+        limit: z.number().int().min(1).max(100).default(25),
+      })
+    )
+    .query(async ({ input, ctx }) => {
       // Verify account belongs to user
       const account = await db
         .select()
@@ -159,57 +756,45 @@ export const accountRouter = router({
         });
       }
 
-      if (account.status !== "active") {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: "Account is not active",
-        });
-      }
-
-      // Create transaction
-      await db.insert(transactions).values({
-        accountId: input.accountId,
-        type: "deposit",
-        amount,
-        description: `Funding from ${input.fundingSource.type}`,
-        status: "completed",
-        processedAt: new Date().toISOString(),
-      });
+      const where = transactionHistoryWhere(account.id, toHistoryFilters(input));
 
-      // BUG-20 fix: get the NEWEST transaction (desc order), not oldest
-      const transaction = await db
+      // BUG-19 fix: newest first; id breaks ties so pages never skip or repeat rows
+      const rows = await db
         .select()
         .from(transactions)
-        .where(eq(transactions.accountId, input.accountId))
-        .orderBy(desc(transactions.id))
-        .limit(1)
-        .get();
+        .where(input.cursor ? and(where, afterCursor(decodeCursor(input.cursor))) : where)
+        .orderBy(desc(transactions.createdAt), desc(transactions.id))
+        .limit(input.limit + 1);
 
-      // BUG-21 fix: calculate balance correctly using integer arithmetic
-      const newBalance = Math.round((account.balance + amount) * 100) / 100;
-
-      // Update account balance
-      await db
-        .update(accounts)
-        .set({
-          balance: newBalance,
-        })
-        .where(eq(accounts.id, input.accountId));
+      const hasMore = rows.length > input.limit;
+      const page = hasMore ? rows.slice(0, input.limit) : rows;
 
       return {
-        transaction,
-        newBalance,
+        // BUG-22 fix: use already-fetched account data instead of N+1 queries
+        items: page.map((transaction) => ({
+          ...transaction,
+          accountType: account.accountType,
+        })),
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
       };
     }),
 
-  getTransactions: protectedProcedure
+  // Posted transactions only, oldest first; pending items would change or vanish after import.
+  // File contents are base64-encoded like statement downloads.
+  exportTransactions: protectedProcedure
     .input(
-      z.object({
-        accountId: z.number(),
-      })
+      transactionFilters
+        .pick({ fromDate: true, toDate: true })
+        .extend({
+          accountId: z.number(),
+          format: z.enum(EXPORT_FORMATS),
+        })
+        .refine((input) => !input.fromDate || !input.toDate || input.fromDate <= input.toDate, {
+          message: "Start date must be on or before end date",
+          path: ["toDate"],
+        })
     )
     .query(async ({ input, ctx }) => {
-      // Verify account belongs to user
       const account = await db
         .select()
         .from(accounts)
@@ -223,19 +808,35 @@ export const accountRouter = router({
         });
       }
 
-      // BUG-19 fix: sort transactions by creation date descending (newest first)
-      const accountTransactions = await db
+      const range = {
+        start: input.fromDate ?? account.createdAt!.slice(0, 10),
+        end: input.toDate ?? new Date().toISOString().slice(0, 10),
+      };
+
+      const rows = await db
         .select()
         .from(transactions)
-        .where(eq(transactions.accountId, input.accountId))
-        .orderBy(desc(transactions.createdAt));
+        .where(
+          transactionHistoryWhere(account.id, {
+            fromDate: input.fromDate,
+            toDate: input.toDate,
+            statuses: POSTED_TRANSACTION_STATUSES,
+          })
+        )
+        .orderBy(asc(transactions.createdAt), asc(transactions.id));
 
-      // BUG-22 fix: use already-fetched account data instead of N+1 queries
-      const enrichedTransactions = accountTransactions.map((transaction) => ({
-        ...transaction,
-        accountType: account.accountType,
-      }));
+      const filename = `securebank-${account.accountNumber.slice(-4)}-${range.start}-to-${range.end}.${input.format}`;
+      const files = {
+        csv: () => ({ mimeType: "text/csv", content: renderCsv(rows) }),
+        ofx: () => ({ mimeType: "application/x-ofx", content: renderOfx(rows, account, range) }),
+        qif: () => ({ mimeType: "application/qif", content: renderQif(rows) }),
+      };
+      const { mimeType, content } = files[input.format]();
 
-      return enrichedTransactions;
+      return {
+        filename,
+        mimeType,
+        contentBase64: Buffer.from(content, "utf8").toString("base64"),
+      };
     }),
 });
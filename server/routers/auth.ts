@@ -1,12 +1,27 @@
 import { z } from "zod";
 import bcrypt from "bcryptjs";
-import crypto from "crypto";
-import jwt from "jsonwebtoken";
 import { TRPCError } from "@trpc/server";
-import { publicProcedure, router } from "../trpc";
+import { protectedProcedure, publicProcedure, router } from "../trpc";
 import { db } from "@/lib/db";
 import { users, sessions } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import { encrypt } from "../services/encryption";
+import {
+  clearSessionCookie,
+  findSessionByRefreshToken,
+  getClientIp,
+  getSessionToken,
+  refreshSession,
+  startSession,
+  toPublicUser,
+} from "../services/sessions";
+import { createLoginChallenge, redeemLoginChallenge } from "../services/twoFactor";
+import { completePasswordReset, requestPasswordReset } from "../services/passwordReset";
+import {
+  confirmEmailVerification,
+  resendVerificationEmail,
+  sendVerificationEmail,
+} from "../services/emailVerification";
 
 // Valid US state codes
 const VALID_STATE_CODES = new Set([
@@ -18,27 +33,14 @@ const VALID_STATE_CODES = new Set([
   "DC", "AS", "GU", "MP", "PR", "VI",
 ]);
 
-// Encrypt SSN before storage
-function encryptSSN(ssn: string): string {
-  const rawKey = process.env.ENCRYPTION_KEY || "dev-fallback-encryption-key-only";
-  // Derive a proper 32-byte key using SHA-256 hash (handles any input length)
-  const key = crypto.createHash("sha256").update(rawKey).digest();
-  const iv = crypto.randomBytes(16);
-  const cipher = crypto.createCipheriv("aes-256-cbc", key, iv);
-  let encrypted = cipher.update(ssn, "utf8", "hex");
-  encrypted += cipher.final("hex");
-  return iv.toString("hex") + ":" + encrypted;
-}
-
-// Get JWT secret with validation
-function getJwtSecret(): string {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    console.error("CRITICAL: JWT_SECRET environment variable is not set. Using fallback for development only.");
-    return "temporary-secret-for-interview";
-  }
-  return secret;
-}
+// Shared by signup and password reset
+const passwordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .regex(/[A-Z]/, "Password must contain at least one uppercase letter")
+  .regex(/[a-z]/, "Password must contain at least one lowercase letter")
+  .regex(/\d/, "Password must contain at least one number")
+  .regex(/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/, "Password must contain at least one special character");
 
 export const authRouter = router({
   signup: publicProcedure
@@ -53,13 +55,7 @@ export const authRouter = router({
             const commonTypos = [".con", ".cm", ".om", ".co."];
             return !commonTypos.some((typo) => val.endsWith(typo));
           }, "Possible email typo detected. Please verify your email address."),
-        password: z
-          .string()
-          .min(8, "Password must be at least 8 characters")
-          .regex(/[A-Z]/, "Password must contain at least one uppercase letter")
-          .regex(/[a-z]/, "Password must contain at least one lowercase letter")
-          .regex(/\d/, "Password must contain at least one number")
-          .regex(/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/, "Password must contain at least one special character"),
+        password: passwordSchema,
         firstName: z.string().min(1),
         lastName: z.string().min(1),
         phoneNumber: z.string().regex(/^\+?1?\d{10}$/, "Phone number must be a valid US number (10 digits, optional +1 prefix)"),
@@ -107,7 +103,7 @@ export const authRouter = router({
       const hashedPassword = await bcrypt.hash(input.password, 10);
 
       // Encrypt SSN before storage (BUG-11 fix)
-      const encryptedSSN = encryptSSN(input.ssn);
+      const encryptedSSN = encrypt(input.ssn);
 
       await db.insert(users).values({
         ...input,
@@ -125,31 +121,11 @@ export const authRouter = router({
         });
       }
 
-      // Create session
-      const token = jwt.sign({ userId: user.id }, getJwtSecret(), {
-        expiresIn: "7d",
-      });
-
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
-
-      // Invalidate any existing sessions for this user (BUG-14 fix)
-      await db.delete(sessions).where(eq(sessions.userId, user.id));
-
-      await db.insert(sessions).values({
-        userId: user.id,
-        token,
-        expiresAt: expiresAt.toISOString(),
-      });
-
-      // Set cookie
-      if ("setHeader" in ctx.res) {
-        ctx.res.setHeader("Set-Cookie", `session=${token}; Path=/; HttpOnly; SameSite=Strict; Max-Age=604800`);
-      } else {
-        (ctx.res as Headers).set("Set-Cookie", `session=${token}; Path=/; HttpOnly; SameSite=Strict; Max-Age=604800`);
-      }
+      // The session lets them in right away, but money can't move until the address is verified
+      await sendVerificationEmail(user);
+      const token = await startSession(ctx.req, ctx.res, user.id);
 
-      return { user: { ...user, password: undefined, ssn: undefined }, token };
+      return { user: toPublicUser(user), token };
     }),
 
   login: publicProcedure
@@ -178,61 +154,112 @@ export const authRouter = router({
         });
       }
 
-      const token = jwt.sign({ userId: user.id }, getJwtSecret(), {
-        expiresIn: "7d",
-      });
+      // With two-factor on, the password only earns a short-lived challenge; see verifyTwoFactor
+      if (user.totpEnabledAt) {
+        const challenge = createLoginChallenge(user.id);
+        return { twoFactorRequired: true as const, ...challenge };
+      }
 
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
+      const token = await startSession(ctx.req, ctx.res, user.id);
 
-      // Invalidate any existing sessions before creating new one (BUG-14 fix)
-      await db.delete(sessions).where(eq(sessions.userId, user.id));
+      return { twoFactorRequired: false as const, user: toPublicUser(user), token };
+    }),
 
-      await db.insert(sessions).values({
-        userId: user.id,
-        token,
-        expiresAt: expiresAt.toISOString(),
-      });
+  // Second login step: a code from the authenticator app, or a recovery code
+  verifyTwoFactor: publicProcedure
+    .input(
+      z.object({
+        challengeToken: z.string().min(1),
+        code: z.string().trim().min(1, "Enter the code from your authenticator app").max(20),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const user = redeemLoginChallenge(input.challengeToken, input.code);
+      const token = await startSession(ctx.req, ctx.res, user.id);
+
+      return { user: toPublicUser(user), token };
+    }),
+
+  // Answers identically whether or not the email belongs to an account, so it can't be used
+  // to find out who banks here
+  requestPasswordReset: publicProcedure
+    .input(z.object({ email: z.string().email().toLowerCase() }))
+    .mutation(async ({ input, ctx }) => {
+      requestPasswordReset(input.email, getClientIp(ctx.req));
 
-      if ("setHeader" in ctx.res) {
-        ctx.res.setHeader("Set-Cookie", `session=${token}; Path=/; HttpOnly; SameSite=Strict; Max-Age=604800`);
-      } else {
-        (ctx.res as Headers).set("Set-Cookie", `session=${token}; Path=/; HttpOnly; SameSite=Strict; Max-Age=604800`);
+      return {
+        success: true,
+        message: "If an account exists for that email, we've sent a link to reset the password.",
+      };
+    }),
+
+  resetPassword: publicProcedure
+    .input(z.object({ token: z.string().min(1), password: passwordSchema }))
+    .mutation(async ({ input }) => {
+      const hashedPassword = await bcrypt.hash(input.password, 10);
+      const user = await completePasswordReset(input.token, hashedPassword);
+
+      if (!user) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This reset link is invalid or has expired. Please request a new one.",
+        });
       }
 
-      return { user: { ...user, password: undefined, ssn: undefined }, token };
+      return { success: true };
     }),
 
+  // Opened from the emailed link, possibly in a browser that isn't signed in
+  verifyEmail: publicProcedure.input(z.object({ token: z.string().min(1) })).mutation(async ({ input }) => {
+    if (!confirmEmailVerification(input.token)) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "This verification link is invalid or has expired. Please request a new one.",
+      });
+    }
+
+    return { success: true };
+  }),
+
+  getEmailVerification: protectedProcedure.query(async ({ ctx }) => {
+    return { email: ctx.user.email, verified: ctx.user.emailVerifiedAt !== null, verifiedAt: ctx.user.emailVerifiedAt };
+  }),
+
+  resendVerificationEmail: protectedProcedure.mutation(async ({ ctx }) => {
+    await resendVerificationEmail(ctx.user.id);
+
+    return { success: true };
+  }),
+
+  // Swaps the refresh token cookie for fresh cookies. The client calls this when a request
+  // comes back UNAUTHORIZED and then retries it.
+  refreshSession: publicProcedure.mutation(async ({ ctx }) => {
+    const token = refreshSession(ctx.req, ctx.res);
+
+    return { success: true, token };
+  }),
+
   logout: publicProcedure.mutation(async ({ ctx }) => {
-    if (!ctx.user) {
+    // Once the access token has lapsed, the refresh token still identifies the session to end
+    const token = getSessionToken(ctx.req);
+    const session =
+      (token ? db.select().from(sessions).where(eq(sessions.token, token)).get() : undefined) ??
+      findSessionByRefreshToken(ctx.req);
+
+    clearSessionCookie(ctx.res);
+
+    if (!ctx.user && !session) {
       // BUG-17 fix: accurately report no session
       return { success: false, message: "No active session" };
     }
 
-    // Delete session from database
-    let token: string | undefined;
-    if ("cookies" in ctx.req) {
-      token = (ctx.req as any).cookies.session;
-    } else {
-      const cookieHeader = ctx.req.headers.get?.("cookie") || (ctx.req.headers as any).cookie;
-      token = cookieHeader
-        ?.split("; ")
-        .find((c: string) => c.startsWith("session="))
-        ?.split("=")[1];
-    }
-
+    // Delete session from database; its refresh tokens go with it
     let deleted = false;
-    if (token) {
-      const result = await db.delete(sessions).where(eq(sessions.token, token));
+    if (session) {
+      await db.delete(sessions).where(eq(sessions.id, session.id));
       deleted = true;
     }
 
-    if ("setHeader" in ctx.res) {
-      ctx.res.setHeader("Set-Cookie", `session=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`);
-    } else {
-      (ctx.res as Headers).set("Set-Cookie", `session=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`);
-    }
-
     return { success: deleted, message: deleted ? "Logged out successfully" : "Failed to invalidate session" };
   }),
 });
@@ -0,0 +1,231 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../trpc";
+import { db } from "@/lib/db";
+import { fundingSources, scheduledTransfers } from "@/lib/db/schema";
+import { and, desc, eq, inArray, lt, sql } from "drizzle-orm";
+import { Money, WHOLE_CENTS_MESSAGE } from "@/lib/money";
+import { getSettlementProcessor } from "../services/settlement";
+import { lookupRoutingNumber } from "../services/routingDirectory";
+import { routingNumberError } from "@/lib/routing";
+import {
+  assertValidCard,
+  assertValidRoutingNumber,
+  fundingFingerprint,
+  getOwnedFundingSource,
+  MICRO_DEPOSIT_MAX_ATTEMPTS,
+  microDepositsMatch,
+} from "../services/funding";
+
+const BRAND_NAMES: Record<string, string> = {
+  visa: "Visa",
+  mastercard: "Mastercard",
+  amex: "Amex",
+  discover: "Discover",
+};
+
+const nickname = z.string().trim().min(1, "Nickname cannot be empty").max(50, "Nickname is too long");
+
+const microDepositAmount = z
+  .number()
+  .min(0.01, "Micro-deposits are between $0.01 and $0.99")
+  .max(0.99, "Micro-deposits are between $0.01 and $0.99")
+  .refine(Money.isWholeCents, WHOLE_CENTS_MESSAGE);
+
+// Everything but the token, fingerprint and expected micro-deposits, which never leave the server
+function toPublicSource(source: typeof fundingSources.$inferSelect) {
+  return {
+    ...source,
+    token: undefined,
+    fingerprint: undefined,
+    microDeposit1Cents: undefined,
+    microDeposit2Cents: undefined,
+    verificationAttemptsRemaining: Math.max(0, MICRO_DEPOSIT_MAX_ATTEMPTS - source.verificationAttempts),
+  };
+}
+
+export const fundingSourceRouter = router({
+  add: protectedProcedure
+    .input(
+      z.discriminatedUnion("type", [
+        z.object({
+          type: z.literal("card"),
+          cardNumber: z.string().min(1, "Card number is required"),
+          nickname: nickname.optional(),
+        }),
+        z.object({
+          type: z.literal("bank"),
+          accountNumber: z.string().regex(/^\d{4,17}$/, "A valid bank account number is required"),
+          routingNumber: z.string(),
+          nickname: nickname.optional(),
+        }),
+      ])
+    )
+    .mutation(async ({ input, ctx }) => {
+      const processor = getSettlementProcessor();
+      const accountNumber = input.type === "card" ? input.cardNumber : input.accountNumber;
+      const brand = input.type === "card" ? assertValidCard(input.cardNumber) : null;
+      if (input.type === "bank") {
+        assertValidRoutingNumber(input.routingNumber);
+      }
+      const bank = input.type === "bank" ? lookupRoutingNumber(input.routingNumber) : null;
+
+      const fingerprint = fundingFingerprint(input.type, accountNumber, input.type === "bank" ? input.routingNumber : undefined);
+      const existing = db
+        .select()
+        .from(fundingSources)
+        .where(and(eq(fundingSources.userId, ctx.user.id), eq(fundingSources.fingerprint, fingerprint)))
+        .get();
+      if (existing) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `This ${input.type === "card" ? "card" : "bank account"} is already saved as "${existing.nickname}"`,
+        });
+      }
+
+      // Only the processor sees the full number; we keep its token and the last four digits
+      const { token } =
+        input.type === "card"
+          ? await processor.tokenizeCard(input.cardNumber)
+          : await processor.tokenizeBankAccount({ routingNumber: input.routingNumber, accountNumber });
+      const last4 = accountNumber.slice(-4);
+
+      // A linked bank account can't fund deposits until the customer confirms these amounts
+      const microDeposits =
+        input.type === "bank"
+          ? (await processor.sendMicroDeposits({ token, holderEmail: ctx.user.email, accountLast4: last4 })).amountsCents
+          : null;
+
+      const source = db
+        .insert(fundingSources)
+        .values({
+          userId: ctx.user.id,
+          type: input.type,
+          token,
+          last4,
+          brand,
+          routingNumber: input.type === "bank" ? input.routingNumber : null,
+          fingerprint,
+          nickname: input.nickname ?? `${brand ? BRAND_NAMES[brand] : bank!.name} ****${last4}`,
+          verificationStatus: microDeposits ? "pending" : "verified",
+          microDeposit1Cents: microDeposits?.[0],
+          microDeposit2Cents: microDeposits?.[1],
+        })
+        .returning()
+        .get();
+
+      return toPublicSource(source);
+    }),
+
+  // Lets the funding form name the bank while the customer is still typing
+  lookupRoutingNumber: protectedProcedure
+    .input(z.object({ routingNumber: z.string().max(9) }))
+    .query(async ({ input }) => {
+      const error = routingNumberError(input.routingNumber);
+      if (error) {
+        return { valid: false as const, error, bank: null };
+      }
+
+      const bank = lookupRoutingNumber(input.routingNumber);
+      return bank
+        ? { valid: true as const, error: null, bank: { name: bank.name, city: bank.city, state: bank.state } }
+        : { valid: false as const, error: "We don't recognize this routing number", bank: null };
+    }),
+
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const sources = await db
+      .select()
+      .from(fundingSources)
+      .where(eq(fundingSources.userId, ctx.user.id))
+      .orderBy(desc(fundingSources.createdAt), desc(fundingSources.id));
+
+    return sources.map(toPublicSource);
+  }),
+
+  verify: protectedProcedure
+    .input(z.object({ fundingSourceId: z.number(), amounts: z.tuple([microDepositAmount, microDepositAmount]) }))
+    .mutation(async ({ input, ctx }) => {
+      getOwnedFundingSource(db, input.fundingSourceId, ctx.user.id);
+
+      // Count the attempt before comparing, so concurrent guesses can't exceed the limit
+      const source = db
+        .update(fundingSources)
+        .set({ verificationAttempts: sql`${fundingSources.verificationAttempts} + 1` })
+        .where(
+          and(
+            eq(fundingSources.id, input.fundingSourceId),
+            eq(fundingSources.verificationStatus, "pending"),
+            lt(fundingSources.verificationAttempts, MICRO_DEPOSIT_MAX_ATTEMPTS)
+          )
+        )
+        .returning()
+        .get();
+
+      if (!source) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This funding source is not awaiting verification",
+        });
+      }
+
+      const amountsCents: [number, number] = [Money.fromDollars(input.amounts[0]), Money.fromDollars(input.amounts[1])];
+
+      if (microDepositsMatch(source, amountsCents)) {
+        const verified = db
+          .update(fundingSources)
+          .set({ verificationStatus: "verified", verifiedAt: new Date().toISOString() })
+          .where(eq(fundingSources.id, source.id))
+          .returning()
+          .get();
+
+        return toPublicSource(verified);
+      }
+
+      const remaining = MICRO_DEPOSIT_MAX_ATTEMPTS - source.verificationAttempts;
+      if (remaining === 0) {
+        db.update(fundingSources).set({ verificationStatus: "failed" }).where(eq(fundingSources.id, source.id)).run();
+      }
+
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message:
+          remaining > 0
+            ? `Those amounts don't match the deposits we sent. ${remaining} ${remaining === 1 ? "attempt" : "attempts"} remaining.`
+            : "Those amounts don't match the deposits we sent. This bank account could not be verified; remove it and link it again.",
+      });
+    }),
+
+  rename: protectedProcedure
+    .input(z.object({ fundingSourceId: z.number(), nickname }))
+    .mutation(async ({ input, ctx }) => {
+      const source = getOwnedFundingSource(db, input.fundingSourceId, ctx.user.id);
+
+      const renamed = db
+        .update(fundingSources)
+        .set({ nickname: input.nickname })
+        .where(eq(fundingSources.id, source.id))
+        .returning()
+        .get();
+
+      return toPublicSource(renamed);
+    }),
+
+  delete: protectedProcedure.input(z.object({ fundingSourceId: z.number() })).mutation(async ({ input, ctx }) => {
+    const source = getOwnedFundingSource(db, input.fundingSourceId, ctx.user.id);
+
+    // Scheduled deposits from this account have nothing left to pull from
+    db.transaction((tx) => {
+      tx.update(scheduledTransfers)
+        .set({ status: "cancelled", nextRunAt: null })
+        .where(
+          and(
+            eq(scheduledTransfers.fundingSourceId, source.id),
+            inArray(scheduledTransfers.status, ["active", "paused"])
+          )
+        )
+        .run();
+      tx.delete(fundingSources).where(eq(fundingSources.id, source.id)).run();
+    });
+    return { success: true };
+  }),
+});
@@ -1,10 +1,20 @@
 import { router } from "../trpc";
 import { authRouter } from "./auth";
 import { accountRouter } from "./account";
+import { fundingSourceRouter } from "./fundingSource";
+import { scheduleRouter } from "./schedule";
+import { securityRouter } from "./security";
+import { staffRouter } from "./staff";
+import { statementRouter } from "./statement";
 
 export const appRouter = router({
   auth: authRouter,
   account: accountRouter,
+  fundingSource: fundingSourceRouter,
+  schedule: scheduleRouter,
+  security: securityRouter,
+  staff: staffRouter,
+  statement: statementRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,172 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router, verifiedProcedure } from "../trpc";
+import { db } from "@/lib/db";
+import { scheduledTransferRuns, scheduledTransfers } from "@/lib/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { Money, WHOLE_CENTS_MESSAGE } from "@/lib/money";
+import { getOwnedActiveAccount } from "../services/accounts";
+import { getScheduleFundingSource, skipMissedOccurrences } from "../services/schedules";
+
+// A start time this far in the past is still accepted, to absorb clock skew and slow form submits
+const START_AT_GRACE_MS = 5 * 60 * 1000;
+
+const scheduleFields = {
+  toAccountId: z.number(),
+  amount: z
+    .number()
+    .min(0.01, "Amount must be at least $0.01")
+    .max(10000, "Amount cannot exceed $10,000")
+    .refine(Money.isWholeCents, WHOLE_CENTS_MESSAGE),
+  frequency: z.enum(["once", "weekly", "monthly"]),
+  startAt: z
+    .string()
+    .datetime()
+    .refine((val) => new Date(val).getTime() >= Date.now() - START_AT_GRACE_MS, "Start date cannot be in the past"),
+};
+
+function getOwnedSchedule(scheduleId: number, userId: number) {
+  const schedule = db
+    .select()
+    .from(scheduledTransfers)
+    .where(and(eq(scheduledTransfers.id, scheduleId), eq(scheduledTransfers.userId, userId)))
+    .get();
+
+  if (!schedule) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Scheduled transfer not found",
+    });
+  }
+
+  return schedule;
+}
+
+export const scheduleRouter = router({
+  create: verifiedProcedure
+    .input(
+      z
+        .discriminatedUnion("kind", [
+          z.object({
+            kind: z.literal("transfer"),
+            fromAccountId: z.number(),
+            ...scheduleFields,
+          }),
+          z.object({
+            kind: z.literal("deposit"),
+            // A saved bank account the customer has verified with micro-deposits
+            fundingSourceId: z.number(),
+            ...scheduleFields,
+          }),
+        ])
+        .refine((val) => val.kind !== "transfer" || val.fromAccountId !== val.toAccountId, {
+          message: "Cannot transfer to the same account",
+          path: ["toAccountId"],
+        })
+    )
+    .mutation(async ({ input, ctx }) => {
+      // Accounts and the funding source are checked again on every run, since they can change in the meantime
+      getOwnedActiveAccount(db, input.toAccountId, ctx.user.id);
+      const fundingSource =
+        input.kind === "deposit" ? getScheduleFundingSource(db, ctx.user.id, input.fundingSourceId).source : null;
+      if (input.kind === "transfer") {
+        getOwnedActiveAccount(db, input.fromAccountId, ctx.user.id);
+      }
+
+      const startAt = new Date(input.startAt).toISOString();
+
+      const schedule = await db
+        .insert(scheduledTransfers)
+        .values({
+          userId: ctx.user.id,
+          kind: input.kind,
+          fromAccountId: input.kind === "transfer" ? input.fromAccountId : null,
+          toAccountId: input.toAccountId,
+          amountCents: Money.fromDollars(input.amount),
+          ...(fundingSource && {
+            fundingSourceId: fundingSource.id,
+            fundingAccountLast4: fundingSource.last4,
+          }),
+          frequency: input.frequency,
+          startAt,
+          nextRunAt: startAt,
+          status: "active",
+        })
+        .returning()
+        .get();
+
+      return schedule;
+    }),
+
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const schedules = await db
+      .select()
+      .from(scheduledTransfers)
+      .where(eq(scheduledTransfers.userId, ctx.user.id))
+      .orderBy(desc(scheduledTransfers.createdAt), desc(scheduledTransfers.id));
+
+    return schedules.map((schedule) => {
+      const lastRun = db
+        .select()
+        .from(scheduledTransferRuns)
+        .where(eq(scheduledTransferRuns.scheduledTransferId, schedule.id))
+        .orderBy(desc(scheduledTransferRuns.occurrence))
+        .limit(1)
+        .get();
+
+      return { ...schedule, lastRun: lastRun ?? null };
+    });
+  }),
+
+  pause: protectedProcedure.input(z.object({ scheduleId: z.number() })).mutation(async ({ input, ctx }) => {
+    const schedule = getOwnedSchedule(input.scheduleId, ctx.user.id);
+
+    if (schedule.status !== "active") {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Only active schedules can be paused",
+      });
+    }
+
+    await db.update(scheduledTransfers).set({ status: "paused" }).where(eq(scheduledTransfers.id, schedule.id));
+    return { success: true };
+  }),
+
+  resume: verifiedProcedure.input(z.object({ scheduleId: z.number() })).mutation(async ({ input, ctx }) => {
+    const schedule = getOwnedSchedule(input.scheduleId, ctx.user.id);
+
+    if (schedule.status !== "paused") {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Only paused schedules can be resumed",
+      });
+    }
+
+    // Runs that fell due while paused are skipped, not sent all at once
+    const { runCount, nextRunAt } = skipMissedOccurrences(schedule, new Date());
+    await db
+      .update(scheduledTransfers)
+      .set({ status: "active", runCount, nextRunAt })
+      .where(eq(scheduledTransfers.id, schedule.id));
+
+    return { success: true, nextRunAt };
+  }),
+
+  cancel: protectedProcedure.input(z.object({ scheduleId: z.number() })).mutation(async ({ input, ctx }) => {
+    const schedule = getOwnedSchedule(input.scheduleId, ctx.user.id);
+
+    if (schedule.status !== "active" && schedule.status !== "paused") {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "This schedule has already ended",
+      });
+    }
+
+    await db
+      .update(scheduledTransfers)
+      .set({ status: "cancelled", nextRunAt: null })
+      .where(eq(scheduledTransfers.id, schedule.id));
+
+    return { success: true };
+  }),
+});
@@ -0,0 +1,195 @@
+import { z } from "zod";
+import bcrypt from "bcryptjs";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../trpc";
+import { db } from "@/lib/db";
+import { recoveryCodes, sessions, users } from "@/lib/db/schema";
+import { and, desc, eq, ne } from "drizzle-orm";
+import { encrypt } from "../services/encryption";
+import { renderQrSvgDataUri } from "../services/qr";
+import { generateTotpSecret, provisioningUri } from "../services/totp";
+import { countUnusedRecoveryCodes, replaceRecoveryCodes, verifySecondFactor } from "../services/twoFactor";
+import { clearSessionCookie, getSessionToken, isSessionLive } from "../services/sessions";
+
+const secondFactorCode = z.string().trim().min(1, "Enter a code from your authenticator app").max(20);
+
+function getUser(userId: number) {
+  return db.select().from(users).where(eq(users.id, userId)).get()!;
+}
+
+function assertSecondFactor(userId: number, code: string) {
+  const valid = db.transaction((tx) => verifySecondFactor(tx, userId, code));
+  if (!valid) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Invalid verification code",
+    });
+  }
+}
+
+export const securityRouter = router({
+  getStatus: protectedProcedure.query(async ({ ctx }) => {
+    const user = getUser(ctx.user.id);
+
+    return {
+      twoFactorEnabled: user.totpEnabledAt !== null,
+      twoFactorEnabledAt: user.totpEnabledAt,
+      recoveryCodesRemaining: user.totpEnabledAt ? countUnusedRecoveryCodes(db, user.id) : 0,
+    };
+  }),
+
+  // Starts (or restarts) enrollment with a fresh secret. Nothing changes at login until the
+  // user proves their app has it with confirmTwoFactor.
+  startTwoFactorEnrollment: protectedProcedure.mutation(async ({ ctx }) => {
+    const user = getUser(ctx.user.id);
+    if (user.totpEnabledAt) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Two-factor authentication is already on",
+      });
+    }
+
+    const secret = generateTotpSecret();
+    await db
+      .update(users)
+      .set({ totpSecret: encrypt(secret), totpLastStep: null })
+      .where(eq(users.id, user.id));
+
+    const uri = provisioningUri(secret, user.email);
+    return {
+      secret,
+      provisioningUri: uri,
+      qrCodeDataUri: renderQrSvgDataUri(uri),
+    };
+  }),
+
+  // Recovery codes are only ever returned here and by regenerateRecoveryCodes
+  confirmTwoFactor: protectedProcedure.input(z.object({ code: secondFactorCode })).mutation(async ({ input, ctx }) => {
+    const user = getUser(ctx.user.id);
+    if (user.totpEnabledAt || !user.totpSecret) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: user.totpEnabledAt ? "Two-factor authentication is already on" : "Start two-factor setup first",
+      });
+    }
+    // Only an app code proves the secret was captured, and no recovery codes exist yet
+    if (!/^\d{6}$/.test(input.code)) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Enter the 6-digit code from your authenticator app",
+      });
+    }
+    assertSecondFactor(user.id, input.code);
+
+    const codes = db.transaction((tx) => {
+      tx.update(users).set({ totpEnabledAt: new Date().toISOString() }).where(eq(users.id, user.id)).run();
+      return replaceRecoveryCodes(tx, user.id);
+    });
+
+    return { recoveryCodes: codes };
+  }),
+
+  disableTwoFactor: protectedProcedure
+    .input(z.object({ password: z.string().min(1, "Password is required"), code: secondFactorCode }))
+    .mutation(async ({ input, ctx }) => {
+      const user = getUser(ctx.user.id);
+      if (!user.totpEnabledAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Two-factor authentication is not on",
+        });
+      }
+      if (!(await bcrypt.compare(input.password, user.password))) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "Incorrect password",
+        });
+      }
+      assertSecondFactor(user.id, input.code);
+
+      db.transaction((tx) => {
+        tx.update(users)
+          .set({ totpSecret: null, totpEnabledAt: null, totpLastStep: null })
+          .where(eq(users.id, user.id))
+          .run();
+        tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, user.id)).run();
+      });
+
+      return { success: true };
+    }),
+
+  // Replaces every recovery code, used or not
+  regenerateRecoveryCodes: protectedProcedure
+    .input(z.object({ code: secondFactorCode }))
+    .mutation(async ({ input, ctx }) => {
+      const user = getUser(ctx.user.id);
+      if (!user.totpEnabledAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Two-factor authentication is not on",
+        });
+      }
+      assertSecondFactor(user.id, input.code);
+
+      return { recoveryCodes: db.transaction((tx) => replaceRecoveryCodes(tx, user.id)) };
+    }),
+
+  // Devices currently signed in, newest first. `current` marks the one making this request.
+  listSessions: protectedProcedure.query(async ({ ctx }) => {
+    const currentToken = getSessionToken(ctx.req);
+    const active = db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.userId, ctx.user.id))
+      .orderBy(desc(sessions.id))
+      .all()
+      .filter((session) => isSessionLive(session));
+
+    return active.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+      current: session.token === currentToken,
+    }));
+  }),
+
+  revokeSession: protectedProcedure.input(z.object({ sessionId: z.number() })).mutation(async ({ input, ctx }) => {
+    const revoked = db
+      .delete(sessions)
+      .where(and(eq(sessions.id, input.sessionId), eq(sessions.userId, ctx.user.id)))
+      .returning()
+      .get();
+
+    if (!revoked) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Session not found",
+      });
+    }
+    // Revoking this device is the same as signing out
+    if (revoked.token === getSessionToken(ctx.req)) {
+      clearSessionCookie(ctx.res);
+    }
+
+    return { success: true };
+  }),
+
+  // "Sign out everywhere else"
+  revokeOtherSessions: protectedProcedure.mutation(async ({ ctx }) => {
+    const currentToken = getSessionToken(ctx.req);
+    const revoked = db
+      .delete(sessions)
+      .where(
+        currentToken
+          ? and(eq(sessions.userId, ctx.user.id), ne(sessions.token, currentToken))
+          : eq(sessions.userId, ctx.user.id)
+      )
+      .returning({ id: sessions.id })
+      .all();
+
+    return { revoked: revoked.length };
+  }),
+});
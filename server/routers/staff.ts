@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, staffProcedure } from "../trpc";
+import { db } from "@/lib/db";
+import { accounts, accountStatusChanges } from "@/lib/db/schema";
+import { asc, eq } from "drizzle-orm";
+import { STATUS_REASONS, transitionAccountStatus } from "../services/accounts";
+
+const note = z.string().trim().max(500).optional();
+
+function getAccount(accountId: number) {
+  const account = db.select().from(accounts).where(eq(accounts.id, accountId)).get();
+  if (!account) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Account not found",
+    });
+  }
+  return account;
+}
+
+export const staffRouter = router({
+  // Stops all money movement on an account; in-flight deposits still settle into it
+  freezeAccount: staffProcedure
+    .input(
+      z.object({
+        accountId: z.number(),
+        reason: z.enum(STATUS_REASONS.frozen),
+        note,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const account = getAccount(input.accountId);
+
+      return db.transaction((tx) =>
+        transitionAccountStatus(tx, {
+          accountId: account.id,
+          to: "frozen",
+          reason: input.reason,
+          changedBy: ctx.user.id,
+          note: input.note,
+        })
+      );
+    }),
+
+  unfreezeAccount: staffProcedure.input(z.object({ accountId: z.number(), note })).mutation(async ({ input, ctx }) => {
+    const account = getAccount(input.accountId);
+    if (account.status !== "frozen") {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Account is not frozen",
+      });
+    }
+
+    return db.transaction((tx) =>
+      transitionAccountStatus(tx, {
+        accountId: account.id,
+        to: "active",
+        reason: "review_cleared",
+        changedBy: ctx.user.id,
+        note: input.note,
+      })
+    );
+  }),
+
+  listStatusChanges: staffProcedure.input(z.object({ accountId: z.number() })).query(async ({ input }) => {
+    const account = getAccount(input.accountId);
+
+    return db
+      .select()
+      .from(accountStatusChanges)
+      .where(eq(accountStatusChanges.accountId, account.id))
+      .orderBy(asc(accountStatusChanges.id))
+      .all();
+  }),
+});
@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../trpc";
+import { db } from "@/lib/db";
+import { accounts, statements } from "@/lib/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { formatPeriod, parseStatement } from "../services/statements";
+import { renderStatementHtml, renderStatementPdf } from "../services/statements/render";
+
+export const statementRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const rows = await db
+      .select({
+        id: statements.id,
+        accountId: statements.accountId,
+        period: statements.period,
+        openingBalanceCents: statements.openingBalanceCents,
+        closingBalanceCents: statements.closingBalanceCents,
+        generatedAt: statements.generatedAt,
+      })
+      .from(statements)
+      .innerJoin(accounts, eq(statements.accountId, accounts.id))
+      .where(eq(accounts.userId, ctx.user.id))
+      .orderBy(desc(statements.period), statements.accountId);
+
+    return rows.map((row) => ({ ...row, label: formatPeriod(row.period) }));
+  }),
+
+  // File contents are returned base64-encoded so both formats travel over the JSON transport
+  download: protectedProcedure
+    .input(
+      z.object({
+        statementId: z.number(),
+        format: z.enum(["pdf", "html"]),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const result = await db
+        .select({ statement: statements, account: accounts })
+        .from(statements)
+        .innerJoin(accounts, eq(statements.accountId, accounts.id))
+        .where(and(eq(statements.id, input.statementId), eq(accounts.userId, ctx.user.id)))
+        .get();
+
+      if (!result) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Statement not found",
+        });
+      }
+
+      const statement = parseStatement(result.statement);
+      const holder = {
+        name: `${ctx.user.firstName} ${ctx.user.lastName}`,
+        accountType: result.account.accountType,
+        accountNumber: result.account.accountNumber,
+      };
+      const filename = `securebank-${result.account.accountNumber.slice(-4)}-${statement.period}.${input.format}`;
+
+      if (input.format === "pdf") {
+        return {
+          filename,
+          mimeType: "application/pdf",
+          contentBase64: renderStatementPdf(statement, holder).toString("base64"),
+        };
+      }
+
+      return {
+        filename,
+        mimeType: "text/html",
+        contentBase64: Buffer.from(renderStatementHtml(statement, holder), "utf8").toString("base64"),
+      };
+    }),
+});
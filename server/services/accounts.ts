@@ -0,0 +1,165 @@
+import { and, eq, gte, lt, ne, notExists, or, isNull } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { db, type DbClient } from "@/lib/db";
+import { accounts, accountStatusChanges, transactions } from "@/lib/db/schema";
+
+export const ACCOUNT_STATUSES = ["pending", "active", "frozen", "dormant", "closed"] as const;
+export type AccountStatus = (typeof ACCOUNT_STATUSES)[number];
+
+// Where each status can go next. Closed is final.
+const TRANSITIONS: Record<AccountStatus, AccountStatus[]> = {
+  pending: ["active", "closed"],
+  active: ["frozen", "dormant", "closed"],
+  frozen: ["active", "closed"],
+  dormant: ["active", "frozen", "closed"],
+  closed: [],
+};
+
+// Reason codes accepted for entering each status
+export const STATUS_REASONS = {
+  pending: [],
+  active: ["opened", "review_cleared", "customer_reactivated"],
+  frozen: ["suspected_fraud", "legal_order", "compliance_review", "customer_request"],
+  dormant: ["inactivity"],
+  closed: ["customer_request"],
+} as const satisfies Record<AccountStatus, readonly string[]>;
+
+export type StatusReason = (typeof STATUS_REASONS)[AccountStatus][number];
+
+// Open (not closed) accounts a customer may hold of each type
+export const MAX_ACCOUNTS_PER_TYPE = Number(process.env.MAX_ACCOUNTS_PER_TYPE ?? 5);
+
+// Active accounts with no customer activity for this long become dormant
+export const DORMANCY_PERIOD_DAYS = Number(process.env.DORMANCY_PERIOD_DAYS ?? 365);
+
+const INACTIVE_MESSAGES: Record<Exclude<AccountStatus, "active">, string> = {
+  pending: "Account is not active yet",
+  frozen: "Account is frozen. Please contact support.",
+  dormant: "Account is dormant. Reactivate it before moving money.",
+  closed: "Account is closed",
+};
+
+export function getOwnedAccount(client: DbClient, accountId: number, userId: number) {
+  const account = client
+    .select()
+    .from(accounts)
+    .where(and(eq(accounts.id, accountId), eq(accounts.userId, userId)))
+    .get();
+
+  if (!account) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Account not found",
+    });
+  }
+
+  return account;
+}
+
+// Only active accounts can send or receive money
+export function assertAccountActive(account: typeof accounts.$inferSelect) {
+  if (account.status !== "active") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: INACTIVE_MESSAGES[account.status as Exclude<AccountStatus, "active">] ?? "Account is not active",
+    });
+  }
+}
+
+// Loads an account the user owns that can currently move money
+export function getOwnedActiveAccount(client: DbClient, accountId: number, userId: number) {
+  const account = getOwnedAccount(client, accountId, userId);
+  assertAccountActive(account);
+  return account;
+}
+
+// Moves an account along the state machine and records why. `changedBy` is the customer or
+// staff member who asked for it; system jobs leave it empty.
+export function transitionAccountStatus(
+  tx: DbClient,
+  change: {
+    accountId: number;
+    to: AccountStatus;
+    reason: StatusReason;
+    changedBy?: number | null;
+    note?: string;
+    now?: Date;
+  }
+) {
+  const account = tx.select().from(accounts).where(eq(accounts.id, change.accountId)).get();
+  if (!account) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Account not found",
+    });
+  }
+
+  const from = account.status as AccountStatus;
+  if (!TRANSITIONS[from].includes(change.to)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `A ${from} account cannot become ${change.to}`,
+    });
+  }
+  if (!(STATUS_REASONS[change.to] as readonly string[]).includes(change.reason)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `"${change.reason}" is not a reason for a ${change.to} account`,
+    });
+  }
+
+  const changedAt = (change.now ?? new Date()).toISOString();
+  tx.insert(accountStatusChanges)
+    .values({
+      accountId: account.id,
+      fromStatus: from,
+      toStatus: change.to,
+      reasonCode: change.reason,
+      note: change.note,
+      changedBy: change.changedBy ?? null,
+    })
+    .run();
+
+  return tx
+    .update(accounts)
+    .set({ status: change.to, statusReason: change.reason, statusChangedAt: changedAt })
+    .where(eq(accounts.id, account.id))
+    .returning()
+    .get();
+}
+
+// Marks active accounts dormant when nothing but interest has posted to them for the dormancy
+// period. An account opened or reactivated within the period is left alone.
+export function markDormantAccounts(now = new Date(), periodDays = DORMANCY_PERIOD_DAYS) {
+  const cutoff = new Date(now.getTime() - periodDays * 24 * 60 * 60 * 1000);
+  // `created_at` is "YYYY-MM-DD HH:MM:SS" (UTC); `status_changed_at` is ISO
+  const cutoffTimestamp = cutoff.toISOString().slice(0, 19).replace("T", " ");
+
+  const idle = db
+    .select({ id: accounts.id })
+    .from(accounts)
+    .where(
+      and(
+        eq(accounts.status, "active"),
+        lt(accounts.createdAt, cutoffTimestamp),
+        or(isNull(accounts.statusChangedAt), lt(accounts.statusChangedAt, cutoff.toISOString())),
+        notExists(
+          db
+            .select({ id: transactions.id })
+            .from(transactions)
+            .where(
+              and(
+                eq(transactions.accountId, accounts.id),
+                ne(transactions.type, "interest"),
+                gte(transactions.createdAt, cutoffTimestamp)
+              )
+            )
+        )
+      )
+    )
+    .all();
+
+  return db.transaction((tx) =>
+    idle.map(({ id }) => transitionAccountStatus(tx, { accountId: id, to: "dormant", reason: "inactivity", now }))
+  );
+}
@@ -0,0 +1,8 @@
+// Source of "now" for background work, so tests can drive time explicitly
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Objects are merged key by key at every level; anything else (arrays included) replaces the default
+export function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = key in base ? deepMerge(base[key], value) : value;
+  }
+  return merged;
+}
+
+// Reads a JSON setting such as FRAUD_CONFIG, overriding only the parts it names. Bad JSON or a
+// result that doesn't match the schema throws at startup, rather than leaving a rule or limit
+// comparing against undefined and quietly never firing.
+export function readJsonConfig<T>(
+  name: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  defaults: T,
+  raw: string | undefined = process.env[name]
+): T {
+  if (raw === undefined || raw.trim() === "") {
+    return defaults;
+  }
+
+  let override: unknown;
+  try {
+    override = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`${name} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = schema.safeParse(deepMerge(defaults, override));
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`${name} is invalid: ${issues.join("; ")}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,114 @@
+import crypto from "crypto";
+import { and, desc, eq, gt, gte, isNull, sql } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { db } from "@/lib/db";
+import { emailVerificationTokens, users } from "@/lib/db/schema";
+import { fingerprint } from "./encryption";
+import { APP_BASE_URL, sendMail } from "./mail";
+
+export const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+// A resend has to wait this long after the previous email...
+export const VERIFICATION_RESEND_INTERVAL_MS = 60 * 1000;
+// ...and no more than this many go out per day, counting the one sent at signup
+export const VERIFICATION_EMAILS_PER_DAY = 5;
+
+function verificationTokenHash(token: string) {
+  return fingerprint(`email-verification:${token}`);
+}
+
+// Issues a link and emails it. Earlier links stay valid until they expire; any of them proves
+// the same thing. A failed send is logged, and the user can ask for another.
+export async function sendVerificationEmail(user: typeof users.$inferSelect, now = new Date()) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  db.insert(emailVerificationTokens)
+    .values({
+      userId: user.id,
+      tokenHash: verificationTokenHash(token),
+      sentAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + EMAIL_VERIFICATION_TTL_MS).toISOString(),
+    })
+    .run();
+
+  try {
+    await sendMail({
+      to: user.email,
+      subject: "Verify your SecureBank email address",
+      text: [
+        `Hi ${user.firstName},`,
+        "",
+        "Please confirm this is your email address by opening this link:",
+        "",
+        `${APP_BASE_URL}/verify-email?token=${token}`,
+        "",
+        "You can move money once your address is verified. The link expires in 24 hours.",
+      ].join("\n"),
+    });
+  } catch (error) {
+    console.error(`Failed to send verification email to user ${user.id}:`, error);
+  }
+}
+
+export async function resendVerificationEmail(userId: number, now = new Date()) {
+  const user = db.select().from(users).where(eq(users.id, userId)).get()!;
+  if (user.emailVerifiedAt) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Your email address is already verified",
+    });
+  }
+
+  const last = db
+    .select({ sentAt: emailVerificationTokens.sentAt })
+    .from(emailVerificationTokens)
+    .where(eq(emailVerificationTokens.userId, userId))
+    .orderBy(desc(emailVerificationTokens.sentAt))
+    .get();
+  const waitMs = last ? new Date(last.sentAt).getTime() + VERIFICATION_RESEND_INTERVAL_MS - now.getTime() : 0;
+  if (waitMs > 0) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: `Please wait ${Math.ceil(waitMs / 1000)} seconds before asking for another email`,
+    });
+  }
+
+  const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
+  const sentToday = db
+    .select({ total: sql<number>`count(*)` })
+    .from(emailVerificationTokens)
+    .where(and(eq(emailVerificationTokens.userId, userId), gte(emailVerificationTokens.sentAt, dayAgo)))
+    .get();
+  if ((sentToday?.total ?? 0) >= VERIFICATION_EMAILS_PER_DAY) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "Too many verification emails today. Please try again tomorrow.",
+    });
+  }
+
+  await sendVerificationEmail(user, now);
+}
+
+// Spends a link and marks its user's address verified. Returns false for an unknown, used or
+// expired token.
+export function confirmEmailVerification(token: string, now = new Date()): boolean {
+  return db.transaction((tx) => {
+    const claimed = tx
+      .update(emailVerificationTokens)
+      .set({ usedAt: now.toISOString() })
+      .where(
+        and(
+          eq(emailVerificationTokens.tokenHash, verificationTokenHash(token)),
+          isNull(emailVerificationTokens.usedAt),
+          gt(emailVerificationTokens.expiresAt, now.toISOString())
+        )
+      )
+      .returning()
+      .get();
+    if (!claimed) return false;
+
+    tx.update(users)
+      .set({ emailVerifiedAt: now.toISOString() })
+      .where(and(eq(users.id, claimed.userId), isNull(users.emailVerifiedAt)))
+      .run();
+    return true;
+  });
+}
@@ -0,0 +1,30 @@
+import crypto from "crypto";
+
+// Derive a proper 32-byte key using SHA-256 hash (handles any input length)
+function getKey(): Buffer {
+  const rawKey = process.env.ENCRYPTION_KEY || "dev-fallback-encryption-key-only";
+  return crypto.createHash("sha256").update(rawKey).digest();
+}
+
+// AES-256-CBC with a random IV, stored as "iv:ciphertext" in hex
+export function encrypt(plaintext: string): string {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv("aes-256-cbc", getKey(), iv);
+  let encrypted = cipher.update(plaintext, "utf8", "hex");
+  encrypted += cipher.final("hex");
+  return iv.toString("hex") + ":" + encrypted;
+}
+
+export function decrypt(stored: string): string {
+  const [ivHex, encrypted] = stored.split(":");
+  const decipher = crypto.createDecipheriv("aes-256-cbc", getKey(), Buffer.from(ivHex, "hex"));
+  let decrypted = decipher.update(encrypted, "hex", "utf8");
+  decrypted += decipher.final("utf8");
+  return decrypted;
+}
+
+// Keyed SHA-256, for matching sensitive values (e.g. card numbers) without storing them
+export function fingerprint(value: string): string {
+  const secret = process.env.ENCRYPTION_KEY || "dev-fallback-encryption-key-only";
+  return crypto.createHmac("sha256", secret).update(value).digest("hex");
+}
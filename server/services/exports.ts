@@ -0,0 +1,152 @@
+import { Money, type Cents } from "@/lib/money";
+import { formatTransactionType, isCreditTransaction } from "@/lib/transactions";
+import type { accounts, transactions } from "@/lib/db/schema";
+
+export const EXPORT_FORMATS = ["csv", "ofx", "qif"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+type ExportAccount = Pick<typeof accounts.$inferSelect, "accountNumber" | "accountType" | "balanceCents">;
+type ExportTransaction = typeof transactions.$inferSelect;
+
+export type ExportRange = {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+};
+
+// OFX requires a bank identifier; SecureBank accounts are not addressed by routing number
+const OFX_BANK_ID = process.env.OFX_BANK_ID ?? "000000000";
+
+// Credits positive, debits negative
+export function signedAmountCents(transaction: ExportTransaction): Cents {
+  return isCreditTransaction(transaction.type) ? transaction.amountCents : -transaction.amountCents;
+}
+
+// Plain decimal for accounting tools, e.g. -1234.50 (no currency symbol or grouping)
+function toDecimal(cents: Cents): string {
+  return Money.toDollars(cents).toFixed(2);
+}
+
+// `created_at` is "YYYY-MM-DD HH:MM:SS" (UTC)
+function datePart(createdAt: string | null): string {
+  return (createdAt ?? "").slice(0, 10);
+}
+
+function csvField(value: string): string {
+  // Leading formula characters would be evaluated by spreadsheet apps
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function renderCsv(rows: ExportTransaction[]): string {
+  const lines = [["Transaction ID", "Date", "Type", "Description", "Amount", "Status"].join(",")];
+
+  for (const row of rows) {
+    lines.push(
+      [
+        String(row.id),
+        datePart(row.createdAt),
+        csvField(formatTransactionType(row.type)),
+        csvField(row.description ?? ""),
+        toDecimal(signedAmountCents(row)),
+        row.status,
+      ].join(",")
+    );
+  }
+
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function ofxDate(value: string): string {
+  return value.replace(/[-: ]/g, "").padEnd(14, "0");
+}
+
+const OFX_TRANSACTION_TYPES: Record<string, string> = {
+  deposit: "DEP",
+  withdrawal: "DEBIT",
+  transfer_in: "XFER",
+  transfer_out: "XFER",
+  payment_sent: "PAYMENT",
+  payment_received: "CREDIT",
+  interest: "INT",
+};
+
+// OFX 2.2 bank statement response; FITID is the SecureBank transaction id so re-imports dedupe
+export function renderOfx(rows: ExportTransaction[], account: ExportAccount, range: ExportRange, now = new Date()): string {
+  const serverTime = ofxDate(now.toISOString().slice(0, 19).replace("T", " "));
+  const status = "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>";
+
+  const entries = rows.map(
+    (row) => `          <STMTTRN>
+            <TRNTYPE>${OFX_TRANSACTION_TYPES[row.type] ?? (isCreditTransaction(row.type) ? "CREDIT" : "DEBIT")}</TRNTYPE>
+            <DTPOSTED>${ofxDate(row.createdAt ?? "")}</DTPOSTED>
+            <TRNAMT>${toDecimal(signedAmountCents(row))}</TRNAMT>
+            <FITID>${row.id}</FITID>
+            <NAME>${escapeXml((row.description || formatTransactionType(row.type)).slice(0, 32))}</NAME>
+            <MEMO>${escapeXml(row.description ?? "")}</MEMO>
+          </STMTTRN>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <SIGNONMSGSRSV1>
+    <SONRS>
+      ${status}
+      <DTSERVER>${serverTime}</DTSERVER>
+      <LANGUAGE>ENG</LANGUAGE>
+    </SONRS>
+  </SIGNONMSGSRSV1>
+  <BANKMSGSRSV1>
+    <STMTTRNRS>
+      <TRNUID>0</TRNUID>
+      ${status}
+      <STMTRS>
+        <CURDEF>USD</CURDEF>
+        <BANKACCTFROM>
+          <BANKID>${OFX_BANK_ID}</BANKID>
+          <ACCTID>${account.accountNumber}</ACCTID>
+          <ACCTTYPE>${account.accountType === "savings" ? "SAVINGS" : "CHECKING"}</ACCTTYPE>
+        </BANKACCTFROM>
+        <BANKTRANLIST>
+          <DTSTART>${ofxDate(range.start)}</DTSTART>
+          <DTEND>${ofxDate(`${range.end} 23:59:59`)}</DTEND>
+${entries.join("\n")}
+        </BANKTRANLIST>
+        <LEDGERBAL>
+          <BALAMT>${toDecimal(account.balanceCents)}</BALAMT>
+          <DTASOF>${serverTime}</DTASOF>
+        </LEDGERBAL>
+      </STMTRS>
+    </STMTTRNRS>
+  </BANKMSGSRSV1>
+</OFX>
+`;
+}
+
+// QIF has no escaping, so line breaks in free text would start a new field
+function qifText(value: string): string {
+  return value.replace(/[\r\n]+/g, " ");
+}
+
+// Quicken interchange format; the N (reference) field carries the SecureBank transaction id
+export function renderQif(rows: ExportTransaction[]): string {
+  const lines = ["!Type:Bank"];
+
+  for (const row of rows) {
+    const [year, month, day] = datePart(row.createdAt).split("-");
+    lines.push(
+      `D${month}/${day}/${year}`,
+      `T${toDecimal(signedAmountCents(row))}`,
+      `N${row.id}`,
+      `P${qifText(row.description || formatTransactionType(row.type))}`,
+      `M${qifText(formatTransactionType(row.type))}`,
+      "^"
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,328 @@
+import { z } from "zod";
+import { and, count, countDistinct, eq, gte, isNull, ne } from "drizzle-orm";
+import { db, type DbClient } from "@/lib/db";
+import { accounts, fraudDecisions, transactions } from "@/lib/db/schema";
+import { Money, type Cents } from "@/lib/money";
+import { readJsonConfig } from "./config";
+import type { FundingInstrument } from "./funding";
+import { postJournalEntry } from "./ledger";
+import { ACH_CLEARING_DELAY_MS, getSettlementProcessor } from "./settlement";
+
+export type FraudDecision = "allow" | "review" | "block";
+export type FiredRule = { rule: string; score: number; detail: string };
+
+export type FraudConfig = {
+  // Total scores at which a request is held for review or blocked outright
+  reviewScore: number;
+  blockScore: number;
+  // The same card or bank account already funded this many other customers
+  sharedFundingSource: { score: number; minOtherUsers: number };
+  // Funding attempts on one account within a short window
+  depositBurst: { score: number; maxAttempts: number; windowMinutes: number };
+  // A large first-day deposit into a brand new account
+  newAccountLargeDeposit: { score: number; minAmountCents: Cents; accountAgeHours: number };
+  // The customer was blocked recently
+  recentBlock: { score: number; windowHours: number };
+};
+
+const DEFAULT_FRAUD_CONFIG: FraudConfig = {
+  reviewScore: 50,
+  blockScore: 80,
+  sharedFundingSource: { score: 60, minOtherUsers: 2 },
+  depositBurst: { score: 40, maxAttempts: 3, windowMinutes: 10 },
+  newAccountLargeDeposit: { score: 30, minAmountCents: 500_000, accountAgeHours: 24 },
+  recentBlock: { score: 50, windowHours: 24 },
+};
+
+const ruleScore = z.number().int().min(0);
+const positiveInt = z.number().int().min(1);
+
+const fraudConfigSchema: z.ZodType<FraudConfig, z.ZodTypeDef, unknown> = z
+  .object({
+    reviewScore: ruleScore,
+    blockScore: ruleScore,
+    sharedFundingSource: z.object({ score: ruleScore, minOtherUsers: positiveInt }).strict(),
+    depositBurst: z.object({ score: ruleScore, maxAttempts: positiveInt, windowMinutes: positiveInt }).strict(),
+    newAccountLargeDeposit: z
+      .object({ score: ruleScore, minAmountCents: z.number().int().min(0), accountAgeHours: positiveInt })
+      .strict(),
+    recentBlock: z.object({ score: ruleScore, windowHours: positiveInt }).strict(),
+  })
+  .strict()
+  .refine((config) => config.reviewScore <= config.blockScore, {
+    message: "reviewScore cannot be above blockScore",
+    path: ["reviewScore"],
+  });
+
+// Override any part with FRAUD_CONFIG='{"reviewScore":40,"depositBurst":{"maxAttempts":5}}';
+// fields left out keep their defaults
+export const FRAUD_CONFIG: FraudConfig = readJsonConfig("FRAUD_CONFIG", fraudConfigSchema, DEFAULT_FRAUD_CONFIG);
+
+export type DepositScreeningRequest = {
+  userId: number;
+  account: typeof accounts.$inferSelect;
+  amountCents: Cents;
+  fundingSource: FundingInstrument;
+};
+
+type RuleContext = DepositScreeningRequest & { fingerprint: string; now: Date };
+
+type FraudRule = (client: DbClient, context: RuleContext, config: FraudConfig) => FiredRule | null;
+
+// `created_at` is "YYYY-MM-DD HH:MM:SS" (UTC)
+function toTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+function minutesBefore(now: Date, minutes: number): string {
+  return toTimestamp(new Date(now.getTime() - minutes * 60 * 1000));
+}
+
+const RULES: FraudRule[] = [
+  (client, context, config) => {
+    const { score, minOtherUsers } = config.sharedFundingSource;
+    const row = client
+      .select({ users: countDistinct(fraudDecisions.userId) })
+      .from(fraudDecisions)
+      .where(and(eq(fraudDecisions.fundingFingerprint, context.fingerprint), ne(fraudDecisions.userId, context.userId)))
+      .get();
+    const otherUsers = row?.users ?? 0;
+
+    return otherUsers >= minOtherUsers
+      ? { rule: "shared_funding_source", score, detail: `Funding source already used by ${otherUsers} other customers` }
+      : null;
+  },
+
+  (client, context, config) => {
+    const { score, maxAttempts, windowMinutes } = config.depositBurst;
+    const row = client
+      .select({ attempts: count() })
+      .from(fraudDecisions)
+      .where(
+        and(
+          eq(fraudDecisions.accountId, context.account.id),
+          gte(fraudDecisions.createdAt, minutesBefore(context.now, windowMinutes))
+        )
+      )
+      .get();
+    // Includes this request
+    const attempts = (row?.attempts ?? 0) + 1;
+
+    return attempts > maxAttempts
+      ? { rule: "deposit_burst", score, detail: `${attempts} funding attempts in ${windowMinutes} minutes` }
+      : null;
+  },
+
+  (_client, context, config) => {
+    const { score, minAmountCents, accountAgeHours } = config.newAccountLargeDeposit;
+    const openedAt = context.account.createdAt ?? "";
+
+    return context.amountCents >= minAmountCents && openedAt >= minutesBefore(context.now, accountAgeHours * 60)
+      ? {
+          rule: "new_account_large_deposit",
+          score,
+          detail: `${Money.format(context.amountCents)} into an account opened less than ${accountAgeHours} hours ago`,
+        }
+      : null;
+  },
+
+  (client, context, config) => {
+    const { score, windowHours } = config.recentBlock;
+    const row = client
+      .select({ blocks: count() })
+      .from(fraudDecisions)
+      .where(
+        and(
+          eq(fraudDecisions.userId, context.userId),
+          eq(fraudDecisions.decision, "block"),
+          gte(fraudDecisions.createdAt, minutesBefore(context.now, windowHours * 60))
+        )
+      )
+      .get();
+    const blocks = row?.blocks ?? 0;
+
+    return blocks > 0
+      ? { rule: "recent_block", score, detail: `${blocks} blocked funding attempts in the last ${windowHours} hours` }
+      : null;
+  },
+];
+
+export function evaluateDeposit(
+  client: DbClient,
+  context: RuleContext,
+  config: FraudConfig = FRAUD_CONFIG
+): { score: number; decision: FraudDecision; firedRules: FiredRule[] } {
+  const firedRules = RULES.map((rule) => rule(client, context, config)).filter((fired) => fired !== null);
+  const score = firedRules.reduce((total, fired) => total + fired.score, 0);
+  const decision = score >= config.blockScore ? "block" : score >= config.reviewScore ? "review" : "allow";
+
+  return { score, decision, firedRules };
+}
+
+// Scores a funding request and records the decision before any money moves, so blocked
+// attempts count towards later bursts. Held bank deposits keep the saved source's token, so the
+// ACH debit can be submitted if a reviewer approves it.
+export function screenDeposit(
+  client: DbClient,
+  request: DepositScreeningRequest,
+  now = new Date(),
+  config: FraudConfig = FRAUD_CONFIG
+) {
+  const context = {
+    ...request,
+    fingerprint: request.fundingSource.fingerprint,
+    now,
+  };
+  const { score, decision, firedRules } = evaluateDeposit(client, context, config);
+
+  return client
+    .insert(fraudDecisions)
+    .values({
+      userId: request.userId,
+      accountId: request.account.id,
+      amountCents: request.amountCents,
+      fundingSourceType: request.fundingSource.type,
+      fundingFingerprint: context.fingerprint,
+      fundingToken:
+        decision === "review" && request.fundingSource.type === "bank" ? request.fundingSource.credentials.token : null,
+      score,
+      decision,
+      rules: JSON.stringify(firedRules),
+    })
+    .returning()
+    .get();
+}
+
+export function linkDecisionToTransaction(tx: DbClient, decisionId: number, transactionId: number) {
+  tx.update(fraudDecisions).set({ transactionId }).where(eq(fraudDecisions.id, decisionId)).run();
+}
+
+// Holds a reserved deposit (see reserveFundingAllowance) pending until a reviewer releases it;
+// neither settlement sweep picks it up meanwhile. Cards carry their authorization so approval
+// only has to capture.
+export function recordHeldDeposit(tx: DbClient, deposit: { transactionId: number; authorizationId?: string }) {
+  return tx
+    .update(transactions)
+    .set({ processorReference: deposit.authorizationId ?? null })
+    .where(eq(transactions.id, deposit.transactionId))
+    .returning()
+    .get()!;
+}
+
+export function listPendingReviews() {
+  return db
+    .select()
+    .from(fraudDecisions)
+    .where(and(eq(fraudDecisions.decision, "review"), isNull(fraudDecisions.reviewOutcome)))
+    .all();
+}
+
+// Approving a held card deposit captures it and credits the account; approving a held bank
+// deposit submits the ACH debit, after which it settles like any other. Rejection fails the
+// deposit (an uncaptured card authorization simply lapses).
+export async function resolveFraudReview(
+  decisionId: number,
+  outcome: "approved" | "rejected",
+  reviewedBy: string,
+  now = new Date()
+) {
+  if (!reviewedBy.trim()) {
+    throw new Error("A review must record who made it");
+  }
+
+  const decision = db.select().from(fraudDecisions).where(eq(fraudDecisions.id, decisionId)).get();
+  if (!decision || decision.decision !== "review" || decision.reviewOutcome || !decision.transactionId) {
+    throw new Error(`Fraud decision ${decisionId} is not awaiting review`);
+  }
+
+  const deposit = db.select().from(transactions).where(eq(transactions.id, decision.transactionId)).get()!;
+  const review = {
+    reviewOutcome: outcome,
+    reviewedBy,
+    reviewedAt: now.toISOString(),
+    fundingToken: null,
+  };
+
+  // Only the review that moves the decision out of pending goes on, so two reviewers acting at
+  // once can't both capture the card or submit the debit
+  const claim = (tx: DbClient) => {
+    const claimed = tx
+      .update(fraudDecisions)
+      .set(review)
+      .where(and(eq(fraudDecisions.id, decision.id), isNull(fraudDecisions.reviewOutcome)))
+      .returning()
+      .get();
+    if (!claimed) {
+      throw new Error(`Fraud decision ${decisionId} is not awaiting review`);
+    }
+    return claimed;
+  };
+
+  const failDeposit = (tx: DbClient) => {
+    tx.update(transactions).set({ status: "failed", processedAt: now.toISOString() }).where(eq(transactions.id, deposit.id)).run();
+  };
+
+  if (outcome === "rejected") {
+    return db.transaction((tx) => {
+      const claimed = claim(tx);
+      failDeposit(tx);
+      return claimed;
+    });
+  }
+
+  // A deposit can't be let into an account that was frozen or closed while it was held; reject it instead
+  const account = db.select().from(accounts).where(eq(accounts.id, deposit.accountId)).get()!;
+  if (account.status !== "active") {
+    throw new Error(`Account ${account.id} is ${account.status}; this deposit can only be rejected`);
+  }
+
+  const claimed = db.transaction((tx) => claim(tx));
+
+  // If the processor can't be reached it took no money, so the decision goes back to waiting
+  // for a reviewer
+  const callProcessor = async <T>(call: () => Promise<T>): Promise<T> => {
+    try {
+      return await call();
+    } catch (error) {
+      db.update(fraudDecisions)
+        .set({ reviewOutcome: null, reviewedBy: null, reviewedAt: null, fundingToken: decision.fundingToken })
+        .where(eq(fraudDecisions.id, decision.id))
+        .run();
+      throw error;
+    }
+  };
+  const processor = getSettlementProcessor();
+
+  if (deposit.fundingSourceType === "card") {
+    const capture = await callProcessor(() => processor.captureCard(deposit.processorReference!, deposit.amountCents));
+
+    db.transaction((tx) => {
+      if (!capture.captured) {
+        failDeposit(tx);
+        return;
+      }
+      tx.update(transactions)
+        .set({ status: "settled", processorReference: capture.reference, processedAt: now.toISOString() })
+        .where(eq(transactions.id, deposit.id))
+        .run();
+      postJournalEntry(tx, {
+        description: "Deposit from card",
+        postings: [
+          { internalAccount: "card_clearing", direction: "debit", amountCents: deposit.amountCents },
+          { accountId: deposit.accountId, transactionId: deposit.id, direction: "credit", amountCents: deposit.amountCents },
+        ],
+      });
+    });
+    return claimed;
+  }
+
+  const { reference } = await callProcessor(() =>
+    processor.submitAchDebit({ token: decision.fundingToken!, amountCents: deposit.amountCents })
+  );
+
+  db.update(transactions)
+    .set({ processorReference: reference, settleAfter: new Date(now.getTime() + ACH_CLEARING_DELAY_MS).toISOString() })
+    .where(eq(transactions.id, deposit.id))
+    .run();
+  return claimed;
+}
@@ -0,0 +1,159 @@
+import { and, eq } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import type { DbClient } from "@/lib/db";
+import { fundingSources } from "@/lib/db/schema";
+import { routingNumberError } from "@/lib/routing";
+import { fingerprint } from "./encryption";
+import type { FundingSourceType } from "./limits";
+import type { Cents } from "@/lib/money";
+import { lookupRoutingNumber } from "./routingDirectory";
+import type { CardCredentials } from "./settlement";
+
+// BUG-07 fix: Luhn algorithm for card number validation
+export function isValidLuhn(cardNumber: string): boolean {
+  let sum = 0;
+  let isEven = false;
+  for (let i = cardNumber.length - 1; i >= 0; i--) {
+    let digit = parseInt(cardNumber[i], 10);
+    if (isEven) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+    isEven = !isEven;
+  }
+  return sum % 10 === 0;
+}
+
+// BUG-07 fix: Detect card type from number with broader network support
+export function detectCardType(cardNumber: string): string | null {
+  if (/^4\d{12}(\d{3})?$/.test(cardNumber)) return "visa";
+  if (/^5[1-5]\d{14}$/.test(cardNumber)) return "mastercard";
+  if (/^3[47]\d{13}$/.test(cardNumber)) return "amex";
+  if (/^6(?:011|5\d{2})\d{12}$/.test(cardNumber)) return "discover";
+  return null;
+}
+
+// Returns the card brand, or rejects numbers we cannot charge
+export function assertValidCard(cardNumber: string): string {
+  const cardType = detectCardType(cardNumber);
+  if (!cardType) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Invalid card number. We accept Visa, Mastercard, Amex, and Discover.",
+    });
+  }
+  if (!isValidLuhn(cardNumber)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Invalid card number. Please check and try again.",
+    });
+  }
+  return cardType;
+}
+
+// BUG-08 fix: require a real routing number for bank transfers: ABA prefix and checksum,
+// then a bank we can find in the routing directory
+export function assertValidRoutingNumber(routingNumber: string | undefined): asserts routingNumber is string {
+  const error = routingNumberError(routingNumber);
+  if (error) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: error,
+    });
+  }
+  if (!lookupRoutingNumber(routingNumber!)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "We don't recognize this routing number. Please check it with your bank.",
+    });
+  }
+}
+
+// Matches the same card or bank account across customers without storing its number. A bank
+// account number is only unique within its bank, so the routing number is part of it.
+export function fundingFingerprint(type: FundingSourceType, accountNumber: string, routingNumber?: string): string {
+  return fingerprint(type === "bank" ? `bank:${routingNumber}:${accountNumber}` : `${type}:${accountNumber}`);
+}
+
+// Wrong guesses allowed before a bank link fails and has to be linked again
+export const MICRO_DEPOSIT_MAX_ATTEMPTS = 3;
+
+// Either order is accepted, since the customer sees two deposits on their statement
+export function microDepositsMatch(source: typeof fundingSources.$inferSelect, amountsCents: [Cents, Cents]) {
+  const expected = [source.microDeposit1Cents, source.microDeposit2Cents].sort((a, b) => a! - b!);
+  const given = [...amountsCents].sort((a, b) => a - b);
+  return expected[0] === given[0] && expected[1] === given[1];
+}
+
+// What fundAccount charges: new card details typed into the form, or a saved source's processor
+// token. Bank accounts are always saved (and verified) sources.
+export type FundingInstrument =
+  | { type: "card"; fingerprint: string; credentials: CardCredentials }
+  | { type: "bank"; fingerprint: string; credentials: { token: string } };
+
+export type RawFundingDetails = {
+  type: FundingSourceType;
+  accountNumber: string;
+  routingNumber?: string;
+};
+
+export function getOwnedFundingSource(client: DbClient, fundingSourceId: number, userId: number) {
+  const source = client
+    .select()
+    .from(fundingSources)
+    .where(and(eq(fundingSources.id, fundingSourceId), eq(fundingSources.userId, userId)))
+    .get();
+
+  if (!source) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Funding source not found",
+    });
+  }
+
+  return source;
+}
+
+export function resolveFundingInstrument(
+  client: DbClient,
+  userId: number,
+  input: { fundingSource?: RawFundingDetails; fundingSourceId?: number }
+): FundingInstrument {
+  if (input.fundingSourceId !== undefined) {
+    const source = getOwnedFundingSource(client, input.fundingSourceId, userId);
+    if (source.verificationStatus === "pending") {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Confirm the two micro-deposits sent to this bank account before using it for deposits",
+      });
+    }
+    if (source.verificationStatus === "failed") {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "This bank account could not be verified. Remove it and link it again.",
+      });
+    }
+    return source.type === "card"
+      ? { type: "card", fingerprint: source.fingerprint, credentials: { token: source.token } }
+      : { type: "bank", fingerprint: source.fingerprint, credentials: { token: source.token } };
+  }
+
+  // Bank accounts are only charged once the customer has proven they own them
+  const details = input.fundingSource!;
+  if (details.type === "bank") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Link and verify your bank account before using it for deposits",
+    });
+  }
+
+  assertValidCard(details.accountNumber);
+  return {
+    type: "card",
+    fingerprint: fundingFingerprint("card", details.accountNumber),
+    credentials: { cardNumber: details.accountNumber },
+  };
+}
@@ -0,0 +1,74 @@
+import { and, eq, gte, inArray, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { transactions } from "@/lib/db/schema";
+import type { Cents } from "@/lib/money";
+
+export type TransactionFilters = {
+  fromDate?: string; // YYYY-MM-DD, inclusive
+  toDate?: string; // YYYY-MM-DD, inclusive
+  types?: string[];
+  statuses?: string[];
+  minAmountCents?: Cents;
+  maxAmountCents?: Cents;
+  search?: string;
+};
+
+// Position in the (createdAt, id) order; the next page starts strictly after it
+type Cursor = { createdAt: string; id: number };
+
+export function encodeCursor(transaction: { createdAt: string | null; id: number }): string {
+  return Buffer.from(JSON.stringify({ createdAt: transaction.createdAt ?? "", id: transaction.id })).toString(
+    "base64url"
+  );
+}
+
+export function decodeCursor(cursor: string): Cursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof parsed.createdAt === "string" && Number.isInteger(parsed.id)) {
+      return parsed;
+    }
+  } catch {
+    // fall through to the error below
+  }
+
+  throw new TRPCError({
+    code: "BAD_REQUEST",
+    message: "Invalid cursor",
+  });
+}
+
+function dayAfter(day: string): string {
+  return new Date(Date.parse(`${day}T00:00:00.000Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// LIKE pattern matching `text` literally anywhere in the value
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`;
+}
+
+// WHERE clause for one account's history. `created_at` is "YYYY-MM-DD HH:MM:SS" (UTC), so a
+// bare date compares as the start of that day.
+export function transactionHistoryWhere(accountId: number, filters: TransactionFilters): SQL {
+  const conditions: (SQL | undefined)[] = [eq(transactions.accountId, accountId)];
+
+  if (filters.fromDate) conditions.push(gte(transactions.createdAt, filters.fromDate));
+  if (filters.toDate) conditions.push(lt(transactions.createdAt, dayAfter(filters.toDate)));
+  if (filters.types?.length) conditions.push(inArray(transactions.type, filters.types));
+  if (filters.statuses?.length) conditions.push(inArray(transactions.status, filters.statuses));
+  if (filters.minAmountCents !== undefined) conditions.push(gte(transactions.amountCents, filters.minAmountCents));
+  if (filters.maxAmountCents !== undefined) conditions.push(lte(transactions.amountCents, filters.maxAmountCents));
+  if (filters.search) {
+    conditions.push(sql`${transactions.description} LIKE ${containsPattern(filters.search)} ESCAPE '\\'`);
+  }
+
+  return and(...conditions)!;
+}
+
+// Rows that come after `cursor` when sorted newest first by (createdAt, id)
+export function afterCursor(cursor: Cursor): SQL {
+  return or(
+    lt(transactions.createdAt, cursor.createdAt),
+    and(eq(transactions.createdAt, cursor.createdAt), lt(transactions.id, cursor.id))
+  )!;
+}
@@ -0,0 +1,184 @@
+import crypto from "crypto";
+import { and, eq, lt } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import type { DbClient } from "@/lib/db";
+import { idempotencyKeys } from "@/lib/db/schema";
+
+// A reservation older than this belongs to a request that crashed, and is given up so the key
+// can be used again rather than answering "still being processed" forever
+export const IDEMPOTENCY_PENDING_TTL_MS = 5 * 60 * 1000;
+
+export type IdempotentRequest = {
+  userId: number;
+  key: string | undefined;
+  scope: string;
+  payload: Record<string, unknown>;
+};
+
+// JSON with object keys sorted, so the same payload always hashes the same way
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Keyed hash so stored fingerprints reveal nothing about card or account numbers in the payload
+function fingerprint(scope: string, payload: Record<string, unknown>): string {
+  const secret = process.env.ENCRYPTION_KEY || "dev-fallback-encryption-key-only";
+  // The key itself is not part of the request being protected
+  const request = { ...payload, idempotencyKey: undefined };
+  return crypto.createHmac("sha256", secret).update(`${scope}:${stableStringify(request)}`).digest("hex");
+}
+
+// Stored result for a replayed request, or undefined for a new key. Throws if the key was
+// already used with a different payload, or if a request holding the key is still in flight.
+export function findIdempotentReplay<T>(client: DbClient, request: IdempotentRequest): T | undefined {
+  if (!request.key) return undefined;
+
+  const existing = client
+    .select()
+    .from(idempotencyKeys)
+    .where(and(eq(idempotencyKeys.userId, request.userId), eq(idempotencyKeys.key, request.key)))
+    .get();
+
+  if (!existing) return undefined;
+
+  if (existing.scope !== request.scope || existing.fingerprint !== fingerprint(request.scope, request.payload)) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "This idempotency key was already used for a different request",
+    });
+  }
+  if (existing.status === "pending") {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "A request with this idempotency key is still being processed",
+    });
+  }
+  if (existing.status === "failed") {
+    const { message } = JSON.parse(existing.response!) as { message: string };
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message });
+  }
+  return JSON.parse(existing.response!) as T;
+}
+
+// Runs `operation` at most once per (user, key). A replay with the same payload returns the stored
+// result; a replay with a different payload is rejected. Call inside the same `db.transaction(...)`
+// as the money movement so the key is only recorded if the movement commits.
+export function withIdempotency<T>(tx: DbClient, request: IdempotentRequest, operation: () => T): T {
+  if (!request.key) {
+    return operation();
+  }
+
+  const replay = findIdempotentReplay<T>(tx, request);
+  if (replay !== undefined) {
+    return replay;
+  }
+
+  const result = operation();
+
+  tx.insert(idempotencyKeys)
+    .values({
+      userId: request.userId,
+      key: request.key,
+      scope: request.scope,
+      fingerprint: fingerprint(request.scope, request.payload),
+      status: "completed",
+      response: JSON.stringify(result),
+    })
+    .run();
+
+  return result;
+}
+
+// For requests that call the processor before their database transaction, where withIdempotency
+// would claim the key too late: two concurrent requests could both reach the processor. Claims the
+// key up front with a pending row, which the unique (user, key) constraint lets only one request
+// hold. Returns the stored result for a replay, or undefined once the key is reserved; follow up
+// with completeIdempotencyKey or releaseIdempotencyKey.
+export function reserveIdempotencyKey<T>(client: DbClient, request: IdempotentRequest, now = new Date()): T | undefined {
+  if (!request.key) return undefined;
+
+  return client.transaction((tx) => {
+    tx.delete(idempotencyKeys)
+      .where(
+        and(
+          eq(idempotencyKeys.userId, request.userId),
+          eq(idempotencyKeys.key, request.key!),
+          eq(idempotencyKeys.status, "pending"),
+          lt(idempotencyKeys.createdAt, new Date(now.getTime() - IDEMPOTENCY_PENDING_TTL_MS).toISOString())
+        )
+      )
+      .run();
+
+    const replay = findIdempotentReplay<T>(tx, request);
+    if (replay !== undefined) {
+      return replay;
+    }
+
+    tx.insert(idempotencyKeys)
+      .values({
+        userId: request.userId,
+        key: request.key!,
+        scope: request.scope,
+        fingerprint: fingerprint(request.scope, request.payload),
+        status: "pending",
+        // ISO like the expiry it is compared with, not the column's SQLite default
+        createdAt: now.toISOString(),
+      })
+      .run();
+    return undefined;
+  });
+}
+
+// Stores the result against a reserved key. Call inside the transaction that records the money movement.
+export function completeIdempotencyKey<T>(tx: DbClient, request: IdempotentRequest, result: T): T {
+  if (request.key) {
+    tx.update(idempotencyKeys)
+      .set({ status: "completed", response: JSON.stringify(result) })
+      .where(and(eq(idempotencyKeys.userId, request.userId), eq(idempotencyKeys.key, request.key)))
+      .run();
+  }
+  return result;
+}
+
+// Frees a reserved key after a failure that moved no money, so the same request can be retried
+export function releaseIdempotencyKey(client: DbClient, request: IdempotentRequest) {
+  if (!request.key) return;
+
+  client
+    .delete(idempotencyKeys)
+    .where(
+      and(
+        eq(idempotencyKeys.userId, request.userId),
+        eq(idempotencyKeys.key, request.key),
+        eq(idempotencyKeys.status, "pending")
+      )
+    )
+    .run();
+}
+
+// Closes a reserved key whose request failed after the processor took the money. Retries get the
+// same error instead of moving the money a second time.
+export function failIdempotencyKey(client: DbClient, request: IdempotentRequest, message: string) {
+  if (!request.key) return;
+
+  client
+    .update(idempotencyKeys)
+    .set({ status: "failed", response: JSON.stringify({ message }) })
+    .where(
+      and(
+        eq(idempotencyKeys.userId, request.userId),
+        eq(idempotencyKeys.key, request.key),
+        eq(idempotencyKeys.status, "pending")
+      )
+    )
+    .run();
+}
@@ -0,0 +1,225 @@
+import { z } from "zod";
+import { and, asc, eq, isNull, lt, ne, sql } from "drizzle-orm";
+import { db, type DbClient } from "@/lib/db";
+import { accounts, interestAccruals, transactions } from "@/lib/db/schema";
+import type { Cents } from "@/lib/money";
+import { readJsonConfig } from "./config";
+import { getLedgerBalanceBefore, postJournalEntry } from "./ledger";
+
+// Interest is paid on the whole balance at the rate of the highest tier it reaches
+export type ApyTier = { minBalanceCents: Cents; apyBps: number };
+
+const DEFAULT_APY_TIERS: ApyTier[] = [
+  { minBalanceCents: 0, apyBps: 150 },
+  { minBalanceCents: 1_000_000, apyBps: 300 },
+  { minBalanceCents: 10_000_000, apyBps: 400 },
+];
+
+const apyTiersSchema = z
+  .array(z.object({ minBalanceCents: z.number().int().min(0), apyBps: z.number().int().min(0) }).strict())
+  .min(1);
+
+// Override with SAVINGS_APY_TIERS='[{"minBalanceCents":0,"apyBps":200}, ...]'; the list replaces the defaults
+export const SAVINGS_APY_TIERS: ApyTier[] = readJsonConfig("SAVINGS_APY_TIERS", apyTiersSchema, DEFAULT_APY_TIERS);
+
+const MICRO_CENTS_PER_CENT = 1_000_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getApyBps(balanceCents: Cents, tiers: ApyTier[] = SAVINGS_APY_TIERS): number {
+  let apyBps = 0;
+  for (const tier of [...tiers].sort((a, b) => a.minBalanceCents - b.minBalanceCents)) {
+    if (balanceCents >= tier.minBalanceCents) apyBps = tier.apyBps;
+  }
+  return apyBps;
+}
+
+function isLeapYear(year: number) {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+// Daily rate that compounds to the APY over the days in that calendar year, so Feb 29
+// earns a 1/366 share in a leap year rather than an extra 1/365
+export function dailyInterestMicroCents(balanceCents: Cents, apyBps: number, day: string): number {
+  if (balanceCents <= 0 || apyBps <= 0) return 0;
+
+  const daysInYear = isLeapYear(Number(day.slice(0, 4))) ? 366 : 365;
+  const dailyRate = Math.pow(1 + apyBps / 10_000, 1 / daysInYear) - 1;
+  return Math.round(balanceCents * dailyRate * MICRO_CENTS_PER_CENT);
+}
+
+// UTC calendar day, YYYY-MM-DD
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function nextDay(day: string): string {
+  return toDay(new Date(Date.parse(`${day}T00:00:00.000Z`) + DAY_MS));
+}
+
+// Balance after every journal entry written before the end of `day` (UTC)
+export function getEndOfDayBalance(client: DbClient, accountId: number, day: string): Cents {
+  return getLedgerBalanceBefore(client, accountId, nextDay(day));
+}
+
+// Records one accrual per savings account per completed UTC day, starting on the day the
+// account was opened. Days missed while the job was not running are filled in on the next run.
+export function accrueInterest(now = new Date(), tiers: ApyTier[] = SAVINGS_APY_TIERS) {
+  const today = toDay(now);
+  // Closed accounts were paid their interest on closing and earn nothing after
+  const savingsAccounts = db
+    .select()
+    .from(accounts)
+    .where(and(eq(accounts.accountType, "savings"), ne(accounts.status, "closed")))
+    .all();
+  let accrued = 0;
+
+  for (const account of savingsAccounts) {
+    db.transaction((tx) => {
+      const last = tx
+        .select({ day: sql<string | null>`max(${interestAccruals.accrualDate})` })
+        .from(interestAccruals)
+        .where(eq(interestAccruals.accountId, account.id))
+        .get();
+
+      let day = last?.day ? nextDay(last.day) : account.createdAt!.slice(0, 10);
+
+      while (day < today) {
+        const balanceCents = getEndOfDayBalance(tx, account.id, day);
+        const apyBps = getApyBps(balanceCents, tiers);
+
+        tx.insert(interestAccruals)
+          .values({
+            accountId: account.id,
+            accrualDate: day,
+            balanceCents,
+            apyBps,
+            amountMicroCents: dailyInterestMicroCents(balanceCents, apyBps, day),
+          })
+          .run();
+
+        accrued++;
+        day = nextDay(day);
+      }
+    });
+  }
+
+  return accrued;
+}
+
+function postInterestCredit(
+  tx: DbClient,
+  credit: { accountId: number; amountCents: Cents; description: string; journalDescription: string; creditedAt: string }
+) {
+  const { accountId, amountCents } = credit;
+  const transaction = tx
+    .insert(transactions)
+    .values({
+      accountId,
+      type: "interest",
+      amountCents,
+      description: credit.description,
+      status: "completed",
+      processedAt: credit.creditedAt,
+    })
+    .returning()
+    .get();
+
+  postJournalEntry(tx, {
+    description: credit.journalDescription,
+    postings: [
+      { internalAccount: "interest_expense", direction: "debit", amountCents },
+      { accountId, transactionId: transaction.id, direction: "credit", amountCents },
+    ],
+  });
+
+  return transaction.id;
+}
+
+// Pays each finished month's accruals as a single `interest` transaction, rounded to the cent
+export function creditMonthlyInterest(now = new Date()) {
+  const monthStart = `${toDay(now).slice(0, 7)}-01`;
+  const month = sql<string>`substr(${interestAccruals.accrualDate}, 1, 7)`;
+
+  const due = db
+    .select({
+      accountId: interestAccruals.accountId,
+      month,
+      totalMicroCents: sql<number>`sum(${interestAccruals.amountMicroCents})`,
+    })
+    .from(interestAccruals)
+    .where(and(isNull(interestAccruals.creditedAt), lt(interestAccruals.accrualDate, monthStart)))
+    .groupBy(interestAccruals.accountId, month)
+    .orderBy(asc(interestAccruals.accountId), asc(month))
+    .all();
+
+  for (const { accountId, month: period, totalMicroCents } of due) {
+    db.transaction((tx) => {
+      const amountCents = Math.round(totalMicroCents / MICRO_CENTS_PER_CENT);
+      const creditedAt = now.toISOString();
+      let transactionId: number | null = null;
+
+      if (amountCents > 0) {
+        const label = new Date(`${period}-01T00:00:00.000Z`).toLocaleDateString("en-US", {
+          month: "long",
+          year: "numeric",
+          timeZone: "UTC",
+        });
+
+        transactionId = postInterestCredit(tx, {
+          accountId,
+          amountCents,
+          description: `Interest for ${label}`,
+          journalDescription: `Savings interest for ${period}`,
+          creditedAt,
+        });
+      }
+
+      tx.update(interestAccruals)
+        .set({ transactionId, creditedAt })
+        .where(
+          and(
+            eq(interestAccruals.accountId, accountId),
+            isNull(interestAccruals.creditedAt),
+            sql`substr(${interestAccruals.accrualDate}, 1, 7) = ${period}`
+          )
+        )
+        .run();
+    });
+  }
+
+  return due.length;
+}
+
+// Pays everything accrued so far, whatever month it belongs to, when a savings account closes
+export function payAccruedInterest(tx: DbClient, accountId: number, now = new Date()) {
+  const amountCents = getAccruedInterest(tx, accountId);
+  const creditedAt = now.toISOString();
+  const transactionId =
+    amountCents > 0
+      ? postInterestCredit(tx, {
+          accountId,
+          amountCents,
+          description: "Interest to account closure",
+          journalDescription: "Savings interest to account closure",
+          creditedAt,
+        })
+      : null;
+
+  tx.update(interestAccruals)
+    .set({ transactionId, creditedAt })
+    .where(and(eq(interestAccruals.accountId, accountId), isNull(interestAccruals.creditedAt)))
+    .run();
+
+  return amountCents;
+}
+
+// Interest earned but not yet paid, rounded to the cent for display
+export function getAccruedInterest(client: DbClient, accountId: number): Cents {
+  const row = client
+    .select({ total: sql<number>`coalesce(sum(${interestAccruals.amountMicroCents}), 0)` })
+    .from(interestAccruals)
+    .where(and(eq(interestAccruals.accountId, accountId), isNull(interestAccruals.creditedAt)))
+    .get();
+
+  return Math.round((row?.total ?? 0) / MICRO_CENTS_PER_CENT);
+}
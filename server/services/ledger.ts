@@ -0,0 +1,126 @@
+import { and, eq, lt, sql } from "drizzle-orm";
+import type { DbClient } from "@/lib/db";
+import { accounts, journalEntries, ledgerPostings } from "@/lib/db/schema";
+import { Money, type Cents } from "@/lib/money";
+
+// Bank-side accounts that sit opposite customer accounts in journal entries
+export type InternalAccount =
+  | "card_clearing"
+  | "ach_clearing"
+  | "opening_balances"
+  | "interest_expense"
+  | "reconciliation_adjustments";
+
+export type Posting = {
+  direction: "debit" | "credit";
+  amountCents: Cents;
+} & ({ accountId: number; transactionId?: number } | { internalAccount: InternalAccount });
+
+export type JournalEntryInput = {
+  description: string;
+  postings: Posting[];
+};
+
+// Customer accounts are liabilities of the bank: credits raise the balance, debits lower it
+export function getLedgerBalance(client: DbClient, accountId: number): Cents {
+  const row = client
+    .select({
+      balance: sql<number>`coalesce(sum(case when ${ledgerPostings.direction} = 'credit' then ${ledgerPostings.amountCents} else -${ledgerPostings.amountCents} end), 0)`,
+    })
+    .from(ledgerPostings)
+    .where(eq(ledgerPostings.accountId, accountId))
+    .get();
+
+  return row?.balance ?? 0;
+}
+
+// Balance from journal entries written before `before`, compared against `journal_entries.created_at`
+// ("YYYY-MM-DD HH:MM:SS" UTC). A bare date such as "2028-03-01" means "before that day began".
+export function getLedgerBalanceBefore(client: DbClient, accountId: number, before: string): Cents {
+  const row = client
+    .select({
+      balance: sql<number>`coalesce(sum(case when ${ledgerPostings.direction} = 'credit' then ${ledgerPostings.amountCents} else -${ledgerPostings.amountCents} end), 0)`,
+    })
+    .from(ledgerPostings)
+    .innerJoin(journalEntries, eq(ledgerPostings.journalEntryId, journalEntries.id))
+    .where(and(eq(ledgerPostings.accountId, accountId), lt(journalEntries.createdAt, before)))
+    .get();
+
+  return row?.balance ?? 0;
+}
+
+// The single way money moves. Writes a balanced journal entry, applies it to the cached
+// `accounts.balance_cents`, and fails the surrounding transaction if the cache and the
+// postings ever disagree. Must be called inside `db.transaction(...)`.
+export function postJournalEntry(tx: DbClient, entry: JournalEntryInput) {
+  if (entry.postings.length < 2) {
+    throw new Error("A journal entry needs at least two postings");
+  }
+
+  let debits: Cents = 0;
+  let credits: Cents = 0;
+  for (const posting of entry.postings) {
+    if (!Number.isSafeInteger(posting.amountCents) || posting.amountCents <= 0) {
+      throw new Error(`Posting amount must be a positive number of cents, got ${posting.amountCents}`);
+    }
+    if (posting.direction === "debit") {
+      debits = Money.add(debits, posting.amountCents);
+    } else {
+      credits = Money.add(credits, posting.amountCents);
+    }
+  }
+
+  if (debits !== credits) {
+    throw new Error(`Unbalanced journal entry "${entry.description}": debits ${debits}, credits ${credits}`);
+  }
+
+  const journalEntry = tx.insert(journalEntries).values({ description: entry.description }).returning().get();
+
+  const balanceChanges = new Map<number, Cents>();
+  for (const posting of entry.postings) {
+    if ("accountId" in posting) {
+      tx.insert(ledgerPostings)
+        .values({
+          journalEntryId: journalEntry.id,
+          accountId: posting.accountId,
+          transactionId: posting.transactionId,
+          direction: posting.direction,
+          amountCents: posting.amountCents,
+        })
+        .run();
+
+      const delta = posting.direction === "credit" ? posting.amountCents : -posting.amountCents;
+      balanceChanges.set(posting.accountId, Money.add(balanceChanges.get(posting.accountId) ?? 0, delta));
+    } else {
+      tx.insert(ledgerPostings)
+        .values({
+          journalEntryId: journalEntry.id,
+          internalAccount: posting.internalAccount,
+          direction: posting.direction,
+          amountCents: posting.amountCents,
+        })
+        .run();
+    }
+  }
+
+  const balances = new Map<number, Cents>();
+  for (const [accountId, delta] of balanceChanges) {
+    const account = tx.select().from(accounts).where(eq(accounts.id, accountId)).get();
+    if (!account) {
+      throw new Error(`Ledger posting references unknown account ${accountId}`);
+    }
+
+    const newBalance = Money.add(account.balanceCents, delta);
+    const ledgerBalance = getLedgerBalance(tx, accountId);
+    if (newBalance !== ledgerBalance) {
+      throw new Error(
+        `Balance for account ${accountId} drifted from the ledger: cached ${newBalance}, postings ${ledgerBalance}`
+      );
+    }
+
+    tx.update(accounts).set({ balanceCents: newBalance }).where(eq(accounts.id, accountId)).run();
+    balances.set(accountId, newBalance);
+  }
+
+  return { journalEntry, balances };
+}
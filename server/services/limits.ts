@@ -0,0 +1,139 @@
+import { z } from "zod";
+import { and, eq, gte, ne, sql } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import type { DbClient } from "@/lib/db";
+import { accounts, transactions } from "@/lib/db/schema";
+import { Money, type Cents } from "@/lib/money";
+import { readJsonConfig } from "./config";
+
+export type FundingSourceType = "card" | "bank";
+export type LimitWindow = "daily" | "weekly" | "monthly";
+export type FundingLimits = Record<FundingSourceType, Record<LimitWindow, Cents>>;
+
+const DEFAULT_FUNDING_LIMITS: FundingLimits = {
+  card: { daily: 2_000_000, weekly: 5_000_000, monthly: 10_000_000 },
+  bank: { daily: 5_000_000, weekly: 10_000_000, monthly: 25_000_000 },
+};
+
+const limitCents = z.number().int().min(0);
+const windowLimits = z.object({ daily: limitCents, weekly: limitCents, monthly: limitCents }).strict();
+const fundingLimitsSchema = z.object({ card: windowLimits, bank: windowLimits }).strict();
+
+// Override with FUNDING_LIMITS='{"card":{"daily":250000},"bank":{...}}' (cents); windows left out
+// keep their defaults
+export const FUNDING_LIMITS: FundingLimits = readJsonConfig("FUNDING_LIMITS", fundingLimitsSchema, DEFAULT_FUNDING_LIMITS);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Windows are rolling, so a burst cannot straddle a calendar boundary to get twice the allowance
+const LIMIT_WINDOWS: { window: LimitWindow; durationMs: number; label: string }[] = [
+  { window: "daily", durationMs: 24 * HOUR_MS, label: "24 hours" },
+  { window: "weekly", durationMs: 7 * 24 * HOUR_MS, label: "7 days" },
+  { window: "monthly", durationMs: 30 * 24 * HOUR_MS, label: "30 days" },
+];
+
+export type LimitUsage = {
+  window: LimitWindow;
+  limitCents: Cents;
+  usedCents: Cents;
+  remainingCents: Cents;
+};
+
+// `created_at` is "YYYY-MM-DD HH:MM:SS" (UTC)
+function toTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+// Deposits the user has made from this kind of source since `since`, across all of their accounts.
+// Failed deposits never moved money; pending and returned ones still count against the allowance.
+function getFundedSince(client: DbClient, userId: number, sourceType: FundingSourceType, since: Date): Cents {
+  const row = client
+    .select({ total: sql<number>`coalesce(sum(${transactions.amountCents}), 0)` })
+    .from(transactions)
+    .innerJoin(accounts, eq(transactions.accountId, accounts.id))
+    .where(
+      and(
+        eq(accounts.userId, userId),
+        eq(transactions.type, "deposit"),
+        eq(transactions.fundingSourceType, sourceType),
+        ne(transactions.status, "failed"),
+        gte(transactions.createdAt, toTimestamp(since))
+      )
+    )
+    .get();
+
+  return row?.total ?? 0;
+}
+
+export function getFundingLimitUsage(
+  client: DbClient,
+  userId: number,
+  sourceType: FundingSourceType,
+  now = new Date(),
+  limits: FundingLimits = FUNDING_LIMITS
+): LimitUsage[] {
+  return LIMIT_WINDOWS.map(({ window, durationMs }) => {
+    const limitCents = limits[sourceType][window];
+    const usedCents = getFundedSince(client, userId, sourceType, new Date(now.getTime() - durationMs));
+    return { window, limitCents, usedCents, remainingCents: Math.max(0, Money.subtract(limitCents, usedCents)) };
+  });
+}
+
+// Rejects a deposit that would take the user past any of their limits for this source type,
+// naming the tightest window and what is left in it
+export function assertWithinFundingLimits(
+  client: DbClient,
+  userId: number,
+  sourceType: FundingSourceType,
+  amountCents: Cents,
+  now = new Date(),
+  limits: FundingLimits = FUNDING_LIMITS
+) {
+  const usage = getFundingLimitUsage(client, userId, sourceType, now, limits);
+  const exceeded = usage
+    .filter((entry) => amountCents > entry.remainingCents)
+    .sort((a, b) => a.remainingCents - b.remainingCents)[0];
+
+  if (!exceeded) return;
+
+  const { label } = LIMIT_WINDOWS.find((entry) => entry.window === exceeded.window)!;
+  const source = sourceType === "card" ? "card" : "bank account";
+  throw new TRPCError({
+    code: "BAD_REQUEST",
+    message:
+      `This deposit would exceed your ${exceeded.window} ${source} funding limit of ${Money.format(exceeded.limitCents)}. ` +
+      `You can add up to ${Money.format(exceeded.remainingCents)} more by ${source} in the current ${label}.`,
+  });
+}
+
+// Checks the limits and records the deposit as pending in one transaction, before the processor
+// is contacted, so concurrent requests count each other instead of all passing the same check.
+// The caller fills in the processor's outcome later, or releases the reservation if there is none.
+export function reserveFundingAllowance(
+  tx: DbClient,
+  deposit: { userId: number; accountId: number; sourceType: FundingSourceType; amountCents: Cents; description: string },
+  now = new Date()
+) {
+  assertWithinFundingLimits(tx, deposit.userId, deposit.sourceType, deposit.amountCents, now);
+
+  return tx
+    .insert(transactions)
+    .values({
+      accountId: deposit.accountId,
+      type: "deposit",
+      amountCents: deposit.amountCents,
+      description: deposit.description,
+      status: "pending",
+      fundingSourceType: deposit.sourceType,
+    })
+    .returning()
+    .get();
+}
+
+// Drops a reservation the processor never acted on, giving the allowance back
+export function releaseFundingReservation(client: DbClient, transactionId: number) {
+  client
+    .delete(transactions)
+    .where(and(eq(transactions.id, transactionId), eq(transactions.status, "pending")))
+    .run();
+}
@@ -0,0 +1,29 @@
+import { createOutboxTransport } from "./outbox";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Boundary to whatever delivers email. Swap in a real provider with setMailTransport.
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Base for links in outgoing mail
+export const APP_BASE_URL = process.env.APP_BASE_URL ?? "http://localhost:3000";
+
+let transport: MailTransport = createOutboxTransport();
+
+export function getMailTransport(): MailTransport {
+  return transport;
+}
+
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export function sendMail(message: MailMessage) {
+  return transport.send(message);
+}
@@ -0,0 +1,35 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { MailMessage, MailTransport } from ".";
+
+// Where the outbox transport drops messages unless told otherwise
+export const MAIL_OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR ?? path.join(process.cwd(), "data", "outbox");
+
+export type OutboxMessage = MailMessage & { sentAt: string };
+
+// Local stand-in for an email provider: each message is written to its own JSON file, so
+// development and tests can read what would have been sent without any network access.
+export function createOutboxTransport(dir = MAIL_OUTBOX_DIR): MailTransport {
+  return {
+    async send(message) {
+      const sentAt = new Date().toISOString();
+      await fs.promises.mkdir(dir, { recursive: true });
+      // Timestamp first so a directory listing sorts oldest to newest
+      const file = path.join(dir, `${sentAt.replace(/[:.]/g, "-")}-${crypto.randomUUID()}.json`);
+      await fs.promises.writeFile(file, JSON.stringify({ ...message, sentAt }, null, 2));
+    },
+  };
+}
+
+// Messages in an outbox directory, oldest first; optionally only those addressed to one recipient
+export function readOutbox(dir = MAIL_OUTBOX_DIR, to?: string): OutboxMessage[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .map((name) => JSON.parse(fs.readFileSync(path.join(dir, name), "utf8")) as OutboxMessage)
+    .filter((message) => !to || message.to === to);
+}
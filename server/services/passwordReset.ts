@@ -0,0 +1,130 @@
+import crypto from "crypto";
+import { TRPCError } from "@trpc/server";
+import { and, eq, gt, gte, isNull, lt, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { loginChallenges, passwordResetRequests, passwordResetTokens, sessions, users } from "@/lib/db/schema";
+import { fingerprint } from "./encryption";
+import { APP_BASE_URL, sendMail } from "./mail";
+
+export const PASSWORD_RESET_TTL_MS = 30 * 60 * 1000;
+
+// Reset requests allowed per email address and per client IP within the window
+export const PASSWORD_RESETS_PER_EMAIL = 3;
+export const PASSWORD_RESETS_PER_IP = 10;
+export const PASSWORD_RESET_WINDOW_MS = 60 * 60 * 1000;
+
+function resetTokenHash(token: string) {
+  return fingerprint(`password-reset:${token}`);
+}
+
+// Emails a reset link if the address belongs to a user, and otherwise does nothing. Callers
+// must answer the same either way: the limits count every address alike, and the email is
+// sent in the background so how long the request takes doesn't give the account away either.
+export function requestPasswordReset(email: string, ipAddress: string | null, now = new Date()) {
+  const address = email.toLowerCase();
+  const emailFingerprint = fingerprint(`password-reset-request:${address}`);
+  const windowStart = new Date(now.getTime() - PASSWORD_RESET_WINDOW_MS).toISOString();
+
+  const outcome = db.transaction((tx) => {
+    tx.delete(passwordResetRequests).where(lt(passwordResetRequests.requestedAt, windowStart)).run();
+    const recent = (match: ReturnType<typeof eq>) =>
+      tx
+        .select({ total: sql<number>`count(*)` })
+        .from(passwordResetRequests)
+        .where(and(match, gte(passwordResetRequests.requestedAt, windowStart)))
+        .get()?.total ?? 0;
+    if (
+      recent(eq(passwordResetRequests.emailFingerprint, emailFingerprint)) >= PASSWORD_RESETS_PER_EMAIL ||
+      (ipAddress && recent(eq(passwordResetRequests.ipAddress, ipAddress)) >= PASSWORD_RESETS_PER_IP)
+    ) {
+      return "limited" as const;
+    }
+    tx.insert(passwordResetRequests).values({ emailFingerprint, ipAddress, requestedAt: now.toISOString() }).run();
+
+    const user = tx.select().from(users).where(eq(users.email, address)).get();
+    if (!user) return null;
+
+    const token = crypto.randomBytes(32).toString("base64url");
+    // Only the newest link works
+    tx.delete(passwordResetTokens)
+      .where(and(eq(passwordResetTokens.userId, user.id), isNull(passwordResetTokens.usedAt)))
+      .run();
+    tx.insert(passwordResetTokens)
+      .values({
+        userId: user.id,
+        tokenHash: resetTokenHash(token),
+        expiresAt: new Date(now.getTime() + PASSWORD_RESET_TTL_MS).toISOString(),
+      })
+      .run();
+    return { user, token };
+  });
+
+  if (outcome === "limited") {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "Too many password reset requests. Please try again later.",
+    });
+  }
+  if (!outcome) return;
+
+  const { user, token } = outcome;
+  sendMail({
+    to: user.email,
+    subject: "Reset your SecureBank password",
+    text: [
+      `Hi ${user.firstName},`,
+      "",
+      "Someone asked to reset the password for your SecureBank account. To choose a new one, open this link:",
+      "",
+      `${APP_BASE_URL}/reset-password?token=${token}`,
+      "",
+      `The link works once and expires in ${PASSWORD_RESET_TTL_MS / 60000} minutes. If you didn't ask for this, you can ignore this email.`,
+    ].join("\n"),
+  }).catch((error) => {
+    console.error(`Failed to send password reset email to user ${user.id}:`, error);
+  });
+}
+
+// Spends a reset token and sets the new (already hashed) password. Every session and pending
+// two-factor sign-in is revoked, so anyone holding the old password is signed out. Returns the
+// user, or null if the token is unknown, used or expired.
+export async function completePasswordReset(token: string, passwordHash: string, now = new Date()) {
+  const user = db.transaction((tx) => {
+    const claimed = tx
+      .update(passwordResetTokens)
+      .set({ usedAt: now.toISOString() })
+      .where(
+        and(
+          eq(passwordResetTokens.tokenHash, resetTokenHash(token)),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, now.toISOString())
+        )
+      )
+      .returning()
+      .get();
+    if (!claimed) return null;
+
+    tx.update(users).set({ password: passwordHash }).where(eq(users.id, claimed.userId)).run();
+    tx.delete(sessions).where(eq(sessions.userId, claimed.userId)).run();
+    tx.delete(loginChallenges).where(eq(loginChallenges.userId, claimed.userId)).run();
+    return tx.select().from(users).where(eq(users.id, claimed.userId)).get()!;
+  });
+  if (!user) return null;
+
+  try {
+    await sendMail({
+      to: user.email,
+      subject: "Your SecureBank password was changed",
+      text: [
+        `Hi ${user.firstName},`,
+        "",
+        "The password for your SecureBank account was just reset, and every device was signed out.",
+        "If this wasn't you, contact us right away.",
+      ].join("\n"),
+    });
+  } catch (error) {
+    console.error(`Failed to send password change notice to user ${user.id}:`, error);
+  }
+
+  return user;
+}
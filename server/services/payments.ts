@@ -0,0 +1,68 @@
+import { and, asc, eq } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import type { DbClient } from "@/lib/db";
+import { accounts, users } from "@/lib/db/schema";
+
+// Largest single payment to another customer, in dollars
+export const MAX_PAYMENT_AMOUNT = 2500;
+
+// A recipient is identified by email or by the 10-digit number from generateAccountNumber
+export const ACCOUNT_NUMBER_PATTERN = /^\d{10}$/;
+
+// Enough to confirm the right person without revealing their full name: "John Doe" -> "J*** D."
+export function maskName(firstName: string, lastName: string): string {
+  const first = firstName.trim();
+  const last = lastName.trim();
+  return `${first.charAt(0)}${"*".repeat(Math.max(first.length - 1, 2))} ${last.charAt(0)}.`;
+}
+
+// Finds the account a payment should land in. Email lookups go to the recipient's oldest active
+// checking account when they have one, otherwise their oldest active account.
+export function resolveRecipient(client: DbClient, recipient: string, senderUserId: number) {
+  const notFound = new TRPCError({
+    code: "NOT_FOUND",
+    message: "No SecureBank customer matches that email or account number",
+  });
+
+  let account: typeof accounts.$inferSelect | undefined;
+
+  if (ACCOUNT_NUMBER_PATTERN.test(recipient)) {
+    account = client
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.accountNumber, recipient), eq(accounts.status, "active")))
+      .get();
+  } else {
+    const user = client.select().from(users).where(eq(users.email, recipient.toLowerCase())).get();
+    if (user) {
+      const active = client
+        .select()
+        .from(accounts)
+        .where(and(eq(accounts.userId, user.id), eq(accounts.status, "active")))
+        .orderBy(asc(accounts.id))
+        .all();
+      account = active.find((candidate) => candidate.accountType === "checking") ?? active[0];
+    }
+  }
+
+  if (!account) {
+    throw notFound;
+  }
+
+  if (account.userId === senderUserId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Use Transfer to move money between your own accounts",
+    });
+  }
+
+  const owner = client.select().from(users).where(eq(users.id, account.userId)).get();
+  if (!owner) {
+    throw notFound;
+  }
+
+  return {
+    account,
+    maskedName: maskName(owner.firstName, owner.lastName),
+  };
+}
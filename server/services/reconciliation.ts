@@ -0,0 +1,147 @@
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import { db, type DbClient } from "@/lib/db";
+import { accounts, balanceDiscrepancies, ledgerPostings, transactions } from "@/lib/db/schema";
+import { Money, type Cents } from "@/lib/money";
+import { POSTED_TRANSACTION_STATUSES, isCreditTransaction } from "@/lib/transactions";
+import { getLedgerBalance, postJournalEntry } from "./ledger";
+
+export type BalanceDiscrepancy = typeof balanceDiscrepancies.$inferSelect;
+
+// Balances carried into the ledger when it was introduced have no transaction behind them
+function getOpeningBalance(client: DbClient, accountId: number): Cents {
+  const openingEntries = client
+    .select({ id: ledgerPostings.journalEntryId })
+    .from(ledgerPostings)
+    .where(eq(ledgerPostings.internalAccount, "opening_balances"));
+
+  const row = client
+    .select({
+      balance: sql<number>`coalesce(sum(case when ${ledgerPostings.direction} = 'credit' then ${ledgerPostings.amountCents} else -${ledgerPostings.amountCents} end), 0)`,
+    })
+    .from(ledgerPostings)
+    .where(
+      and(
+        eq(ledgerPostings.accountId, accountId),
+        isNull(ledgerPostings.transactionId),
+        inArray(ledgerPostings.journalEntryId, openingEntries)
+      )
+    )
+    .get();
+
+  return row?.balance ?? 0;
+}
+
+// What the balance should be according to the account's history: every posted transaction,
+// signed by type, plus any opening balance. Returned deposits were credited and reversed, so
+// they net to zero and are left out along with pending and failed items.
+export function getExpectedBalance(client: DbClient, accountId: number): Cents {
+  const totals = client
+    .select({ type: transactions.type, total: sql<number>`sum(${transactions.amountCents})` })
+    .from(transactions)
+    .where(and(eq(transactions.accountId, accountId), inArray(transactions.status, POSTED_TRANSACTION_STATUSES)))
+    .groupBy(transactions.type)
+    .all();
+
+  return Money.sum([
+    getOpeningBalance(client, accountId),
+    ...totals.map((row) => (isCreditTransaction(row.type) ? row.total : -row.total)),
+  ]);
+}
+
+// Compares every account's cached balance and ledger balance with its posted transactions.
+// A mismatch opens a discrepancy (or refreshes the open one); an account that agrees again
+// resolves it. Runs synchronously so no write can land between an account's three reads.
+export function reconcileBalances(now = new Date()) {
+  const checkedAt = now.toISOString();
+  let accountsChecked = 0;
+
+  for (const account of db.select().from(accounts).all()) {
+    accountsChecked++;
+
+    const ledgerBalanceCents = getLedgerBalance(db, account.id);
+    const expectedBalanceCents = getExpectedBalance(db, account.id);
+    const open = db
+      .select()
+      .from(balanceDiscrepancies)
+      .where(and(eq(balanceDiscrepancies.accountId, account.id), eq(balanceDiscrepancies.status, "open")))
+      .get();
+
+    if (account.balanceCents === expectedBalanceCents && ledgerBalanceCents === expectedBalanceCents) {
+      if (open) {
+        db.update(balanceDiscrepancies)
+          .set({ status: "resolved", resolvedAt: checkedAt, lastCheckedAt: checkedAt })
+          .where(eq(balanceDiscrepancies.id, open.id))
+          .run();
+      }
+      continue;
+    }
+
+    const figures = {
+      balanceCents: account.balanceCents,
+      ledgerBalanceCents,
+      expectedBalanceCents,
+      differenceCents: Money.subtract(account.balanceCents, expectedBalanceCents),
+      lastCheckedAt: checkedAt,
+    };
+
+    if (open) {
+      db.update(balanceDiscrepancies).set(figures).where(eq(balanceDiscrepancies.id, open.id)).run();
+    } else {
+      db.insert(balanceDiscrepancies)
+        .values({ accountId: account.id, detectedAt: checkedAt, ...figures })
+        .run();
+    }
+  }
+
+  const discrepancies = db.select().from(balanceDiscrepancies).where(eq(balanceDiscrepancies.status, "open")).all();
+
+  return { accountsChecked, discrepancies };
+}
+
+// Brings an account back in line with its transactions. The cached balance is first rebuilt from
+// the ledger, then an adjusting entry against `reconciliation_adjustments` moves the ledger to the
+// expected balance. Figures are re-read here rather than trusted from the report.
+export function repairDiscrepancy(discrepancyId: number, approvedBy: string, now = new Date()) {
+  if (!approvedBy.trim()) {
+    throw new Error("A repair must record who approved it");
+  }
+
+  return db.transaction((tx) => {
+    const discrepancy = tx.select().from(balanceDiscrepancies).where(eq(balanceDiscrepancies.id, discrepancyId)).get();
+    if (!discrepancy || discrepancy.status !== "open") {
+      throw new Error(`Discrepancy ${discrepancyId} is not open`);
+    }
+
+    const account = tx.select().from(accounts).where(eq(accounts.id, discrepancy.accountId)).get()!;
+    const ledgerBalanceCents = getLedgerBalance(tx, account.id);
+    if (account.balanceCents !== ledgerBalanceCents) {
+      tx.update(accounts).set({ balanceCents: ledgerBalanceCents }).where(eq(accounts.id, account.id)).run();
+    }
+
+    const adjustmentCents = Money.subtract(getExpectedBalance(tx, account.id), ledgerBalanceCents);
+    let journalEntryId: number | null = null;
+
+    if (adjustmentCents !== 0) {
+      const amountCents = Math.abs(adjustmentCents);
+      const { journalEntry } = postJournalEntry(tx, {
+        description: `Reconciliation adjustment approved by ${approvedBy}`,
+        postings: [
+          { accountId: account.id, direction: adjustmentCents > 0 ? "credit" : "debit", amountCents },
+          {
+            internalAccount: "reconciliation_adjustments",
+            direction: adjustmentCents > 0 ? "debit" : "credit",
+            amountCents,
+          },
+        ],
+      });
+      journalEntryId = journalEntry.id;
+    }
+
+    return tx
+      .update(balanceDiscrepancies)
+      .set({ status: "repaired", resolvedAt: now.toISOString(), approvedBy, journalEntryId })
+      .where(eq(balanceDiscrepancies.id, discrepancy.id))
+      .returning()
+      .get();
+  });
+}
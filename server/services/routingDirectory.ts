@@ -0,0 +1,48 @@
+import fs from "fs";
+import path from "path";
+import { routingNumberError } from "@/lib/routing";
+
+export type RoutingDirectoryEntry = {
+  routingNumber: string;
+  name: string;
+  city: string;
+  state: string;
+};
+
+type RoutingDirectoryFile = {
+  updatedAt: string;
+  banks: RoutingDirectoryEntry[];
+};
+
+// Bundled copy of the participating-bank directory. Point ROUTING_DIRECTORY_PATH at a newer
+// file to update it; a changed file is picked up on the next lookup without a restart.
+export const ROUTING_DIRECTORY_PATH =
+  process.env.ROUTING_DIRECTORY_PATH ?? path.join(process.cwd(), "data", "routing-directory.json");
+
+let cached: { filePath: string; mtimeMs: number; banks: Map<string, RoutingDirectoryEntry> } | null = null;
+
+// Reads and checks a directory file. A bad entry fails the whole load rather than being skipped,
+// so a corrupt update can't quietly drop banks.
+export function loadRoutingDirectory(filePath = ROUTING_DIRECTORY_PATH): Map<string, RoutingDirectoryEntry> {
+  const mtimeMs = fs.statSync(filePath).mtimeMs;
+  if (cached?.filePath === filePath && cached.mtimeMs === mtimeMs) {
+    return cached.banks;
+  }
+
+  const file = JSON.parse(fs.readFileSync(filePath, "utf8")) as RoutingDirectoryFile;
+  const banks = new Map<string, RoutingDirectoryEntry>();
+  for (const entry of file.banks) {
+    const error = routingNumberError(entry.routingNumber);
+    if (error || !entry.name) {
+      throw new Error(`Routing directory ${filePath} has an invalid entry for "${entry.routingNumber}"`);
+    }
+    banks.set(entry.routingNumber, entry);
+  }
+
+  cached = { filePath, mtimeMs, banks };
+  return banks;
+}
+
+export function lookupRoutingNumber(routingNumber: string, filePath = ROUTING_DIRECTORY_PATH) {
+  return loadRoutingDirectory(filePath).get(routingNumber) ?? null;
+}
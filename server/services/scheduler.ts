@@ -0,0 +1,62 @@
+import { systemClock, type Clock } from "./clock";
+
+export type Job = {
+  name: string;
+  intervalMs: number;
+  run: (now: Date) => void | Promise<void>;
+};
+
+export type Scheduler = {
+  start(): void;
+  stop(): void;
+  // Runs every job that is due at the clock's current time; resolves when they have finished
+  tick(): Promise<void>;
+};
+
+// Runs jobs on fixed intervals in this process. Jobs run one after another, never overlapping,
+// and a failing job is logged without stopping the others.
+export function createScheduler(jobs: Job[], options: { clock?: Clock; tickMs?: number } = {}): Scheduler {
+  const clock = options.clock ?? systemClock;
+  const tickMs = options.tickMs ?? 5000;
+  const nextRunAt = new Map<string, number>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running: Promise<void> | null = null;
+
+  const runDueJobs = async () => {
+    for (const job of jobs) {
+      const now = clock.now();
+      if (now.getTime() < (nextRunAt.get(job.name) ?? 0)) continue;
+
+      try {
+        await job.run(now);
+      } catch (error) {
+        console.error(`Scheduled job "${job.name}" failed`, error);
+      }
+      nextRunAt.set(job.name, now.getTime() + job.intervalMs);
+    }
+  };
+
+  const tick = () => {
+    if (!running) {
+      running = runDueJobs().finally(() => {
+        running = null;
+      });
+    }
+    return running;
+  };
+
+  return {
+    start() {
+      if (timer) return;
+      void tick();
+      timer = setInterval(tick, tickMs);
+      // Never keep the process alive just for background jobs
+      timer.unref?.();
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+    tick,
+  };
+}
@@ -0,0 +1,255 @@
+import { and, asc, eq, lte } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { db, type DbClient } from "@/lib/db";
+import { scheduledTransferRuns, scheduledTransfers, users } from "@/lib/db/schema";
+import { getOwnedActiveAccount } from "./accounts";
+import { linkDecisionToTransaction, recordHeldDeposit, screenDeposit } from "./fraud";
+import { getOwnedFundingSource, resolveFundingInstrument } from "./funding";
+import { releaseFundingReservation, reserveFundingAllowance } from "./limits";
+import { getSettlementProcessor, recordPendingAchDeposit } from "./settlement";
+import { transferBetweenOwnAccounts } from "./transfers";
+
+export type Frequency = "once" | "weekly" | "monthly";
+
+type ScheduledTransfer = typeof scheduledTransfers.$inferSelect;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// The n-th (0-based) occurrence of a schedule, or null once a one-time schedule has run.
+// Monthly schedules keep the start day, clamped in shorter months (Jan 31, Feb 28, Mar 31).
+export function occurrenceAt(startAt: Date, frequency: Frequency, n: number): Date | null {
+  if (frequency === "once") {
+    return n === 0 ? startAt : null;
+  }
+
+  if (frequency === "weekly") {
+    return new Date(startAt.getTime() + n * WEEK_MS);
+  }
+
+  const monthIndex = startAt.getUTCMonth() + n;
+  const year = startAt.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = monthIndex % 12;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(startAt.getUTCDate(), daysInMonth),
+      startAt.getUTCHours(),
+      startAt.getUTCMinutes(),
+      startAt.getUTCSeconds(),
+      startAt.getUTCMilliseconds()
+    )
+  );
+}
+
+// Occurrence count and time of the first run after `now`, used when resuming a paused
+// recurring schedule so the runs missed while paused are skipped rather than replayed
+export function skipMissedOccurrences(schedule: ScheduledTransfer, now: Date) {
+  const startAt = new Date(schedule.startAt);
+  const frequency = schedule.frequency as Frequency;
+  let runCount = schedule.runCount;
+  let next = occurrenceAt(startAt, frequency, runCount);
+
+  while (frequency !== "once" && next && next <= now) {
+    runCount++;
+    next = occurrenceAt(startAt, frequency, runCount);
+  }
+
+  return { runCount, nextRunAt: next?.toISOString() ?? null };
+}
+
+// The saved bank account a scheduled deposit pulls from. It has to pass the same verification as
+// a one-off deposit (see resolveFundingInstrument) when the schedule is created and on every run.
+export function getScheduleFundingSource(client: DbClient, userId: number, fundingSourceId: number | null) {
+  if (fundingSourceId === null) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "The bank account for this deposit has been removed",
+    });
+  }
+
+  const instrument = resolveFundingInstrument(client, userId, { fundingSourceId });
+  if (instrument.type !== "bank") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Scheduled deposits come from a linked bank account",
+    });
+  }
+
+  return { source: getOwnedFundingSource(client, fundingSourceId, userId), instrument };
+}
+
+// Marks the occurrence pending and moves the schedule on to the next one before any money moves,
+// so only the worker that still sees the schedule active at this occurrence may process it.
+// Returns the run's id, or undefined if another worker got there first.
+function claimOccurrence(schedule: ScheduledTransfer): number | undefined {
+  return db.transaction((tx) => {
+    const current = tx.select().from(scheduledTransfers).where(eq(scheduledTransfers.id, schedule.id)).get();
+    if (current?.status !== "active" || current.runCount !== schedule.runCount) return undefined;
+
+    const run = tx
+      .insert(scheduledTransferRuns)
+      .values({
+        scheduledTransferId: schedule.id,
+        occurrence: schedule.runCount,
+        scheduledFor: schedule.nextRunAt!,
+        status: "pending",
+      })
+      .returning()
+      .get();
+
+    const next = occurrenceAt(new Date(schedule.startAt), schedule.frequency as Frequency, schedule.runCount + 1);
+    tx.update(scheduledTransfers)
+      .set({
+        runCount: schedule.runCount + 1,
+        nextRunAt: next?.toISOString() ?? null,
+        status: next ? "active" : "completed",
+      })
+      .where(eq(scheduledTransfers.id, schedule.id))
+      .run();
+
+    return run.id;
+  });
+}
+
+function finishRun(
+  client: DbClient,
+  runId: number,
+  outcome: { status: "succeeded"; transactionId: number } | { status: "failed"; error: string }
+) {
+  client
+    .update(scheduledTransferRuns)
+    .set({
+      status: outcome.status,
+      transactionId: outcome.status === "succeeded" ? outcome.transactionId : null,
+      error: outcome.status === "failed" ? outcome.error : null,
+    })
+    .where(eq(scheduledTransferRuns.id, runId))
+    .run();
+}
+
+async function runOccurrence(schedule: ScheduledTransfer, now: Date) {
+  const runId = claimOccurrence(schedule);
+  if (runId === undefined) return;
+
+  try {
+    if (schedule.kind === "deposit") {
+      // Check the account and bank before pulling money from it, and screen it like any deposit.
+      // The amount is held against the funding limits first, so concurrent deposits can't all pass.
+      const account = getOwnedActiveAccount(db, schedule.toAccountId, schedule.userId);
+      const { instrument } = getScheduleFundingSource(db, schedule.userId, schedule.fundingSourceId);
+      const description = `Scheduled deposit from bank ****${schedule.fundingAccountLast4}`;
+      const reservation = db.transaction((tx) =>
+        reserveFundingAllowance(
+          tx,
+          { userId: schedule.userId, accountId: account.id, sourceType: "bank", amountCents: schedule.amountCents, description },
+          now
+        )
+      );
+
+      let reference: string;
+      let screening: ReturnType<typeof screenDeposit>;
+      try {
+        screening = screenDeposit(
+          db,
+          { userId: schedule.userId, account, amountCents: schedule.amountCents, fundingSource: instrument },
+          now
+        );
+        if (screening.decision === "block") {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "This deposit could not be accepted. Please contact support if you believe this is a mistake.",
+          });
+        }
+
+        // Held for review: the ACH debit is only submitted once a reviewer approves it
+        if (screening.decision === "review") {
+          db.transaction((tx) => {
+            getOwnedActiveAccount(tx, schedule.toAccountId, schedule.userId);
+            recordHeldDeposit(tx, { transactionId: reservation.id });
+            linkDecisionToTransaction(tx, screening.id, reservation.id);
+            finishRun(tx, runId, { status: "succeeded", transactionId: reservation.id });
+          });
+          return;
+        }
+
+        ({ reference } = await getSettlementProcessor().submitAchDebit({
+          ...instrument.credentials,
+          amountCents: schedule.amountCents,
+        }));
+      } catch (error) {
+        // Nothing was pulled, so the allowance goes back
+        releaseFundingReservation(db, reservation.id);
+        throw error;
+      }
+      // Kept on the run straight away, so a debit that can't be recorded below can still be traced
+      db.update(scheduledTransferRuns)
+        .set({ processorReference: reference })
+        .where(eq(scheduledTransferRuns.id, runId))
+        .run();
+
+      db.transaction((tx) => {
+        getOwnedActiveAccount(tx, schedule.toAccountId, schedule.userId);
+        const deposit = recordPendingAchDeposit(tx, { transactionId: reservation.id, reference, now });
+        linkDecisionToTransaction(tx, screening.id, deposit.id);
+        finishRun(tx, runId, { status: "succeeded", transactionId: deposit.id });
+      });
+    } else {
+      db.transaction((tx) => {
+        const { fromTransaction } = transferBetweenOwnAccounts(tx, {
+          userId: schedule.userId,
+          fromAccountId: schedule.fromAccountId!,
+          toAccountId: schedule.toAccountId,
+          amountCents: schedule.amountCents,
+        });
+        finishRun(tx, runId, { status: "succeeded", transactionId: fromTransaction.id });
+      });
+    }
+  } catch (error) {
+    // Business failures (insufficient funds, inactive account) are expected; anything else is a bug
+    if (!(error instanceof TRPCError)) {
+      console.error(`Scheduled transfer ${schedule.id} failed`, error);
+    }
+
+    finishRun(db, runId, { status: "failed", error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+// Processes every occurrence due at `now`, oldest first across all schedules, so a server that
+// was down catches up on missed runs in the same order they would have happened. A failed
+// occurrence is recorded and the schedule moves on to the next one.
+export async function runDueScheduledTransfers(now = new Date()) {
+  let processed = 0;
+
+  for (;;) {
+    const due = db
+      .select({ schedule: scheduledTransfers, emailVerifiedAt: users.emailVerifiedAt })
+      .from(scheduledTransfers)
+      .innerJoin(users, eq(scheduledTransfers.userId, users.id))
+      .where(and(eq(scheduledTransfers.status, "active"), lte(scheduledTransfers.nextRunAt, now.toISOString())))
+      .orderBy(asc(scheduledTransfers.nextRunAt), asc(scheduledTransfers.id))
+      .limit(1)
+      .get();
+
+    if (!due) break;
+    const { schedule } = due;
+
+    // Money only moves for verified email addresses, like verifiedProcedure. Schedules set up
+    // before that was required wait, paused, for the customer to verify and resume them.
+    if (!due.emailVerifiedAt) {
+      db.update(scheduledTransfers)
+        .set({ status: "paused" })
+        .where(and(eq(scheduledTransfers.id, schedule.id), eq(scheduledTransfers.status, "active")))
+        .run();
+      console.warn(`Paused scheduled transfer ${schedule.id}: user ${schedule.userId} has not verified their email`);
+      continue;
+    }
+
+    await runOccurrence(schedule, now);
+    processed++;
+  }
+
+  return processed;
+}
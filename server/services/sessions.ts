@@ -0,0 +1,332 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { TRPCError } from "@trpc/server";
+import { db, type DbClient } from "@/lib/db";
+import { refreshTokens, sessions, users } from "@/lib/db/schema";
+import { and, desc, eq, gt, isNull, lte, notInArray } from "drizzle-orm";
+import { fingerprint } from "./encryption";
+
+// Access tokens are short-lived JWTs in the `session` cookie. The client trades the
+// `refresh_token` cookie for a new pair before or after one lapses; see refreshSession.
+export const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS ?? 15 * 60);
+
+// A session ends after this long without a request or refresh...
+export const SESSION_IDLE_TIMEOUT_MS = Number(process.env.SESSION_IDLE_TIMEOUT_MS ?? 30 * 60 * 1000);
+// ...and this long after sign-in however active it is
+export const SESSION_ABSOLUTE_TIMEOUT_MS = Number(process.env.SESSION_ABSOLUTE_TIMEOUT_MS ?? 7 * 24 * 60 * 60 * 1000);
+
+// How many devices can be signed in at once; signing in on another evicts the oldest
+export const MAX_SESSIONS_PER_USER = Number(process.env.MAX_SESSIONS_PER_USER ?? 5);
+
+// lastSeenAt is only rewritten when it is older than this, so most requests don't write
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+// Two tabs can race to refresh with the same token. The loser's token was rotated moments ago
+// by the winner, whose new refresh cookie it already shares, so it is handed the winner's access
+// token instead of being treated as theft; see isConcurrentRefresh.
+const REFRESH_RACE_GRACE_MS = 10 * 1000;
+
+// Addresses of the reverse proxies in front of the app, e.g. TRUSTED_PROXIES="10.0.0.2,10.0.0.3".
+// X-Forwarded-For is only believed as far back as it was written by one of them; see getClientIp.
+export const TRUSTED_PROXIES: ReadonlySet<string> = new Set(
+  (process.env.TRUSTED_PROXIES ?? "")
+    .split(",")
+    .map((address) => normalizeIp(address.trim()))
+    .filter(Boolean)
+);
+
+const REFRESH_COOKIE = "refresh_token";
+// Only the tRPC endpoint ever needs to see the refresh token
+const REFRESH_COOKIE_PATH = "/api/trpc";
+
+// Get JWT secret with validation
+export function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    console.error("CRITICAL: JWT_SECRET environment variable is not set. Using fallback for development only.");
+    return "temporary-secret-for-interview";
+  }
+  return secret;
+}
+
+// Adds a Set-Cookie header without replacing ones already set on this response
+function appendCookie(res: any, cookie: string) {
+  if ("setHeader" in res) {
+    const existing = res.getHeader?.("Set-Cookie");
+    res.setHeader("Set-Cookie", [...(existing ? [existing].flat() : []), cookie]);
+  } else {
+    (res as Headers).append("Set-Cookie", cookie);
+  }
+}
+
+function setAccessCookie(res: any, accessToken: string) {
+  appendCookie(res, `session=${accessToken}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${ACCESS_TOKEN_TTL_SECONDS}`);
+}
+
+function setSessionCookies(res: any, tokens: { accessToken: string; refreshToken: string; expiresAt: Date }) {
+  const refreshMaxAge = Math.max(0, Math.floor((tokens.expiresAt.getTime() - Date.now()) / 1000));
+  setAccessCookie(res, tokens.accessToken);
+  appendCookie(
+    res,
+    `${REFRESH_COOKIE}=${tokens.refreshToken}; Path=${REFRESH_COOKIE_PATH}; HttpOnly; SameSite=Strict; Max-Age=${refreshMaxAge}`
+  );
+}
+
+export function clearSessionCookie(res: any) {
+  appendCookie(res, "session=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0");
+  appendCookie(res, `${REFRESH_COOKIE}=; Path=${REFRESH_COOKIE_PATH}; HttpOnly; SameSite=Strict; Max-Age=0`);
+}
+
+// Works for both Next.js (plain object) and fetch (Headers) requests
+function readHeader(req: any, name: string): string | undefined {
+  const value = typeof req?.headers?.get === "function" ? req.headers.get(name) : req?.headers?.[name];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+}
+
+function readCookie(req: any, name: string): string | undefined {
+  const cookies = req?.cookies;
+  if (cookies) {
+    // NextRequest exposes a cookie store, Next.js API requests a plain object
+    const value = typeof cookies.get === "function" ? cookies.get(name)?.value : cookies[name];
+    if (value !== undefined) return value || undefined;
+  }
+  return readHeader(req, "cookie")
+    ?.split("; ")
+    .find((c: string) => c.startsWith(`${name}=`))
+    ?.split("=")[1] || undefined;
+}
+
+// The access token from the request's cookie, if any
+export function getSessionToken(req: any): string | undefined {
+  return readCookie(req, "session");
+}
+
+// IPv4 peers of a dual-stack socket show up as "::ffff:10.0.0.2"
+function normalizeIp(address: string) {
+  return address.startsWith("::ffff:") ? address.slice("::ffff:".length) : address;
+}
+
+// The address the request came from. Without trusted proxies that is whoever opened the
+// connection; anyone can write X-Forwarded-For, so it is ignored. Behind trusted proxies the
+// header is read from the right, skipping hops our own proxies added, and the first address
+// they didn't vouch for is the client. Route handlers get a fetch Request with no socket, so
+// there the app must only be reachable through the configured proxies.
+export function getClientIp(req: any, trustedProxies: ReadonlySet<string> = TRUSTED_PROXIES): string | null {
+  const remoteAddress: string | undefined = req?.socket?.remoteAddress;
+  const peer = remoteAddress ? normalizeIp(remoteAddress) : null;
+  if (trustedProxies.size === 0 || (peer && !trustedProxies.has(peer))) {
+    return peer;
+  }
+
+  const hops = (readHeader(req, "x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => normalizeIp(hop.trim()))
+    .filter(Boolean);
+  // If every hop was one of ours, the leftmost is as far back as we can see
+  return hops.findLast((hop) => !trustedProxies.has(hop)) ?? hops[0] ?? peer;
+}
+
+function describeClient(req: any) {
+  return {
+    userAgent: readHeader(req, "user-agent")?.slice(0, 512) ?? null,
+    ipAddress: getClientIp(req),
+  };
+}
+
+function refreshTokenHash(token: string) {
+  return fingerprint(`refresh-token:${token}`);
+}
+
+function signAccessToken(userId: number) {
+  // jwtid keeps tokens issued within the same second distinct
+  return jwt.sign({ userId }, getJwtSecret(), {
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    jwtid: crypto.randomUUID(),
+  });
+}
+
+function issueRefreshToken(tx: DbClient, sessionId: number, now: Date) {
+  const refreshToken = crypto.randomBytes(32).toString("base64url");
+  tx.insert(refreshTokens)
+    .values({ sessionId, tokenHash: refreshTokenHash(refreshToken), issuedAt: now.toISOString() })
+    .run();
+  return refreshToken;
+}
+
+// Whether a session is still usable: inside its absolute lifetime and not idle for too long
+export function isSessionLive(session: typeof sessions.$inferSelect, now = new Date()) {
+  if (!session.lastSeenAt || new Date(session.expiresAt) <= now) return false;
+  return now.getTime() - new Date(session.lastSeenAt).getTime() < SESSION_IDLE_TIMEOUT_MS;
+}
+
+// Signs the user in on this response: issues an access and refresh token, records the device
+// and sets the cookies. Other devices stay signed in, up to MAX_SESSIONS_PER_USER.
+export async function startSession(req: any, res: any, userId: number) {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_ABSOLUTE_TIMEOUT_MS);
+  const accessToken = signAccessToken(userId);
+
+  const refreshToken = db.transaction((tx) => {
+    const session = tx
+      .insert(sessions)
+      .values({
+        userId,
+        token: accessToken,
+        expiresAt: expiresAt.toISOString(),
+        ...describeClient(req),
+        lastSeenAt: now.toISOString(),
+      })
+      .returning()
+      .get();
+
+    // Expired sessions are dropped, then the oldest go once there are too many. Their refresh
+    // tokens go with them (ON DELETE CASCADE).
+    tx.delete(sessions)
+      .where(and(eq(sessions.userId, userId), lte(sessions.expiresAt, now.toISOString())))
+      .run();
+    const kept = tx
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(eq(sessions.userId, userId))
+      .orderBy(desc(sessions.id))
+      .limit(MAX_SESSIONS_PER_USER)
+      .all();
+    tx.delete(sessions)
+      .where(
+        and(
+          eq(sessions.userId, userId),
+          notInArray(
+            sessions.id,
+            kept.map((session) => session.id)
+          )
+        )
+      )
+      .run();
+
+    return issueRefreshToken(tx, session.id, now);
+  });
+
+  setSessionCookies(res, { accessToken, refreshToken, expiresAt });
+  return accessToken;
+}
+
+// A rotated refresh token presented again is only a racing tab when it was rotated moments ago,
+// its successor hasn't been used yet, and it comes from the device the session belongs to
+function isConcurrentRefresh(
+  tx: DbClient,
+  record: { refresh_tokens: typeof refreshTokens.$inferSelect; sessions: typeof sessions.$inferSelect },
+  req: any,
+  now: Date
+) {
+  const rotatedAt = new Date(record.refresh_tokens.rotatedAt!);
+  if (now.getTime() - rotatedAt.getTime() >= REFRESH_RACE_GRACE_MS) return false;
+
+  const successors = tx
+    .select()
+    .from(refreshTokens)
+    .where(and(eq(refreshTokens.sessionId, record.sessions.id), gt(refreshTokens.id, record.refresh_tokens.id)))
+    .all();
+  if (successors.length !== 1 || successors[0].rotatedAt) return false;
+
+  const client = describeClient(req);
+  return client.userAgent === record.sessions.userAgent && client.ipAddress === record.sessions.ipAddress;
+}
+
+// Trades the request's refresh token for a new access and refresh token pair, keeping the same
+// session. Each refresh token works once: presenting a rotated one again means it was copied, so
+// the whole session is revoked and everyone holding it has to sign in again. The one exception
+// is a tab that raced another on the same device, which gets the access token the winner was
+// issued. Idle and expired sessions are ended rather than refreshed.
+export function refreshSession(req: any, res: any, now = new Date()) {
+  const presented = readCookie(req, REFRESH_COOKIE);
+
+  const outcome = db.transaction((tx) => {
+    if (!presented) return { error: "expired" as const };
+
+    const record = tx
+      .select()
+      .from(refreshTokens)
+      .innerJoin(sessions, eq(refreshTokens.sessionId, sessions.id))
+      .where(eq(refreshTokens.tokenHash, refreshTokenHash(presented)))
+      .get();
+    if (!record) return { error: "expired" as const };
+
+    const session = record.sessions;
+    if (record.refresh_tokens.rotatedAt) {
+      if (isSessionLive(session, now) && isConcurrentRefresh(tx, record, req, now)) {
+        return { successorAccessToken: session.token };
+      }
+      tx.delete(sessions).where(eq(sessions.id, session.id)).run();
+      return { error: "reused" as const, session };
+    }
+    if (!isSessionLive(session, now)) {
+      tx.delete(sessions).where(eq(sessions.id, session.id)).run();
+      return { error: "expired" as const };
+    }
+
+    const rotated = tx
+      .update(refreshTokens)
+      .set({ rotatedAt: now.toISOString() })
+      .where(and(eq(refreshTokens.id, record.refresh_tokens.id), isNull(refreshTokens.rotatedAt)))
+      .returning({ id: refreshTokens.id })
+      .get();
+    if (!rotated) return { error: "raced" as const };
+
+    const accessToken = signAccessToken(session.userId);
+    tx.update(sessions)
+      .set({ token: accessToken, lastSeenAt: now.toISOString() })
+      .where(eq(sessions.id, session.id))
+      .run();
+    const refreshToken = issueRefreshToken(tx, session.id, now);
+
+    return { accessToken, refreshToken, expiresAt: new Date(session.expiresAt) };
+  });
+
+  if ("error" in outcome) {
+    if (outcome.error === "reused") {
+      console.warn(`Refresh token reused for session ${outcome.session.id} (user ${outcome.session.userId}); session revoked`);
+    }
+    // A racing request's cookies were just replaced by the winner; leave them alone
+    if (outcome.error !== "raced") {
+      clearSessionCookie(res);
+    }
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Your session has expired. Please sign in again.",
+    });
+  }
+
+  // The winner already set the shared refresh cookie, whose raw value we never keep
+  if (outcome.successorAccessToken !== undefined) {
+    setAccessCookie(res, outcome.successorAccessToken);
+    return outcome.successorAccessToken;
+  }
+
+  setSessionCookies(res, outcome);
+  return outcome.accessToken;
+}
+
+// The session a refresh token belongs to, if it is one this server issued
+export function findSessionByRefreshToken(req: any) {
+  const presented = readCookie(req, REFRESH_COOKIE);
+  if (!presented) return undefined;
+
+  return db
+    .select({ session: sessions })
+    .from(refreshTokens)
+    .innerJoin(sessions, eq(refreshTokens.sessionId, sessions.id))
+    .where(eq(refreshTokens.tokenHash, refreshTokenHash(presented)))
+    .get()?.session;
+}
+
+export function touchSession(session: typeof sessions.$inferSelect, now = new Date()) {
+  if (session.lastSeenAt && now.getTime() - new Date(session.lastSeenAt).getTime() < LAST_SEEN_RESOLUTION_MS) {
+    return;
+  }
+  db.update(sessions).set({ lastSeenAt: now.toISOString() }).where(eq(sessions.id, session.id)).run();
+}
+
+// What the client may see of a user: no password hash, SSN or two-factor secret
+export function toPublicUser(user: typeof users.$inferSelect) {
+  return { ...user, password: undefined, ssn: undefined, totpSecret: undefined, totpLastStep: undefined };
+}
@@ -0,0 +1,155 @@
+import { and, eq, gte, lte } from "drizzle-orm";
+import { db, type DbClient } from "@/lib/db";
+import { transactions } from "@/lib/db/schema";
+import type { Cents } from "@/lib/money";
+import { postJournalEntry } from "../ledger";
+import { createSimulatedProcessor } from "./simulator";
+
+export type CardAuthorization = { approved: true; authorizationId: string } | { approved: false; declineReason: string };
+
+export type CardCapture = { captured: true; reference: string } | { captured: false; failureReason: string };
+
+export type AchStatus =
+  | { status: "pending" }
+  | { status: "settled" }
+  | { status: "failed" | "returned"; returnCode: string };
+
+// Raw details typed in by the customer, or the processor's token for a saved funding source
+export type CardCredentials = { cardNumber: string } | { token: string };
+
+export type BankCredentials = { routingNumber: string; accountNumber: string } | { token: string };
+
+// Boundary to the card network / ACH operator. Swap in a real processor with setSettlementProcessor.
+export interface SettlementProcessor {
+  authorizeCard(request: CardCredentials & { amountCents: Cents }): Promise<CardAuthorization>;
+  captureCard(authorizationId: string, amountCents: Cents): Promise<CardCapture>;
+  submitAchDebit(request: BankCredentials & { amountCents: Cents }): Promise<{ reference: string }>;
+  getAchStatus(reference: string): Promise<AchStatus>;
+  // The processor keeps the number; we only ever store the token it hands back
+  tokenizeCard(cardNumber: string): Promise<{ token: string }>;
+  tokenizeBankAccount(details: { routingNumber: string; accountNumber: string }): Promise<{ token: string }>;
+  // Credits two small amounts of its choosing to a linked bank account and reports them back.
+  // The customer proves they own the account by reading them off their statement.
+  sendMicroDeposits(request: {
+    token: string;
+    holderEmail: string;
+    accountLast4: string;
+  }): Promise<{ reference: string; amountsCents: [Cents, Cents] }>;
+}
+
+// How long a bank deposit stays pending before we ask the processor whether it cleared
+export const ACH_CLEARING_DELAY_MS = Number(process.env.ACH_CLEARING_DELAY_MS ?? 2 * 60 * 1000);
+
+// How long after settlement an ACH debit can still come back as returned
+export const ACH_RETURN_WINDOW_MS = Number(process.env.ACH_RETURN_WINDOW_MS ?? 2 * 24 * 60 * 60 * 1000);
+
+let processor: SettlementProcessor = createSimulatedProcessor();
+
+export function getSettlementProcessor(): SettlementProcessor {
+  return processor;
+}
+
+export function setSettlementProcessor(next: SettlementProcessor) {
+  processor = next;
+}
+
+// Records a submitted ACH debit on its reserved deposit (see reserveFundingAllowance). It is
+// credited by settleDueDeposits once it clears.
+export function recordPendingAchDeposit(tx: DbClient, deposit: { transactionId: number; reference: string; now?: Date }) {
+  const now = deposit.now ?? new Date();
+
+  return tx
+    .update(transactions)
+    .set({
+      processorReference: deposit.reference,
+      settleAfter: new Date(now.getTime() + ACH_CLEARING_DELAY_MS).toISOString(),
+    })
+    .where(eq(transactions.id, deposit.transactionId))
+    .returning()
+    .get()!;
+}
+
+// Moves bank deposits through pending -> settled | failed | returned. Settlement credits the
+// account through the ledger; a return after settlement posts the reversing entry.
+// Deposits already in flight still settle into a frozen account: the money has left the
+// customer's bank, and a freeze stops it leaving ours. Closing waits for pending deposits.
+export async function settleDueDeposits(now = new Date()) {
+  const pending = db
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.type, "deposit"),
+        eq(transactions.fundingSourceType, "bank"),
+        eq(transactions.status, "pending"),
+        lte(transactions.settleAfter, now.toISOString())
+      )
+    )
+    .all();
+
+  for (const deposit of pending) {
+    const result = await processor.getAchStatus(deposit.processorReference!);
+    if (result.status === "pending") continue;
+
+    db.transaction((tx) => {
+      // Another sweep may have handled it while we were waiting on the processor
+      const current = tx.select().from(transactions).where(eq(transactions.id, deposit.id)).get();
+      if (current?.status !== "pending") return;
+
+      if (result.status === "settled") {
+        tx.update(transactions)
+          .set({ status: "settled", processedAt: now.toISOString() })
+          .where(eq(transactions.id, deposit.id))
+          .run();
+        postJournalEntry(tx, {
+          description: "Bank deposit settled",
+          postings: [
+            { internalAccount: "ach_clearing", direction: "debit", amountCents: deposit.amountCents },
+            { accountId: deposit.accountId, transactionId: deposit.id, direction: "credit", amountCents: deposit.amountCents },
+          ],
+        });
+      } else {
+        // Never credited, so there is nothing to reverse
+        tx.update(transactions)
+          .set({ status: result.status, returnCode: result.returnCode, processedAt: now.toISOString() })
+          .where(eq(transactions.id, deposit.id))
+          .run();
+      }
+    });
+  }
+
+  const recentlySettled = db
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.type, "deposit"),
+        eq(transactions.fundingSourceType, "bank"),
+        eq(transactions.status, "settled"),
+        gte(transactions.processedAt, new Date(now.getTime() - ACH_RETURN_WINDOW_MS).toISOString())
+      )
+    )
+    .all();
+
+  for (const deposit of recentlySettled) {
+    const result = await processor.getAchStatus(deposit.processorReference!);
+    if (result.status !== "returned") continue;
+
+    db.transaction((tx) => {
+      const current = tx.select().from(transactions).where(eq(transactions.id, deposit.id)).get();
+      if (current?.status !== "settled") return;
+
+      tx.update(transactions)
+        .set({ status: "returned", returnCode: result.returnCode })
+        .where(eq(transactions.id, deposit.id))
+        .run();
+      postJournalEntry(tx, {
+        description: `Bank deposit returned (${result.returnCode})`,
+        postings: [
+          { accountId: deposit.accountId, transactionId: deposit.id, direction: "debit", amountCents: deposit.amountCents },
+          { internalAccount: "ach_clearing", direction: "credit", amountCents: deposit.amountCents },
+        ],
+      });
+    });
+  }
+}
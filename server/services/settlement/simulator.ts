@@ -0,0 +1,85 @@
+import crypto from "crypto";
+import { Money, type Cents } from "@/lib/money";
+import { sendMail } from "../mail";
+import type { SettlementProcessor } from ".";
+
+type SimulatorOptions = {
+  now?: () => Date;
+  // Delay after submission before a "returned" ACH debit reports the return
+  returnAfterMs?: number;
+};
+
+// Card numbers the simulator declines, like a processor sandbox's test cards
+const DECLINED_CARDS = new Set(["4000000000000002"]);
+
+// Local stand-in for a card and ACH processor. Outcomes are driven by test account numbers:
+//   bank account ending 0001 -> settles, then returned R01 (insufficient funds)
+//   bank account ending 0003 -> fails R03 (no account / unable to locate)
+//   anything else            -> settles
+// The outcome and submit time are encoded in the reference, so results survive restarts.
+// Tokens carry the outcome of the number they stand for in the same way.
+// Micro-deposits never reach a real bank, so the amounts are mailed to the account holder in
+// place of the statement lines they would otherwise read them from.
+export function createSimulatedProcessor(options: SimulatorOptions = {}): SettlementProcessor {
+  const now = options.now ?? (() => new Date());
+  const returnAfterMs = options.returnAfterMs ?? 5 * 60 * 1000;
+
+  return {
+    async authorizeCard(request) {
+      const declined = "token" in request ? request.token.startsWith("sim-tok-card-decline-") : DECLINED_CARDS.has(request.cardNumber);
+      if (declined) {
+        return { approved: false, declineReason: "Insufficient funds" };
+      }
+      return { approved: true, authorizationId: `sim-auth-${crypto.randomUUID()}` };
+    },
+
+    async captureCard(authorizationId) {
+      return { captured: true, reference: authorizationId.replace("sim-auth-", "sim-cap-") };
+    },
+
+    async submitAchDebit(request) {
+      const outcome = "token" in request ? request.token.split("-")[3] : achOutcome(request.accountNumber);
+      return { reference: `sim-ach-${outcome}-${now().getTime()}-${crypto.randomBytes(4).toString("hex")}` };
+    },
+
+    async getAchStatus(reference) {
+      const [, , outcome, submittedAt] = reference.split("-");
+
+      if (outcome === "fail") {
+        return { status: "failed", returnCode: "R03" };
+      }
+      if (outcome === "return" && now().getTime() >= Number(submittedAt) + returnAfterMs) {
+        return { status: "returned", returnCode: "R01" };
+      }
+      return { status: "settled" };
+    },
+
+    async tokenizeCard(cardNumber) {
+      const outcome = DECLINED_CARDS.has(cardNumber) ? "decline" : "ok";
+      return { token: `sim-tok-card-${outcome}-${crypto.randomUUID()}` };
+    },
+
+    async tokenizeBankAccount({ accountNumber }) {
+      return { token: `sim-tok-bank-${achOutcome(accountNumber)}-${crypto.randomUUID()}` };
+    },
+
+    async sendMicroDeposits({ holderEmail, accountLast4 }) {
+      // Two independent amounts between 1 and 99 cents
+      const amountsCents: [Cents, Cents] = [crypto.randomInt(1, 100), crypto.randomInt(1, 100)];
+      await sendMail({
+        to: holderEmail,
+        subject: "Micro-deposits sent to your bank account",
+        text: [
+          `We sent two small deposits of ${Money.format(amountsCents[0])} and ${Money.format(amountsCents[1])} to your bank account ending ${accountLast4}.`,
+          "",
+          "Enter both amounts under Funding Sources to finish linking the account.",
+        ].join("\n"),
+      });
+      return { reference: `sim-micro-${now().getTime()}-${crypto.randomBytes(4).toString("hex")}`, amountsCents };
+    },
+  };
+}
+
+function achOutcome(accountNumber: string) {
+  return accountNumber.endsWith("0001") ? "return" : accountNumber.endsWith("0003") ? "fail" : "settle";
+}
@@ -0,0 +1,136 @@
+import { and, asc, eq, gte, lt, sql } from "drizzle-orm";
+import { db, type DbClient } from "@/lib/db";
+import { accounts, journalEntries, ledgerPostings, statements, transactions } from "@/lib/db/schema";
+import { Money, type Cents } from "@/lib/money";
+import { isCreditTransaction } from "@/lib/transactions";
+import { getLedgerBalanceBefore } from "../ledger";
+
+export type StatementLine = {
+  date: string; // YYYY-MM-DD (UTC)
+  description: string;
+  amountCents: Cents; // signed: credits positive, debits negative
+  balanceCents: Cents; // running balance after this line
+  transactionId: number | null;
+};
+
+export type Statement = Omit<typeof statements.$inferSelect, "lineItems"> & { lineItems: StatementLine[] };
+
+// Calendar months as "YYYY-MM", in UTC like the ledger timestamps
+function toPeriod(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function nextPeriod(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, "0")}`;
+}
+
+export function formatPeriod(period: string): string {
+  return new Date(`${period}-01T00:00:00.000Z`).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// Builds a statement from the ledger, so opening + activity always equals closing
+function buildStatement(client: DbClient, accountId: number, period: string) {
+  const start = `${period}-01`;
+  const end = `${nextPeriod(period)}-01`;
+  const openingBalanceCents = getLedgerBalanceBefore(client, accountId, start);
+
+  const postings = client
+    .select({
+      direction: ledgerPostings.direction,
+      amountCents: ledgerPostings.amountCents,
+      transactionId: ledgerPostings.transactionId,
+      entryDescription: journalEntries.description,
+      createdAt: journalEntries.createdAt,
+      transactionType: transactions.type,
+      transactionDescription: transactions.description,
+    })
+    .from(ledgerPostings)
+    .innerJoin(journalEntries, eq(ledgerPostings.journalEntryId, journalEntries.id))
+    .leftJoin(transactions, eq(ledgerPostings.transactionId, transactions.id))
+    .where(
+      and(
+        eq(ledgerPostings.accountId, accountId),
+        gte(journalEntries.createdAt, start),
+        lt(journalEntries.createdAt, end)
+      )
+    )
+    .orderBy(asc(journalEntries.createdAt), asc(journalEntries.id), asc(ledgerPostings.id))
+    .all();
+
+  let balanceCents = openingBalanceCents;
+  let totalCreditsCents: Cents = 0;
+  let totalDebitsCents: Cents = 0;
+
+  const lineItems = postings.map((posting): StatementLine => {
+    const isCredit = posting.direction === "credit";
+    const amountCents = isCredit ? posting.amountCents : -posting.amountCents;
+    balanceCents = Money.add(balanceCents, amountCents);
+    if (isCredit) {
+      totalCreditsCents = Money.add(totalCreditsCents, posting.amountCents);
+    } else {
+      totalDebitsCents = Money.add(totalDebitsCents, posting.amountCents);
+    }
+
+    // A posting against its transaction's usual direction is a reversal (e.g. a returned
+    // deposit), which the journal entry describes better than the original transaction
+    const matchesTransaction =
+      posting.transactionType !== null && isCreditTransaction(posting.transactionType) === isCredit;
+
+    return {
+      date: posting.createdAt!.slice(0, 10),
+      description: (matchesTransaction && posting.transactionDescription) || posting.entryDescription,
+      amountCents,
+      balanceCents,
+      transactionId: posting.transactionId,
+    };
+  });
+
+  return {
+    accountId,
+    period,
+    openingBalanceCents,
+    closingBalanceCents: balanceCents,
+    totalCreditsCents,
+    totalDebitsCents,
+    lineItems,
+  };
+}
+
+// Issues a statement for every account and every finished calendar month that does not have
+// one yet, starting with the month the account was opened. Existing statements are never touched.
+export function generateStatements(now = new Date()) {
+  const currentPeriod = toPeriod(now);
+  let generated = 0;
+
+  for (const account of db.select().from(accounts).all()) {
+    const last = db
+      .select({ period: sql<string | null>`max(${statements.period})` })
+      .from(statements)
+      .where(eq(statements.accountId, account.id))
+      .get();
+
+    let period = last?.period ? nextPeriod(last.period) : account.createdAt!.slice(0, 7);
+
+    while (period < currentPeriod) {
+      const statement = buildStatement(db, account.id, period);
+      db.insert(statements)
+        .values({ ...statement, lineItems: JSON.stringify(statement.lineItems) })
+        .onConflictDoNothing()
+        .run();
+
+      generated++;
+      period = nextPeriod(period);
+    }
+  }
+
+  return generated;
+}
+
+export function parseStatement(row: typeof statements.$inferSelect): Statement {
+  return { ...row, lineItems: JSON.parse(row.lineItems) as StatementLine[] };
+}
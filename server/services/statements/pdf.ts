@@ -0,0 +1,61 @@
+// Minimal PDF 1.4 writer for plain-text documents: monospaced lines, flowed onto Letter pages.
+// Enough for statements without pulling in a PDF library.
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const FONT_SIZE = 9;
+const LEADING = 13;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LEADING);
+
+// PDF string literal: escape delimiters and keep to printable ASCII for the standard Courier font
+function pdfString(text: string): string {
+  const ascii = text.replace(/[^\x20-\x7e]/g, "?");
+  return `(${ascii.replace(/[\\()]/g, (ch) => `\\${ch}`)})`;
+}
+
+export function renderTextPdf(lines: string[]): Buffer {
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // Object numbers: 1 catalog, 2 page tree, 3 font, then a page and a content stream per page
+  const pageObjectIds = pages.map((_, index) => 4 + index * 2);
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>",
+  ];
+
+  for (const [index, pageLines] of pages.entries()) {
+    const contentId = pageObjectIds[index] + 1;
+    const content = [
+      "BT",
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LEADING} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...pageLines.map((line) => `${pdfString(line)} '`),
+      "ET",
+    ].join("\n");
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+  }
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (const [index, body] of objects.entries()) {
+    offsets.push(Buffer.byteLength(output, "latin1"));
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, "latin1");
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+}
@@ -0,0 +1,100 @@
+import { Money } from "@/lib/money";
+import { formatPeriod, type Statement } from "./index";
+import { renderTextPdf } from "./pdf";
+
+export type StatementHolder = {
+  name: string;
+  accountType: string;
+  accountNumber: string;
+};
+
+function describeAccount(holder: StatementHolder) {
+  return `${holder.accountType.charAt(0).toUpperCase() + holder.accountType.slice(1)} ****${holder.accountNumber.slice(-4)}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function renderStatementHtml(statement: Statement, holder: StatementHolder): string {
+  const rows = statement.lineItems
+    .map(
+      (line) => `        <tr>
+          <td>${line.date}</td>
+          <td>${escapeHtml(line.description)}</td>
+          <td class="amount">${Money.format(line.amountCents)}</td>
+          <td class="amount">${Money.format(line.balanceCents)}</td>
+        </tr>`
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>SecureBank statement ${statement.period}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem; }
+      table { border-collapse: collapse; width: 100%; margin-top: 1rem; }
+      th, td { border-bottom: 1px solid #e5e7eb; padding: 0.4rem 0.6rem; text-align: left; }
+      .amount { text-align: right; font-variant-numeric: tabular-nums; }
+    </style>
+  </head>
+  <body>
+    <h1>SecureBank Statement</h1>
+    <p>${escapeHtml(holder.name)}<br />${describeAccount(holder)}<br />${formatPeriod(statement.period)}</p>
+    <table>
+      <tbody>
+        <tr><th>Opening balance</th><td class="amount">${Money.format(statement.openingBalanceCents)}</td></tr>
+        <tr><th>Total credits</th><td class="amount">${Money.format(statement.totalCreditsCents)}</td></tr>
+        <tr><th>Total debits</th><td class="amount">${Money.format(statement.totalDebitsCents)}</td></tr>
+        <tr><th>Closing balance</th><td class="amount">${Money.format(statement.closingBalanceCents)}</td></tr>
+      </tbody>
+    </table>
+    <table>
+      <thead>
+        <tr><th>Date</th><th>Description</th><th class="amount">Amount</th><th class="amount">Balance</th></tr>
+      </thead>
+      <tbody>
+${rows || '        <tr><td colspan="4">No activity this period.</td></tr>'}
+      </tbody>
+    </table>
+  </body>
+</html>
+`;
+}
+
+export function renderStatementPdf(statement: Statement, holder: StatementHolder): Buffer {
+  const row = (date: string, description: string, amount: string, balance: string) =>
+    `${date.padEnd(12)}${description.slice(0, 44).padEnd(46)}${amount.padStart(14)}${balance.padStart(16)}`;
+
+  const lines = [
+    "SecureBank Statement",
+    "",
+    holder.name,
+    describeAccount(holder),
+    formatPeriod(statement.period),
+    "",
+    `Opening balance  ${Money.format(statement.openingBalanceCents).padStart(16)}`,
+    `Total credits    ${Money.format(statement.totalCreditsCents).padStart(16)}`,
+    `Total debits     ${Money.format(statement.totalDebitsCents).padStart(16)}`,
+    `Closing balance  ${Money.format(statement.closingBalanceCents).padStart(16)}`,
+    "",
+    row("Date", "Description", "Amount", "Balance"),
+    "-".repeat(88),
+    ...statement.lineItems.map((line) =>
+      row(line.date, line.description, Money.format(line.amountCents), Money.format(line.balanceCents))
+    ),
+  ];
+
+  if (statement.lineItems.length === 0) {
+    lines.push("No activity this period.");
+  }
+
+  return renderTextPdf(lines);
+}
@@ -0,0 +1,77 @@
+import { eq } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import type { DbClient } from "@/lib/db";
+import { transactions } from "@/lib/db/schema";
+import type { Cents } from "@/lib/money";
+import { getOwnedActiveAccount } from "./accounts";
+import { postJournalEntry } from "./ledger";
+import { getAvailableBalance } from "./withdrawals";
+
+export type OwnTransferRequest = {
+  userId: number;
+  fromAccountId: number;
+  toAccountId: number;
+  amountCents: Cents;
+};
+
+// Moves money between two accounts owned by the same user as a linked transfer_out/transfer_in
+// pair. Both legs are written in the caller's SQLite transaction so a failure can never leave
+// money debited from one account without being credited to the other.
+export function transferBetweenOwnAccounts(tx: DbClient, request: OwnTransferRequest) {
+  const { amountCents } = request;
+  const processedAt = new Date().toISOString();
+
+  const fromAccount = getOwnedActiveAccount(tx, request.fromAccountId, request.userId);
+  const toAccount = getOwnedActiveAccount(tx, request.toAccountId, request.userId);
+
+  if (getAvailableBalance(tx, fromAccount) < amountCents) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Insufficient funds",
+    });
+  }
+
+  const debit = tx
+    .insert(transactions)
+    .values({
+      accountId: fromAccount.id,
+      type: "transfer_out",
+      amountCents,
+      description: `Transfer to ${toAccount.accountType} ****${toAccount.accountNumber.slice(-4)}`,
+      status: "completed",
+      processedAt,
+    })
+    .returning()
+    .get();
+
+  const credit = tx
+    .insert(transactions)
+    .values({
+      accountId: toAccount.id,
+      type: "transfer_in",
+      amountCents,
+      description: `Transfer from ${fromAccount.accountType} ****${fromAccount.accountNumber.slice(-4)}`,
+      status: "completed",
+      processedAt,
+      linkedTransactionId: debit.id,
+    })
+    .returning()
+    .get();
+
+  tx.update(transactions).set({ linkedTransactionId: credit.id }).where(eq(transactions.id, debit.id)).run();
+
+  const { balances } = postJournalEntry(tx, {
+    description: "Transfer between own accounts",
+    postings: [
+      { accountId: fromAccount.id, transactionId: debit.id, direction: "debit", amountCents },
+      { accountId: toAccount.id, transactionId: credit.id, direction: "credit", amountCents },
+    ],
+  });
+
+  return {
+    fromTransaction: { ...debit, linkedTransactionId: credit.id },
+    toTransaction: credit,
+    fromBalanceCents: balances.get(fromAccount.id)!,
+    toBalanceCents: balances.get(toAccount.id)!,
+  };
+}
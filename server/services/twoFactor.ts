@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import { and, eq, gt, gte, isNull, lt, or, sql } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { db, type DbClient } from "@/lib/db";
+import { loginChallenges, recoveryCodes, secondFactorFailures, users } from "@/lib/db/schema";
+import { decrypt, fingerprint } from "./encryption";
+import { base32Encode, matchTotpStep } from "./totp";
+
+export const RECOVERY_CODE_COUNT = 10;
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const LOGIN_CHALLENGE_MAX_ATTEMPTS = 5;
+
+// Signing in again opens a fresh challenge, so wrong codes are also capped per user across all of
+// them: after this many within the window, sign-in stops taking codes until the oldest ages out
+export const SECOND_FACTOR_MAX_FAILURES = 10;
+export const SECOND_FACTOR_FAILURE_WINDOW_MS = 60 * 60 * 1000;
+
+const RECOVERY_CODE_PATTERN = /^[a-z2-7]{5}-?[a-z2-7]{5}$/;
+
+function recoveryCodeHash(code: string) {
+  return fingerprint(`recovery:${code.toLowerCase().replace("-", "")}`);
+}
+
+// Ten "xxxxx-xxxxx" codes, 50 bits each; the caller shows them once and only hashes are stored
+export function replaceRecoveryCodes(tx: DbClient, userId: number): string[] {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId)).run();
+  tx.insert(recoveryCodes)
+    .values(codes.map((code) => ({ userId, codeHash: recoveryCodeHash(code) })))
+    .run();
+
+  return codes;
+}
+
+export function countUnusedRecoveryCodes(client: DbClient, userId: number): number {
+  const row = client
+    .select({ total: sql<number>`count(*)` })
+    .from(recoveryCodes)
+    .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)))
+    .get();
+  return row?.total ?? 0;
+}
+
+// Checks a six-digit authenticator code, or spends a recovery code. Each succeeds at most once:
+// the accepted TOTP step and the recovery code are claimed with conditional updates.
+export function verifySecondFactor(tx: DbClient, userId: number, code: string, now = new Date()): boolean {
+  const user = tx.select().from(users).where(eq(users.id, userId)).get();
+  if (!user?.totpSecret) return false;
+
+  const normalized = code.replace(/\s/g, "");
+  if (/^\d{6}$/.test(normalized)) {
+    const step = matchTotpStep(decrypt(user.totpSecret), normalized, now, user.totpLastStep);
+    if (step === null) return false;
+
+    const claimed = tx
+      .update(users)
+      .set({ totpLastStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.totpLastStep), lt(users.totpLastStep, step))))
+      .returning({ id: users.id })
+      .get();
+    return claimed !== undefined;
+  }
+
+  if (!RECOVERY_CODE_PATTERN.test(normalized.toLowerCase())) return false;
+  const spent = tx
+    .update(recoveryCodes)
+    .set({ usedAt: now.toISOString() })
+    .where(
+      and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, recoveryCodeHash(normalized)),
+        isNull(recoveryCodes.usedAt)
+      )
+    )
+    .returning({ id: recoveryCodes.id })
+    .get();
+  return spent !== undefined;
+}
+
+// Issued once the password has checked out. Only a keyed hash of the token is stored.
+export function createLoginChallenge(userId: number, now = new Date()) {
+  const challengeToken = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(now.getTime() + LOGIN_CHALLENGE_TTL_MS).toISOString();
+
+  db.insert(loginChallenges)
+    .values({ userId, tokenHash: fingerprint(`login-challenge:${challengeToken}`), expiresAt })
+    .run();
+
+  return { challengeToken, expiresAt };
+}
+
+// Trades a challenge and a second-factor code for the user to sign in. A challenge allows a few
+// wrong codes, the user a few more across challenges, and is spent by the first right one. Failures are thrown only after the transaction
+// commits so the attempt count sticks.
+export function redeemLoginChallenge(challengeToken: string, code: string, now = new Date()) {
+  const outcome = db.transaction((tx) => {
+    const challenge = tx
+      .update(loginChallenges)
+      .set({ attempts: sql`${loginChallenges.attempts} + 1` })
+      .where(
+        and(
+          eq(loginChallenges.tokenHash, fingerprint(`login-challenge:${challengeToken}`)),
+          isNull(loginChallenges.consumedAt),
+          gt(loginChallenges.expiresAt, now.toISOString()),
+          lt(loginChallenges.attempts, LOGIN_CHALLENGE_MAX_ATTEMPTS)
+        )
+      )
+      .returning()
+      .get();
+
+    if (!challenge) {
+      return { error: "This sign-in attempt has expired. Please sign in again." };
+    }
+
+    const recentFailures =
+      tx
+        .select({ total: sql<number>`count(*)` })
+        .from(secondFactorFailures)
+        .where(
+          and(
+            eq(secondFactorFailures.userId, challenge.userId),
+            gte(secondFactorFailures.failedAt, new Date(now.getTime() - SECOND_FACTOR_FAILURE_WINDOW_MS).toISOString())
+          )
+        )
+        .get()?.total ?? 0;
+    if (recentFailures >= SECOND_FACTOR_MAX_FAILURES) {
+      return { error: "Too many invalid codes. Please try again later." };
+    }
+
+    if (!verifySecondFactor(tx, challenge.userId, code, now)) {
+      tx.insert(secondFactorFailures).values({ userId: challenge.userId, failedAt: now.toISOString() }).run();
+      return {
+        error:
+          challenge.attempts < LOGIN_CHALLENGE_MAX_ATTEMPTS
+            ? "Invalid verification code"
+            : "Too many invalid codes. Please sign in again.",
+      };
+    }
+
+    tx.update(loginChallenges).set({ consumedAt: now.toISOString() }).where(eq(loginChallenges.id, challenge.id)).run();
+    return { user: tx.select().from(users).where(eq(users.id, challenge.userId)).get()! };
+  });
+
+  if (!outcome.user) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: outcome.error,
+    });
+  }
+  return outcome.user;
+}
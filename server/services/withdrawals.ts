@@ -0,0 +1,72 @@
+import { and, eq, lte, ne, sql } from "drizzle-orm";
+import { db, type DbClient } from "@/lib/db";
+import { accounts, transactions } from "@/lib/db/schema";
+import { Money, type Cents } from "@/lib/money";
+import { postJournalEntry } from "./ledger";
+
+// Largest single outbound transfer we allow, in dollars
+export const MAX_WITHDRAWAL_AMOUNT = 5000;
+
+// How long an outbound ACH stays pending before it is treated as sent
+export const WITHDRAWAL_PROCESSING_DELAY_MS = Number(process.env.WITHDRAWAL_PROCESSING_DELAY_MS ?? 60 * 1000);
+
+// Pending withdrawals are holds: they reduce what can be spent but only touch
+// `accounts.balance_cents` once they complete.
+export function getAvailableBalance(client: DbClient, account: { id: number; balanceCents: Cents }): Cents {
+  const held = client
+    .select({ total: sql<number>`coalesce(sum(${transactions.amountCents}), 0)` })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.accountId, account.id),
+        eq(transactions.type, "withdrawal"),
+        eq(transactions.status, "pending")
+      )
+    )
+    .get();
+
+  return Money.subtract(account.balanceCents, held?.total ?? 0);
+}
+
+// Mark withdrawals whose processing window has passed as completed and post them to the balance.
+// Withdrawals from a frozen account stay pending until it is unfrozen.
+export function completeDueWithdrawals(now = new Date()) {
+  const due = db
+    .select({ transactions })
+    .from(transactions)
+    .innerJoin(accounts, eq(accounts.id, transactions.accountId))
+    .where(
+      and(
+        eq(transactions.type, "withdrawal"),
+        eq(transactions.status, "pending"),
+        lte(transactions.settleAfter, now.toISOString()),
+        ne(accounts.status, "frozen")
+      )
+    )
+    .all()
+    .map((row) => row.transactions);
+
+  for (const withdrawal of due) {
+    db.transaction((tx) => {
+      tx.update(transactions)
+        .set({ status: "completed", processedAt: now.toISOString() })
+        .where(eq(transactions.id, withdrawal.id))
+        .run();
+
+      postJournalEntry(tx, {
+        description: "Withdrawal to external bank",
+        postings: [
+          {
+            accountId: withdrawal.accountId,
+            transactionId: withdrawal.id,
+            direction: "debit",
+            amountCents: withdrawal.amountCents,
+          },
+          { internalAccount: "ach_clearing", direction: "credit", amountCents: withdrawal.amountCents },
+        ],
+      });
+    });
+  }
+
+  return due.length;
+}
@@ -5,6 +5,7 @@ import jwt from "jsonwebtoken";
 import { db } from "@/lib/db";
 import { sessions, users } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import { isSessionLive, touchSession } from "./services/sessions";
 
 export async function createContext(opts: CreateNextContextOptions | FetchCreateContextFnOptions) {
   // Handle different adapter types
@@ -58,14 +59,11 @@ export async function createContext(opts: CreateNextContextOptions | FetchCreate
 
       const session = await db.select().from(sessions).where(eq(sessions.token, token)).get();
 
-      if (session) {
-        const expiresIn = new Date(session.expiresAt).getTime() - new Date().getTime();
-        // BUG-18 fix: reject sessions that are expired or within 60s of expiry
-        if (expiresIn > 60000) {
-          user = await db.select().from(users).where(eq(users.id, decoded.userId)).get();
-        } else if (expiresIn > 0) {
-          console.warn("Session about to expire, treating as invalid for safety");
-        }
+      // An expired access token fails jwt.verify above; the client refreshes and retries.
+      // Idle or past their absolute lifetime, sessions are rejected here and can't be refreshed.
+      if (session && isSessionLive(session)) {
+        user = await db.select().from(users).where(eq(users.id, decoded.userId)).get();
+        touchSession(session);
       }
     } catch (error) {
       // Invalid token
@@ -97,3 +95,24 @@ export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
     },
   });
 });
+
+// Bank staff tooling; roles are granted with `npm run db:grant-staff`
+export const staffProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  if (ctx.user.role !== "staff") {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+
+  return next();
+});
+
+// Anything that moves money. A user has to prove they own their email address first.
+export const verifiedProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  if (!ctx.user.emailVerifiedAt) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Verify your email address before moving money",
+    });
+  }
+
+  return next();
+});